@@ -0,0 +1,310 @@
+/**
+ * Tests for Session Metric Aggregates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSessionMetrics,
+  applyEventToMetrics,
+  calculateSessionMetrics,
+  mergeSessionMetrics,
+} from './aggregates.js';
+import { EventCollector } from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk } from '../shared/result.js';
+import { getOwnEntry } from '../shared/records.js';
+import {
+  createFileChangeEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+  createTokensOutEvent,
+  createToolCallEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+
+/**
+ * Client-supplied keys that name Object.prototype members
+ */
+const reservedKeys = ['__proto__', 'constructor'];
+
+/**
+ * Builds a deterministic mixed event sequence for a session
+ */
+function createMixedEvents(
+  sessionId: string,
+  iterations: number
+): MeterEvent[] {
+  const base = { timestamp: validTimestamp, sessionId };
+  const events: MeterEvent[] = [
+    { ...base, eventType: 'session_start', payload: {} },
+  ];
+
+  for (let i = 1; i <= iterations; i++) {
+    const storyId = `US-${String(Math.ceil(i / 3)).padStart(3, '0')}`;
+    events.push(
+      {
+        ...base,
+        eventType: 'iteration_start',
+        payload: { iterationNumber: i, storyId },
+      },
+      { ...base, eventType: 'tokens_in', payload: { count: i * 37 } },
+      { ...base, eventType: 'tokens_out', payload: { count: i * 11 } },
+      {
+        ...base,
+        eventType: 'compilation_result',
+        payload: { success: i % 2 === 0 },
+      },
+      {
+        ...base,
+        eventType: 'test_result',
+        payload: {
+          success: i % 3 === 0,
+          totalTests: 10,
+          passed: i % 3 === 0 ? 10 : 7,
+          failed: i % 3 === 0 ? 0 : 3,
+        },
+      },
+      {
+        ...base,
+        eventType: 'iteration_end',
+        payload: { iterationNumber: i, storyId, success: i % 3 === 0 },
+      }
+    );
+    if (i % 3 === 0) {
+      events.push({
+        ...base,
+        eventType: 'story_complete',
+        payload: { storyId, passes: i % 2 === 0 },
+      });
+    }
+  }
+
+  return events;
+}
+
+// ============================================================================
+// Aggregation Function Tests
+// ============================================================================
+
+describe('applyEventToMetrics', () => {
+  it('folds events into the same totals as a full scan', () => {
+    const events = createMixedEvents(createSessionId(), 12);
+    const metrics = createSessionMetrics();
+    for (const event of events) {
+      applyEventToMetrics(metrics, event);
+    }
+
+    expect(metrics).toEqual(calculateSessionMetrics(events));
+    expect(metrics.totalIterations).toBe(12);
+    expect(metrics.storiesCompleted).toBe(4);
+  });
+});
+
+// ============================================================================
+// EventCollector Incremental Metrics Tests
+// ============================================================================
+
+describe('mergeSessionMetrics', () => {
+  it('matches a full scan over both sessions combined', () => {
+    const sessionId = createSessionId();
+    const base = { timestamp: validTimestamp, sessionId };
+    const first = createMixedEvents(sessionId, 4);
+    const second: MeterEvent[] = [
+      ...createMixedEvents(sessionId, 5),
+      {
+        ...base,
+        eventType: 'tokens_in',
+        payload: { count: 500, model: 'model-a', cacheReadCount: 100 },
+      },
+      {
+        ...base,
+        eventType: 'tool_call',
+        payload: { toolName: 'Bash', durationMs: 20, success: false },
+      },
+      {
+        ...base,
+        eventType: 'file_change',
+        payload: {
+          filePath: 'src/a.ts',
+          storyId: 'US-001',
+          linesAdded: 10,
+          linesDeleted: 2,
+        },
+      },
+    ];
+
+    const merged = calculateSessionMetrics(first);
+    mergeSessionMetrics(merged, calculateSessionMetrics(second));
+
+    expect(merged).toEqual(calculateSessionMetrics([...first, ...second]));
+  });
+});
+
+describe('EventCollector incremental metrics', () => {
+  it('matches a full recompute after every event', () => {
+    const collector = new EventCollector();
+    const sessionId = createSessionId();
+
+    for (const event of createMixedEvents(sessionId, 9)) {
+      collector.emit(event);
+      expect(collector.getMetrics(sessionId)).toEqual(
+        collector.recomputeMetrics(sessionId)
+      );
+    }
+  });
+
+  it('matches a full recompute for a long session', () => {
+    const collector = new EventCollector();
+    const sessionId = createSessionId();
+    const events = createMixedEvents(sessionId, 2000);
+    for (const event of events) {
+      collector.emit(event);
+    }
+
+    const running = collector.getMetrics(sessionId);
+    expect(running).toEqual(collector.recomputeMetrics(sessionId));
+    if (isOk(running)) {
+      expect(running.value.totalTokensIn).toBe((37 * 2000 * 2001) / 2);
+    }
+  });
+
+  it('returns copies that cannot corrupt the running totals', () => {
+    const collector = new EventCollector();
+    const sessionId = createSessionId();
+    collector.emit(createMixedEvents(sessionId, 0)[0]);
+
+    const first = collector.getMetrics(sessionId);
+    if (isOk(first)) {
+      first.value.totalTokensIn = 999;
+    }
+
+    const second = collector.getMetrics(sessionId);
+    if (isOk(second)) {
+      expect(second.value.totalTokensIn).toBe(0);
+    }
+  });
+
+  it('keys tool calls named after Object.prototype members', () => {
+    const collector = new EventCollector();
+    const sessionId = createSessionId();
+    collector.emit(createSessionStartEvent(sessionId));
+    for (const toolName of reservedKeys) {
+      collector.emit(
+        createToolCallEvent(sessionId, {
+          toolName,
+          durationMs: 5,
+          success: true,
+        })
+      );
+    }
+
+    const metrics = collector.getMetrics(sessionId);
+
+    expect(isOk(metrics)).toBe(true);
+    if (isOk(metrics)) {
+      const merged = createSessionMetrics();
+      mergeSessionMetrics(merged, metrics.value);
+      for (const table of [metrics.value.toolCalls, merged.toolCalls]) {
+        expect(
+          reservedKeys.map((key) => getOwnEntry(table, key)?.calls)
+        ).toEqual([1, 1]);
+      }
+      expect(Object.getPrototypeOf(merged.toolCalls)).toBe(Object.prototype);
+    }
+    expect(({} as Record<string, unknown>)['calls']).toBeUndefined();
+  });
+
+  it('keys token usage of models named after Object.prototype members', () => {
+    const collector = new EventCollector();
+    const sessionId = createSessionId();
+    collector.emit(createSessionStartEvent(sessionId));
+    for (const model of reservedKeys) {
+      collector.emit(createTokensInEvent(sessionId, { count: 10, model }));
+      collector.emit(createTokensOutEvent(sessionId, { count: 5, model }));
+    }
+
+    const metrics = collector.getMetrics(sessionId);
+
+    expect(isOk(metrics)).toBe(true);
+    if (isOk(metrics)) {
+      const merged = createSessionMetrics();
+      mergeSessionMetrics(merged, metrics.value);
+      for (const table of [metrics.value.tokensByModel, merged.tokensByModel]) {
+        expect(reservedKeys.map((key) => getOwnEntry(table, key))).toEqual([
+          {
+            tokensIn: 10,
+            tokensOut: 5,
+            cacheReadTokens: 0,
+            cacheCreationTokens: 0,
+          },
+          {
+            tokensIn: 10,
+            tokensOut: 5,
+            cacheReadTokens: 0,
+            cacheCreationTokens: 0,
+          },
+        ]);
+      }
+    }
+    expect(
+      (Object as unknown as Record<string, unknown>)['tokensIn']
+    ).toBeUndefined();
+  });
+
+  it('keys line churn of files and stories named after Object.prototype members', () => {
+    const collector = new EventCollector();
+    const sessionId = createSessionId();
+    collector.emit(createSessionStartEvent(sessionId));
+    for (const key of reservedKeys) {
+      collector.emit(
+        createFileChangeEvent(sessionId, {
+          filePath: key,
+          storyId: key,
+          linesAdded: 3,
+          linesDeleted: 1,
+        })
+      );
+    }
+
+    const metrics = collector.getMetrics(sessionId);
+
+    expect(isOk(metrics)).toBe(true);
+    if (isOk(metrics)) {
+      const merged = createSessionMetrics();
+      mergeSessionMetrics(merged, metrics.value);
+      for (const table of [
+        metrics.value.linesByStory,
+        metrics.value.linesByFile,
+        merged.linesByStory,
+        merged.linesByFile,
+      ]) {
+        expect(
+          reservedKeys.map((key) => getOwnEntry(table, key)?.netDelta)
+        ).toEqual([2, 2]);
+      }
+    }
+    expect(({} as Record<string, unknown>)['netDelta']).toBeUndefined();
+  });
+
+  it('ignores rejected events', () => {
+    const collector = new EventCollector({ ordering: 'strict' });
+    const sessionId = createSessionId();
+    collector.emit(createMixedEvents(sessionId, 0)[0]);
+    collector.emit({
+      timestamp: validTimestamp,
+      sessionId,
+      eventType: 'iteration_end',
+      payload: { iterationNumber: 1, storyId: 'US-001', success: true },
+    });
+
+    const metrics = collector.getMetrics(sessionId);
+    if (isOk(metrics)) {
+      expect(metrics.value.totalIterations).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Session Metric Aggregates for RalphMeter
+ *
+ * Folds events into SessionMetrics one at a time so the collector can
+ * keep running totals instead of rescanning every event.
+ */
+
+import { type MeterEvent, isCustomEvent } from './events.js';
+import type {
+  SessionMetrics,
+  LineChangeStats,
+  ToolCallStats,
+} from './collector.js';
+import { type ModelTokenUsage, UNKNOWN_MODEL } from './pricing.js';
+import { ensureOwnEntry } from '../shared/records.js';
+
+// ============================================================================
+// Aggregation Functions
+// ============================================================================
+
+/**
+ * Creates zeroed session metrics
+ */
+export function createSessionMetrics(): SessionMetrics {
+  return {
+    totalIterations: 0,
+    totalTokensIn: 0,
+    totalTokensOut: 0,
+    totalCacheReadTokens: 0,
+    totalCacheCreationTokens: 0,
+    tokensByModel: {},
+    compilationAttempts: 0,
+    compilationSuccesses: 0,
+    testAttempts: 0,
+    testSuccesses: 0,
+    storiesCompleted: 0,
+    storiesPassed: 0,
+    totalToolCalls: 0,
+    toolCallFailures: 0,
+    toolCalls: {},
+    totalLinesAdded: 0,
+    totalLinesDeleted: 0,
+    linesByStory: {},
+    linesByFile: {},
+    customEventCounts: {},
+  };
+}
+
+/**
+ * Adds a single event to running session metrics
+ *
+ * @param metrics - Metrics to update in place
+ * @param event - The accepted event
+ */
+export function applyEventToMetrics(
+  metrics: SessionMetrics,
+  event: MeterEvent
+): void {
+  if (isCustomEvent(event)) {
+    metrics.customEventCounts[event.eventType] =
+      (metrics.customEventCounts[event.eventType] ?? 0) + 1;
+    return;
+  }
+
+  switch (event.eventType) {
+    case 'iteration_end':
+      metrics.totalIterations++;
+      break;
+    case 'tokens_in': {
+      const cacheRead = event.payload.cacheReadCount ?? 0;
+      const cacheCreation = event.payload.cacheCreationCount ?? 0;
+      const usage = getModelUsage(metrics, event.payload.model);
+      metrics.totalTokensIn += event.payload.count;
+      metrics.totalCacheReadTokens += cacheRead;
+      metrics.totalCacheCreationTokens += cacheCreation;
+      usage.tokensIn += event.payload.count;
+      usage.cacheReadTokens += cacheRead;
+      usage.cacheCreationTokens += cacheCreation;
+      break;
+    }
+    case 'tokens_out':
+      metrics.totalTokensOut += event.payload.count;
+      getModelUsage(metrics, event.payload.model).tokensOut +=
+        event.payload.count;
+      break;
+    case 'compilation_result':
+      metrics.compilationAttempts++;
+      if (event.payload.success) {
+        metrics.compilationSuccesses++;
+      }
+      break;
+    case 'test_result':
+      metrics.testAttempts++;
+      if (event.payload.success) {
+        metrics.testSuccesses++;
+      }
+      break;
+    case 'story_complete':
+      metrics.storiesCompleted++;
+      if (event.payload.passes) {
+        metrics.storiesPassed++;
+      }
+      break;
+    case 'tool_call': {
+      const { toolName, success, durationMs } = event.payload;
+      const stats = ensureOwnEntry(
+        metrics.toolCalls,
+        toolName,
+        createToolCallStats
+      );
+      stats.calls++;
+      stats.totalDurationMs += durationMs;
+      metrics.totalToolCalls++;
+      if (!success) {
+        stats.failures++;
+        metrics.toolCallFailures++;
+      }
+      stats.failureRate = stats.failures / stats.calls;
+      break;
+    }
+    case 'file_change': {
+      const { filePath, storyId, linesAdded, linesDeleted } = event.payload;
+      metrics.totalLinesAdded += linesAdded;
+      metrics.totalLinesDeleted += linesDeleted;
+      addLineChange(metrics.linesByStory, storyId, linesAdded, linesDeleted);
+      addLineChange(metrics.linesByFile, filePath, linesAdded, linesDeleted);
+      break;
+    }
+  }
+}
+
+/**
+ * Adds one session's metrics into another, e.g. to roll sub-agent
+ * sessions up into their parent
+ *
+ * @param target - Metrics to update in place
+ * @param source - Metrics to add
+ */
+export function mergeSessionMetrics(
+  target: SessionMetrics,
+  source: SessionMetrics
+): void {
+  target.totalIterations += source.totalIterations;
+  target.totalTokensIn += source.totalTokensIn;
+  target.totalTokensOut += source.totalTokensOut;
+  target.totalCacheReadTokens += source.totalCacheReadTokens;
+  target.totalCacheCreationTokens += source.totalCacheCreationTokens;
+  target.compilationAttempts += source.compilationAttempts;
+  target.compilationSuccesses += source.compilationSuccesses;
+  target.testAttempts += source.testAttempts;
+  target.testSuccesses += source.testSuccesses;
+  target.storiesCompleted += source.storiesCompleted;
+  target.storiesPassed += source.storiesPassed;
+  target.totalToolCalls += source.totalToolCalls;
+  target.toolCallFailures += source.toolCallFailures;
+  target.totalLinesAdded += source.totalLinesAdded;
+  target.totalLinesDeleted += source.totalLinesDeleted;
+
+  for (const [model, usage] of Object.entries(source.tokensByModel)) {
+    const merged = getModelUsage(target, model);
+    merged.tokensIn += usage.tokensIn;
+    merged.tokensOut += usage.tokensOut;
+    merged.cacheReadTokens += usage.cacheReadTokens;
+    merged.cacheCreationTokens += usage.cacheCreationTokens;
+  }
+
+  for (const [toolName, stats] of Object.entries(source.toolCalls)) {
+    const merged = ensureOwnEntry(
+      target.toolCalls,
+      toolName,
+      createToolCallStats
+    );
+    merged.calls += stats.calls;
+    merged.failures += stats.failures;
+    merged.totalDurationMs += stats.totalDurationMs;
+    merged.failureRate = merged.calls > 0 ? merged.failures / merged.calls : 0;
+  }
+
+  for (const [storyId, stats] of Object.entries(source.linesByStory)) {
+    addLineChanges(target.linesByStory, storyId, stats);
+  }
+  for (const [filePath, stats] of Object.entries(source.linesByFile)) {
+    addLineChanges(target.linesByFile, filePath, stats);
+  }
+
+  for (const [eventType, count] of Object.entries(source.customEventCounts)) {
+    target.customEventCounts[eventType] =
+      (target.customEventCounts[eventType] ?? 0) + count;
+  }
+}
+
+/**
+ * Creates zeroed statistics for a tool
+ */
+function createToolCallStats(): ToolCallStats {
+  return { calls: 0, failures: 0, failureRate: 0, totalDurationMs: 0 };
+}
+
+/**
+ * Gets (creating if needed) the usage entry for a model
+ */
+function getModelUsage(
+  metrics: SessionMetrics,
+  model: string | undefined
+): ModelTokenUsage {
+  return ensureOwnEntry(metrics.tokensByModel, model ?? UNKNOWN_MODEL, () => ({
+    tokensIn: 0,
+    tokensOut: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+  }));
+}
+
+/**
+ * Creates zeroed line churn statistics
+ */
+function createLineChangeStats(): LineChangeStats {
+  return { changes: 0, linesAdded: 0, linesDeleted: 0, netDelta: 0 };
+}
+
+/**
+ * Adds one file change to a keyed line churn table
+ */
+function addLineChange(
+  table: Record<string, LineChangeStats>,
+  key: string,
+  linesAdded: number,
+  linesDeleted: number
+): void {
+  const stats = ensureOwnEntry(table, key, createLineChangeStats);
+  stats.changes++;
+  stats.linesAdded += linesAdded;
+  stats.linesDeleted += linesDeleted;
+  stats.netDelta = stats.linesAdded - stats.linesDeleted;
+}
+
+/**
+ * Adds aggregated line churn to a keyed line churn table
+ */
+function addLineChanges(
+  table: Record<string, LineChangeStats>,
+  key: string,
+  stats: LineChangeStats
+): void {
+  const merged = ensureOwnEntry(table, key, createLineChangeStats);
+  merged.changes += stats.changes;
+  merged.linesAdded += stats.linesAdded;
+  merged.linesDeleted += stats.linesDeleted;
+  merged.netDelta = merged.linesAdded - merged.linesDeleted;
+}
+
+/**
+ * Calculates session metrics with a full scan of the events
+ *
+ * @param events - All events in a session
+ * @param base - Metrics to start from, e.g. for events already compacted
+ *   (not modified)
+ * @returns The aggregated metrics
+ */
+export function calculateSessionMetrics(
+  events: MeterEvent[],
+  base?: SessionMetrics
+): SessionMetrics {
+  const metrics =
+    base === undefined ? createSessionMetrics() : structuredClone(base);
+  for (const event of events) {
+    applyEventToMetrics(metrics, event);
+  }
+  return metrics;
+}
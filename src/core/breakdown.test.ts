@@ -0,0 +1,271 @@
+/**
+ * Tests for Story and Iteration Breakdown
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSessionBreakdown,
+  createBreakdownState,
+  applyEventToBreakdown,
+  summarizeBreakdown,
+} from './breakdown.js';
+import { EventCollector } from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  at,
+  createCompilationResultEvent,
+  createIterationEndEvent,
+  createIterationStartEvent,
+  createSessionStartEvent,
+  createStoryCompleteEvent,
+  createTestResultEvent,
+  createTokensInEvent,
+  createTokensOutEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+function start(
+  iterationNumber: number,
+  storyId: string,
+  minute: number
+): MeterEvent {
+  return createIterationStartEvent(
+    sessionId,
+    { iterationNumber, storyId },
+    at(minute)
+  );
+}
+
+function end(
+  iterationNumber: number,
+  storyId: string,
+  success: boolean,
+  minute: number
+): MeterEvent {
+  return createIterationEndEvent(
+    sessionId,
+    { iterationNumber, storyId, success },
+    at(minute)
+  );
+}
+
+function compile(success: boolean, minute: number): MeterEvent {
+  return createCompilationResultEvent(sessionId, { success }, at(minute));
+}
+
+function tests(success: boolean, minute: number): MeterEvent {
+  return createTestResultEvent(
+    sessionId,
+    {
+      success,
+      totalTests: 1,
+      passed: success ? 1 : 0,
+      failed: success ? 0 : 1,
+    },
+    at(minute)
+  );
+}
+
+// ============================================================================
+// buildSessionBreakdown Tests
+// ============================================================================
+
+describe('buildSessionBreakdown', () => {
+  it('attributes activity to the open iteration', () => {
+    const breakdown = buildSessionBreakdown([
+      createTokensInEvent(sessionId, { count: 5 }, at(0)),
+      start(1, 'US-001', 0),
+      createTokensInEvent(sessionId, { count: 100 }, at(1)),
+      createTokensOutEvent(sessionId, { count: 40 }, at(2)),
+      compile(false, 3),
+      compile(true, 4),
+      tests(true, 5),
+      end(1, 'US-001', true, 10),
+      createTokensOutEvent(sessionId, { count: 7 }, at(11)),
+    ]);
+
+    expect(breakdown.iterations).toEqual([
+      {
+        iterationNumber: 1,
+        storyId: 'US-001',
+        startedAt: at(0),
+        endedAt: at(10),
+        wallTimeMs: 10 * 60_000,
+        success: true,
+        tokensIn: 100,
+        tokensOut: 40,
+        compilationAttempts: 2,
+        compilationSuccesses: 1,
+        testAttempts: 1,
+        testSuccesses: 1,
+      },
+    ]);
+    expect(breakdown.unattributed).toMatchObject({ tokensIn: 5, tokensOut: 7 });
+  });
+
+  it('rolls iterations up per story', () => {
+    const breakdown = buildSessionBreakdown([
+      start(1, 'US-001', 0),
+      createTokensInEvent(sessionId, { count: 100 }, at(1)),
+      tests(false, 2),
+      end(1, 'US-001', false, 5),
+      start(2, 'US-002', 5),
+      createTokensInEvent(sessionId, { count: 30 }, at(6)),
+      end(2, 'US-002', true, 8),
+      createStoryCompleteEvent(
+        sessionId,
+        { storyId: 'US-002', passes: true },
+        at(8)
+      ),
+      start(3, 'US-001', 10),
+      createTokensInEvent(sessionId, { count: 50 }, at(11)),
+      tests(true, 12),
+      end(3, 'US-001', true, 20),
+      createStoryCompleteEvent(
+        sessionId,
+        { storyId: 'US-001', passes: false },
+        at(20)
+      ),
+    ]);
+
+    expect(
+      breakdown.stories.map((s) => [
+        s.storyId,
+        s.iterationsUsed,
+        s.tokensIn,
+        s.testAttempts,
+        s.wallTimeMs / 60_000,
+        s.firstPassSuccess,
+        s.passes,
+      ])
+    ).toEqual([
+      ['US-001', 2, 150, 2, 15, false, false],
+      ['US-002', 1, 30, 0, 3, true, true],
+    ]);
+  });
+
+  it('measures open and superseded iterations', () => {
+    const breakdown = buildSessionBreakdown([
+      start(1, 'US-001', 0),
+      createTokensInEvent(sessionId, { count: 1 }, at(4)),
+      start(2, 'US-001', 6),
+      createTokensInEvent(sessionId, { count: 1 }, at(9)),
+    ]);
+
+    expect(
+      breakdown.iterations.map((i) => [
+        i.endedAt,
+        i.wallTimeMs / 60_000,
+        i.success,
+      ])
+    ).toEqual([
+      [at(6), 6, null],
+      [null, 3, null],
+    ]);
+    expect(breakdown.stories[0]?.passes).toBeNull();
+  });
+
+  it('returns empty tables without iterations', () => {
+    expect(buildSessionBreakdown([])).toEqual({
+      iterations: [],
+      stories: [],
+      unattributed: {
+        tokensIn: 0,
+        tokensOut: 0,
+        compilationAttempts: 0,
+        compilationSuccesses: 0,
+        testAttempts: 0,
+        testSuccesses: 0,
+      },
+    });
+  });
+});
+
+describe('applyEventToBreakdown', () => {
+  it('keeps running story totals between events', () => {
+    const state = createBreakdownState();
+    for (const e of [
+      start(1, 'US-001', 0),
+      createTokensInEvent(sessionId, { count: 100 }, at(1)),
+      end(1, 'US-001', true, 4),
+    ]) {
+      applyEventToBreakdown(state, e);
+    }
+
+    expect(summarizeBreakdown(state).stories).toMatchObject([
+      { storyId: 'US-001', tokensIn: 100, wallTimeMs: 4 * 60_000 },
+    ]);
+
+    applyEventToBreakdown(state, start(2, 'US-001', 5));
+    applyEventToBreakdown(
+      state,
+      createTokensOutEvent(sessionId, { count: 20 }, at(7))
+    );
+
+    expect(summarizeBreakdown(state).stories).toMatchObject([
+      {
+        storyId: 'US-001',
+        iterationsUsed: 2,
+        tokensIn: 100,
+        tokensOut: 20,
+        wallTimeMs: 6 * 60_000,
+        firstPassSuccess: true,
+      },
+    ]);
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector.getBreakdown', () => {
+  it('breaks a stored session down by story', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    for (const e of [
+      createSessionStartEvent(id, {}, at(0)),
+      { ...start(1, 'US-001', 1), sessionId: id },
+      createTokensInEvent(id, { count: 25 }, at(2)),
+      { ...end(1, 'US-001', true, 3), sessionId: id },
+    ]) {
+      collector.emit(e);
+    }
+
+    const breakdown = collector.getBreakdown(id);
+
+    expect(isOk(breakdown)).toBe(true);
+    if (isOk(breakdown)) {
+      expect(breakdown.value.stories).toMatchObject([
+        { storyId: 'US-001', iterationsUsed: 1, tokensIn: 25 },
+      ]);
+    }
+    expect(isErr(collector.getBreakdown(createSessionId()))).toBe(true);
+  });
+
+  it('updates a built breakdown as events arrive', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id, {}, at(0)));
+    collector.emit(
+      createIterationStartEvent(
+        id,
+        { iterationNumber: 1, storyId: 'US-001' },
+        at(1)
+      )
+    );
+    const before = collector.getBreakdown(id);
+
+    collector.emit(createTokensInEvent(id, { count: 25 }, at(2)));
+
+    const after = collector.getBreakdown(id);
+    expect(isOk(before) && before.value.stories[0]?.tokensIn).toBe(0);
+    expect(isOk(after) && after.value.stories[0]?.tokensIn).toBe(25);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Story and Iteration Breakdown for RalphMeter
+ *
+ * Attributes tokens, compile and test runs, and wall time to the
+ * iteration open when they were recorded, and rolls iterations up into
+ * a per-story table. This is the drill-down behind a story's Synth.
+ * The running state is the single source of per-story tokens.
+ */
+
+import type { MeterEvent } from './events.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Activity counted within one iteration window, or outside any window
+ */
+export interface ActivityTotals {
+  /** Input tokens */
+  tokensIn: number;
+  /** Output tokens */
+  tokensOut: number;
+  /** compilation_result events */
+  compilationAttempts: number;
+  /** Successful compilation_result events */
+  compilationSuccesses: number;
+  /** test_result events */
+  testAttempts: number;
+  /** Successful test_result events */
+  testSuccesses: number;
+}
+
+/**
+ * Activity within one iteration, from iteration_start to the matching
+ * iteration_end
+ */
+export interface IterationBreakdown extends ActivityTotals {
+  /** Iteration number from iteration_start */
+  iterationNumber: number;
+  /** Story worked on */
+  storyId: string;
+  /** Timestamp of iteration_start */
+  startedAt: string;
+  /**
+   * Timestamp of iteration_end, of the next iteration_start if the
+   * iteration was never ended, or null if it is still open
+   */
+  endedAt: string | null;
+  /** Wall time in milliseconds (up to the latest event while open) */
+  wallTimeMs: number;
+  /** Success from iteration_end, or null if it did not end normally */
+  success: boolean | null;
+}
+
+/**
+ * Activity across all iterations of one story
+ */
+export interface StoryBreakdown extends ActivityTotals {
+  /** The story ID */
+  storyId: string;
+  /** Iterations started for the story */
+  iterationsUsed: number;
+  /** Wall time of the story's iterations in milliseconds */
+  wallTimeMs: number;
+  /** Whether the story's first iteration ended successfully */
+  firstPassSuccess: boolean;
+  /** passes from the latest story_complete, or null if not completed */
+  passes: boolean | null;
+}
+
+/**
+ * Per-iteration and per-story breakdown of a session
+ */
+export interface SessionBreakdown {
+  /** Iterations in the order they started */
+  iterations: IterationBreakdown[];
+  /** Stories in order of first appearance */
+  stories: StoryBreakdown[];
+  /** Activity recorded while no iteration was open */
+  unattributed: ActivityTotals;
+}
+
+/**
+ * The iteration an event is attributed to
+ */
+export interface IterationRef {
+  /** Iteration number from iteration_start */
+  iterationNumber: number;
+  /** Story ID from iteration_start */
+  storyId: string;
+}
+
+/**
+ * Breakdown state tracked per session, with running story totals
+ */
+export interface BreakdownState {
+  /** Iterations in the order they started */
+  iterations: IterationBreakdown[];
+  /** Story totals by story ID, in order of first appearance */
+  stories: Map<string, StoryBreakdown>;
+  /** Activity recorded while no iteration was open */
+  unattributed: ActivityTotals;
+  /** The open iteration, or null if none */
+  open: IterationBreakdown | null;
+}
+
+// ============================================================================
+// Breakdown Functions
+// ============================================================================
+
+/**
+ * Gets the iteration open after an event. An iteration_start opens an
+ * iteration (ending any open one without a result) and an iteration_end
+ * closes it; every other event is attributed to the open iteration.
+ *
+ * @param open - The iteration open before the event, or null
+ * @param event - The event
+ * @returns The iteration open after the event, or null
+ */
+export function advanceIteration(
+  open: IterationRef | null,
+  event: MeterEvent
+): IterationRef | null {
+  switch (event.eventType) {
+    case 'iteration_start':
+      return {
+        iterationNumber: event.payload.iterationNumber,
+        storyId: event.payload.storyId,
+      };
+    case 'iteration_end':
+      return null;
+    default:
+      return open;
+  }
+}
+
+/**
+ * Creates the breakdown state for a new session
+ */
+export function createBreakdownState(): BreakdownState {
+  return {
+    iterations: [],
+    stories: new Map(),
+    unattributed: createActivityTotals(),
+    open: null,
+  };
+}
+
+/**
+ * Applies an accepted event to the breakdown, attributing it to the
+ * open iteration (see advanceIteration()) and that iteration's story
+ *
+ * @param state - State to update in place
+ * @param event - The accepted event
+ */
+export function applyEventToBreakdown(
+  state: BreakdownState,
+  event: MeterEvent
+): void {
+  const { open } = state;
+  if (open !== null) {
+    const wallTimeMs = Math.max(
+      open.wallTimeMs,
+      elapsedMs(open.startedAt, event.timestamp)
+    );
+    getStory(state, open.storyId).wallTimeMs += wallTimeMs - open.wallTimeMs;
+    open.wallTimeMs = wallTimeMs;
+  }
+
+  switch (event.eventType) {
+    case 'iteration_start': {
+      if (open !== null) {
+        open.endedAt = event.timestamp;
+      }
+      const { iterationNumber, storyId } = event.payload;
+      state.open = {
+        iterationNumber,
+        storyId,
+        startedAt: event.timestamp,
+        endedAt: null,
+        wallTimeMs: 0,
+        success: null,
+        ...createActivityTotals(),
+      };
+      state.iterations.push(state.open);
+      getStory(state, storyId).iterationsUsed++;
+      return;
+    }
+    case 'iteration_end':
+      if (open !== null) {
+        open.endedAt = event.timestamp;
+        open.success = event.payload.success;
+        const story = getStory(state, open.storyId);
+        // The open iteration is the story's latest, so its first if only one
+        if (story.iterationsUsed === 1) {
+          story.firstPassSuccess = event.payload.success;
+        }
+      }
+      state.open = null;
+      return;
+    case 'story_complete':
+      getStory(state, event.payload.storyId).passes = event.payload.passes;
+      return;
+    default:
+      if (open === null) {
+        addActivity(state.unattributed, event);
+      } else {
+        addActivity(open, event);
+        addActivity(getStory(state, open.storyId), event);
+      }
+  }
+}
+
+/**
+ * Builds breakdown state by replaying a session's events
+ *
+ * @param events - All events in a session
+ * @param base - Breakdown to start from, e.g. of events already compacted
+ * @returns The state after the last event
+ */
+export function buildBreakdownState(
+  events: MeterEvent[],
+  base?: SessionBreakdown
+): BreakdownState {
+  const state =
+    base === undefined ? createBreakdownState() : restoreBreakdownState(base);
+  for (const event of events) {
+    applyEventToBreakdown(state, event);
+  }
+  return state;
+}
+
+/**
+ * Gets the breakdown report for the current state
+ *
+ * @param state - Breakdown state
+ * @returns The breakdown (sharing objects with the state)
+ */
+export function summarizeBreakdown(state: BreakdownState): SessionBreakdown {
+  return {
+    iterations: state.iterations,
+    stories: Array.from(state.stories.values()),
+    unattributed: state.unattributed,
+  };
+}
+
+/**
+ * Builds the per-iteration and per-story breakdown of a session's events.
+ *
+ * Each event is attributed to the iteration opened by the latest
+ * iteration_start, until an iteration_end closes it. An iteration_start
+ * while another iteration is open ends the earlier one without a result.
+ *
+ * @param events - All events in a session
+ * @returns The breakdown
+ */
+export function buildSessionBreakdown(events: MeterEvent[]): SessionBreakdown {
+  return summarizeBreakdown(buildBreakdownState(events));
+}
+
+/**
+ * Gets the iteration still open at the end of a breakdown
+ *
+ * @param breakdown - The breakdown
+ * @returns The open iteration, or null if none
+ */
+export function findOpenIteration(
+  breakdown: SessionBreakdown
+): IterationBreakdown | null {
+  const latest = breakdown.iterations.at(-1);
+  return latest?.endedAt === null ? latest : null;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Creates breakdown state from a copy of a breakdown report
+ */
+function restoreBreakdownState(breakdown: SessionBreakdown): BreakdownState {
+  const { iterations, stories, unattributed } = structuredClone(breakdown);
+  return {
+    iterations,
+    stories: new Map(stories.map((story) => [story.storyId, story])),
+    unattributed,
+    open: findOpenIteration({ iterations, stories, unattributed }),
+  };
+}
+
+/**
+ * Gets a story's running totals, adding the story if it is new
+ */
+function getStory(state: BreakdownState, storyId: string): StoryBreakdown {
+  let story = state.stories.get(storyId);
+  if (story === undefined) {
+    story = {
+      storyId,
+      ...createActivityTotals(),
+      iterationsUsed: 0,
+      wallTimeMs: 0,
+      firstPassSuccess: false,
+      passes: null,
+    };
+    state.stories.set(storyId, story);
+  }
+  return story;
+}
+
+/**
+ * Creates zeroed activity totals
+ */
+function createActivityTotals(): ActivityTotals {
+  return {
+    tokensIn: 0,
+    tokensOut: 0,
+    compilationAttempts: 0,
+    compilationSuccesses: 0,
+    testAttempts: 0,
+    testSuccesses: 0,
+  };
+}
+
+/**
+ * Adds a token, compilation or test event to activity totals
+ */
+function addActivity(totals: ActivityTotals, event: MeterEvent): void {
+  switch (event.eventType) {
+    case 'tokens_in':
+      totals.tokensIn += event.payload.count;
+      break;
+    case 'tokens_out':
+      totals.tokensOut += event.payload.count;
+      break;
+    case 'compilation_result':
+      totals.compilationAttempts++;
+      if (event.payload.success) {
+        totals.compilationSuccesses++;
+      }
+      break;
+    case 'test_result':
+      totals.testAttempts++;
+      if (event.payload.success) {
+        totals.testSuccesses++;
+      }
+      break;
+  }
+}
+
+/**
+ * Gets the non-negative milliseconds between two timestamps
+ */
+function elapsedMs(from: string, to: string): number {
+  return Math.max(0, Date.parse(to) - Date.parse(from));
+}
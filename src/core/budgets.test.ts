@@ -0,0 +1,490 @@
+/**
+ * Tests for Session Budgets
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseBudgetTags,
+  validateBudget,
+  buildBudgetUsage,
+  findBudgetBreaches,
+  findBlockingBreach,
+  describeBudgetBreach,
+  type BudgetBreach,
+} from './budgets.js';
+import { EventCollector, type SessionWarning } from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import type { PricingTable } from './pricing.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  createIterationEndEvent,
+  createIterationStartEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+const pricing: PricingTable = {
+  models: { sonnet: { inputPerMillion: 3, outputPerMillion: 15 } },
+};
+
+function tokens(count: number, id: string = sessionId): MeterEvent {
+  return createTokensInEvent(id, { count, model: 'sonnet' });
+}
+
+function iterationStart(
+  iterationNumber: number,
+  storyId: string,
+  id: string = sessionId
+): MeterEvent {
+  return createIterationStartEvent(id, { iterationNumber, storyId });
+}
+
+function iterationEnd(
+  iterationNumber: number,
+  storyId: string,
+  id: string = sessionId
+): MeterEvent {
+  return createIterationEndEvent(id, {
+    iterationNumber,
+    storyId,
+    success: true,
+  });
+}
+
+function budgetWarnings(
+  warnings: SessionWarning[] | undefined
+): BudgetBreach[] {
+  return (warnings ?? [])
+    .filter((w) => w.code === 'BUDGET_EXCEEDED')
+    .map((w) => w.details as BudgetBreach);
+}
+
+// ============================================================================
+// Budget Configuration Tests
+// ============================================================================
+
+describe('parseBudgetTags', () => {
+  it('returns null without budget tags', () => {
+    const result = parseBudgetTags({ mode: 'tdd' });
+
+    expect(isOk(result) && result.value).toBeNull();
+  });
+
+  it('reads hard and soft limits', () => {
+    const result = parseBudgetTags({
+      mode: 'tdd',
+      'budget.maxTokens': '500000',
+      'budget.maxTokens.soft': '400000',
+      'budget.maxCost.hard': '25.5',
+      'budget.maxTokensPerStory.soft': '100000',
+      'budget.refuseTokensAfterHardLimit': 'true',
+    });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual({
+        maxTokens: { hard: 500000, soft: 400000 },
+        maxCost: { hard: 25.5 },
+        maxTokensPerStory: { soft: 100000 },
+        refuseTokensAfterHardLimit: true,
+      });
+    }
+  });
+
+  it('rejects unknown budget tags', () => {
+    const result = parseBudgetTags({ 'budget.maxWidgets': '3' });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('INVALID_BUDGET');
+      expect(result.error.message).toContain('budget.maxWidgets');
+    }
+  });
+
+  it('rejects non-numeric limits', () => {
+    expect(isErr(parseBudgetTags({ 'budget.maxTokens': 'lots' }))).toBe(true);
+    expect(isErr(parseBudgetTags({ 'budget.maxTokens': '' }))).toBe(true);
+    expect(
+      isErr(parseBudgetTags({ 'budget.refuseTokensAfterHardLimit': 'yes' }))
+    ).toBe(true);
+  });
+});
+
+describe('validateBudget', () => {
+  it('rejects negative limits', () => {
+    expect(isErr(validateBudget({ maxIterations: { hard: -1 } }))).toBe(true);
+  });
+
+  it('rejects cost limits that the pricing table cannot price', () => {
+    const budget = { maxCost: { hard: 5 } };
+
+    const unpriced = validateBudget(budget, { models: {} });
+    const fallback = validateBudget(budget, {
+      models: {},
+      fallback: { inputPerMillion: 1, outputPerMillion: 1 },
+    });
+
+    expect(isErr(unpriced) && unpriced.error.code).toBe('INVALID_BUDGET');
+    expect(isOk(validateBudget(budget, pricing))).toBe(true);
+    expect(isOk(fallback)).toBe(true);
+  });
+
+  it('rejects soft limits above hard limits', () => {
+    const result = validateBudget({ maxTokens: { soft: 200, hard: 100 } });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.message).toContain('exceeds its hard limit');
+    }
+  });
+});
+
+// ============================================================================
+// Budget Check Tests
+// ============================================================================
+
+describe('findBudgetBreaches', () => {
+  it('reports each crossed limit once', () => {
+    const budget = { maxTokens: { soft: 100, hard: 200 } };
+    const usage = buildBudgetUsage([tokens(150)]);
+
+    const first = findBudgetBreaches(budget, usage, pricing, [], 't1');
+    const again = findBudgetBreaches(budget, usage, pricing, first, 't2');
+
+    expect(first).toEqual([
+      {
+        metric: 'tokens',
+        level: 'soft',
+        limit: 100,
+        value: 150,
+        storyId: null,
+        timestamp: 't1',
+      },
+    ]);
+    expect(again).toEqual([]);
+  });
+
+  it('does not breach at exactly the limit', () => {
+    const usage = buildBudgetUsage([tokens(100)]);
+
+    expect(
+      findBudgetBreaches({ maxTokens: { hard: 100 } }, usage, pricing, [], 't')
+    ).toEqual([]);
+  });
+
+  it('prices cost limits with the pricing table', () => {
+    const usage = buildBudgetUsage([tokens(1_000_000)]);
+
+    const breaches = findBudgetBreaches(
+      { maxCost: { hard: 2 } },
+      usage,
+      pricing,
+      [],
+      't'
+    );
+
+    expect(breaches.map((b) => [b.metric, b.value])).toEqual([['cost', 3]]);
+  });
+
+  it('counts iterations started and tokens per story', () => {
+    const usage = buildBudgetUsage([
+      iterationStart(1, 'US-001'),
+      tokens(300),
+      iterationEnd(1, 'US-001'),
+      iterationStart(2, 'US-002'),
+      tokens(50),
+    ]);
+
+    const breaches = findBudgetBreaches(
+      { maxIterations: { soft: 1 }, maxTokensPerStory: { hard: 100 } },
+      usage,
+      pricing,
+      [],
+      't'
+    );
+
+    expect(
+      breaches.map((b) => [b.metric, b.level, b.value, b.storyId])
+    ).toEqual([
+      ['iterations', 'soft', 2, null],
+      ['storyTokens', 'hard', 300, 'US-001'],
+    ]);
+  });
+});
+
+describe('findBlockingBreach', () => {
+  it('only refuses token events when enabled', () => {
+    const usage = buildBudgetUsage([tokens(500)]);
+    const budget = { maxTokens: { hard: 100 } };
+
+    expect(
+      findBlockingBreach(budget, usage, pricing, tokens(1))
+    ).toBeUndefined();
+    expect(
+      findBlockingBreach(
+        { ...budget, refuseTokensAfterHardLimit: true },
+        usage,
+        pricing,
+        tokens(1)
+      )?.metric
+    ).toBe('tokens');
+    expect(
+      findBlockingBreach(
+        { ...budget, refuseTokensAfterHardLimit: true },
+        usage,
+        pricing,
+        iterationStart(1, 'US-001')
+      )
+    ).toBeUndefined();
+  });
+
+  it('only refuses tokens for the story over its limit', () => {
+    const budget = {
+      maxTokensPerStory: { hard: 100 },
+      refuseTokensAfterHardLimit: true,
+    };
+    const events = [iterationStart(1, 'US-001'), tokens(500)];
+
+    expect(
+      findBlockingBreach(budget, buildBudgetUsage(events), pricing, tokens(1))
+        ?.storyId
+    ).toBe('US-001');
+    expect(
+      findBlockingBreach(
+        budget,
+        buildBudgetUsage([
+          ...events,
+          iterationEnd(1, 'US-001'),
+          iterationStart(2, 'US-002'),
+        ]),
+        pricing,
+        tokens(1)
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe('describeBudgetBreach', () => {
+  it('summarizes breaches', () => {
+    expect(
+      describeBudgetBreach({
+        metric: 'storyTokens',
+        level: 'hard',
+        limit: 100,
+        value: 300,
+        storyId: 'US-001',
+        timestamp: validTimestamp,
+      })
+    ).toBe('Exceeded hard tokens for story US-001 limit: 300 > 100');
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector budgets', () => {
+  it('records breaches from session_start tag budgets', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const received: SessionWarning[] = [];
+    collector.subscribeWarnings((_, warning) => received.push(warning));
+
+    collector.emit(
+      createSessionStartEvent(id, {
+        tags: {
+          'budget.maxTokens': '1000',
+          'budget.maxTokens.soft': '500',
+        },
+      })
+    );
+    collector.emit(tokens(600, id));
+    collector.emit(tokens(600, id));
+    collector.emit(tokens(600, id));
+
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata)).toBe(true);
+    if (isOk(metadata)) {
+      expect(metadata.value.budget).toEqual({
+        maxTokens: { hard: 1000, soft: 500 },
+      });
+      expect(
+        budgetWarnings(metadata.value.warnings).map((b) => [b.level, b.value])
+      ).toEqual([
+        ['soft', 600],
+        ['hard', 1200],
+      ]);
+    }
+    expect(received.map((w) => w.code)).toEqual([
+      'BUDGET_EXCEEDED',
+      'BUDGET_EXCEEDED',
+    ]);
+  });
+
+  it('rejects session_start with invalid budget tags', () => {
+    const collector = new EventCollector();
+
+    const result = collector.emit(
+      createSessionStartEvent(sessionId, {
+        tags: { 'budget.maxTokens': 'lots' },
+      })
+    );
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('INVALID_BUDGET');
+    }
+  });
+
+  it('rejects cost budgets without a priced model', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+
+    const tagged = collector.emit(
+      createSessionStartEvent(createSessionId(), {
+        tags: { 'budget.maxCost': '5' },
+      })
+    );
+    collector.emit(createSessionStartEvent(id));
+    const set = collector.setBudget(id, { maxCost: { hard: 5 } });
+
+    expect(isErr(tagged) && tagged.error.code).toBe('INVALID_BUDGET');
+    expect(isErr(set) && set.error.code).toBe('INVALID_BUDGET');
+    collector.setPricing(pricing);
+    expect(isOk(collector.setBudget(id, { maxCost: { hard: 5 } }))).toBe(true);
+  });
+
+  it('counts the same tokens as the metrics and breakdown', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    collector.emit(iterationStart(1, 'US-001', id));
+    collector.emit(tokens(250, id));
+    collector.emit(iterationEnd(1, 'US-001', id));
+    collector.emit(tokens(50, id));
+
+    const status = collector.getBudgetStatus(id);
+    const metrics = collector.getMetrics(id);
+    const breakdown = collector.getBreakdown(id);
+
+    expect(isOk(status)).toBe(true);
+    if (isOk(status) && isOk(metrics) && isOk(breakdown)) {
+      expect(status.value.usage.tokens).toBe(metrics.value.totalTokensIn);
+      expect(status.value.usage.tokensByStory).toEqual({
+        'US-001': breakdown.value.stories[0]?.tokensIn,
+      });
+    }
+  });
+
+  it('refuses token events after a hard limit when configured', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(
+      createSessionStartEvent(id, {
+        tags: {
+          'budget.maxTokens': '1000',
+          'budget.refuseTokensAfterHardLimit': 'true',
+        },
+      })
+    );
+
+    const crossing = collector.emit(tokens(1500, id));
+    const refused = collector.emit(tokens(10, id));
+    const other = collector.emit(iterationStart(1, 'US-001', id));
+
+    expect(isOk(crossing)).toBe(true);
+    expect(isErr(refused)).toBe(true);
+    if (isErr(refused)) {
+      expect(refused.error.code).toBe('BUDGET_EXCEEDED');
+      expect(refused.error.details).toMatchObject({
+        metric: 'tokens',
+        level: 'hard',
+      });
+    }
+    expect(isOk(other)).toBe(true);
+
+    const status = collector.getBudgetStatus(id);
+    expect(isOk(status) && status.value.usage.tokens).toBe(1500);
+  });
+
+  it('sets a budget through setBudget and reports existing overruns', () => {
+    const collector = new EventCollector({ pricing });
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    collector.emit(tokens(1_000_000, id));
+
+    const result = collector.setBudget(id, { maxCost: { soft: 1, hard: 5 } });
+
+    expect(isOk(result) && result.value.budget).toEqual({
+      maxCost: { soft: 1, hard: 5 },
+    });
+    const status = collector.getBudgetStatus(id);
+    expect(isOk(status)).toBe(true);
+    if (isOk(status)) {
+      expect(status.value.usage.cost).toBe(3);
+      expect(status.value.breaches.map((b) => [b.metric, b.level])).toEqual([
+        ['cost', 'soft'],
+      ]);
+    }
+  });
+
+  it('validates budgets passed to setBudget', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+
+    const invalid = collector.setBudget(id, { maxTokens: { hard: -5 } });
+    const missing = collector.setBudget(createSessionId(), {});
+
+    expect(isErr(invalid) && invalid.error.code).toBe('INVALID_BUDGET');
+    expect(isErr(missing) && missing.error.code).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('reports usage without a budget', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    collector.emit(iterationStart(1, 'US-001', id));
+    collector.emit(tokens(250, id));
+
+    const status = collector.getBudgetStatus(id);
+
+    expect(isOk(status)).toBe(true);
+    if (isOk(status)) {
+      expect(status.value).toEqual({
+        budget: null,
+        usage: {
+          tokens: 250,
+          cost: 0,
+          iterations: 1,
+          tokensByStory: { 'US-001': 250 },
+        },
+        breaches: [],
+      });
+    }
+  });
+
+  it('tracks stories named after Object.prototype members', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    collector.emit(iterationStart(1, '__proto__', id));
+    collector.emit(tokens(40, id));
+
+    const status = collector.getBudgetStatus(id);
+
+    expect(isOk(status)).toBe(true);
+    if (isOk(status)) {
+      const { tokensByStory } = status.value.usage;
+      expect(Object.hasOwn(tokensByStory, '__proto__')).toBe(true);
+      expect(Object.getPrototypeOf(tokensByStory)).toBe(Object.prototype);
+    }
+  });
+});
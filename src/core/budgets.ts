@@ -0,0 +1,434 @@
+/**
+ * Session Budgets for RalphMeter
+ *
+ * Token, cost and iteration limits for a session, with soft limits that
+ * warn and hard limits that can refuse further token events.
+ */
+
+import { type Result, ok, err } from '../shared/result.js';
+import type { MeterEvent } from './events.js';
+import type { SessionMetrics } from './collector.js';
+import {
+  type ModelTokenUsage,
+  type PricingTable,
+  calculateCost,
+} from './pricing.js';
+import { calculateSessionMetrics } from './aggregates.js';
+import { type BreakdownState, buildBreakdownState } from './breakdown.js';
+import { setOwnEntry } from '../shared/records.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Soft and hard thresholds for one budget metric. A limit is breached
+ * when usage exceeds it.
+ */
+export interface BudgetLimit {
+  /** Usage above this is reported as a soft breach */
+  soft?: number;
+  /** Usage above this is reported as a hard breach */
+  hard?: number;
+}
+
+/**
+ * Budget attached to a session
+ */
+export interface SessionBudget {
+  /** Total tokens (in + out) */
+  maxTokens?: BudgetLimit;
+  /** Total USD cost, priced with the collector's pricing table */
+  maxCost?: BudgetLimit;
+  /** Iterations started */
+  maxIterations?: BudgetLimit;
+  /** Tokens (in + out) spent in iterations of any single story */
+  maxTokensPerStory?: BudgetLimit;
+  /**
+   * Reject tokens_in/tokens_out events once a hard limit is breached.
+   * A story hard limit only rejects tokens for that story.
+   */
+  refuseTokensAfterHardLimit?: boolean;
+}
+
+/**
+ * Budget metric that was breached
+ */
+export type BudgetMetric = 'tokens' | 'cost' | 'iterations' | 'storyTokens';
+
+/**
+ * Severity of a breached limit
+ */
+export type BudgetLevel = 'soft' | 'hard';
+
+/**
+ * Record of a budget limit being crossed
+ */
+export interface BudgetBreach {
+  /** The breached metric */
+  metric: BudgetMetric;
+  /** Whether the soft or hard limit was crossed */
+  level: BudgetLevel;
+  /** The limit that was crossed */
+  limit: number;
+  /** Usage when the limit was crossed */
+  value: number;
+  /** Story whose tokens crossed the limit (storyTokens only) */
+  storyId: string | null;
+  /** Timestamp of the event that crossed the limit */
+  timestamp: string;
+}
+
+/**
+ * Budget-relevant usage of a session
+ */
+export interface BudgetUsage {
+  /** Tokens (in + out) */
+  tokens: number;
+  /** Iterations started */
+  iterations: number;
+  /** Tokens (in + out) spent in iterations, by story ID */
+  tokensByStory: Record<string, number>;
+  /** Token usage by model, for pricing */
+  tokensByModel: Record<string, ModelTokenUsage>;
+  /** Story of the open iteration, or null if none */
+  openStoryId: string | null;
+}
+
+/**
+ * A session's budget, current usage and recorded breaches
+ */
+export interface BudgetStatus {
+  /** The session budget, or null if none is set */
+  budget: SessionBudget | null;
+  /** Current usage */
+  usage: {
+    tokens: number;
+    cost: number;
+    iterations: number;
+    tokensByStory: Record<string, number>;
+  };
+  /** Breaches in the order they occurred */
+  breaches: BudgetBreach[];
+}
+
+/**
+ * Error types for budget configuration
+ */
+export interface BudgetError {
+  code: 'INVALID_BUDGET';
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Prefix of session_start tags that configure the budget, e.g.
+ * `budget.maxTokens` (hard limit), `budget.maxTokens.soft` (soft limit)
+ * and `budget.refuseTokensAfterHardLimit` ("true" or "false")
+ */
+export const BUDGET_TAG_PREFIX = 'budget.';
+
+/**
+ * Budget fields that hold limits
+ */
+const LIMIT_FIELDS = [
+  'maxTokens',
+  'maxCost',
+  'maxIterations',
+  'maxTokensPerStory',
+] as const;
+
+type LimitField = (typeof LIMIT_FIELDS)[number];
+
+// ============================================================================
+// Budget Configuration
+// ============================================================================
+
+/**
+ * Checks that every limit is a non-negative number and that soft limits
+ * do not exceed hard limits. Given a pricing table, a cost limit also
+ * needs the table to price at least one model, or it could never trip.
+ *
+ * @param budget - The budget to check
+ * @param pricing - Pricing table cost limits are priced with
+ * @returns Result with the budget or an error describing the first problem
+ */
+export function validateBudget(
+  budget: SessionBudget,
+  pricing?: PricingTable
+): Result<SessionBudget, BudgetError> {
+  if (
+    budget.maxCost !== undefined &&
+    pricing !== undefined &&
+    Object.keys(pricing.models).length === 0 &&
+    pricing.fallback === undefined
+  ) {
+    return err({
+      code: 'INVALID_BUDGET',
+      message:
+        'Cost limits need a pricing table with at least one model or a fallback price',
+    });
+  }
+  for (const field of LIMIT_FIELDS) {
+    const limit = budget[field];
+    if (limit === undefined) {
+      continue;
+    }
+    for (const level of ['soft', 'hard'] as const) {
+      const value = limit[level];
+      if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+        return err({
+          code: 'INVALID_BUDGET',
+          message: `Invalid ${level} limit for ${field}: ${String(value)}. Must be a non-negative number.`,
+        });
+      }
+    }
+    if (
+      limit.soft !== undefined &&
+      limit.hard !== undefined &&
+      limit.soft > limit.hard
+    ) {
+      return err({
+        code: 'INVALID_BUDGET',
+        message: `Soft limit for ${field} (${String(limit.soft)}) exceeds its hard limit (${String(limit.hard)})`,
+      });
+    }
+  }
+  return ok(budget);
+}
+
+/**
+ * Reads a budget from session_start tags. `budget.<field>` sets the hard
+ * limit and `budget.<field>.soft` the soft limit.
+ *
+ * @param tags - Session tags
+ * @param pricing - Pricing table cost limits are priced with (see
+ *   validateBudget())
+ * @returns Result with the budget (null if no budget tags are present)
+ *   or an error for unknown keys and invalid values
+ */
+export function parseBudgetTags(
+  tags: Record<string, string> | undefined,
+  pricing?: PricingTable
+): Result<SessionBudget | null, BudgetError> {
+  const budget: SessionBudget = {};
+  let found = false;
+
+  for (const [key, raw] of Object.entries(tags ?? {})) {
+    if (!key.startsWith(BUDGET_TAG_PREFIX)) {
+      continue;
+    }
+    found = true;
+    const name = key.slice(BUDGET_TAG_PREFIX.length);
+
+    if (name === 'refuseTokensAfterHardLimit') {
+      if (raw !== 'true' && raw !== 'false') {
+        return err({
+          code: 'INVALID_BUDGET',
+          message: `Invalid value for tag ${key}: ${raw}. Must be "true" or "false".`,
+        });
+      }
+      budget.refuseTokensAfterHardLimit = raw === 'true';
+      continue;
+    }
+
+    const [field, level = 'hard', ...rest] = name.split('.');
+    if (
+      field === undefined ||
+      !isLimitField(field) ||
+      (level !== 'soft' && level !== 'hard') ||
+      rest.length > 0
+    ) {
+      return err({
+        code: 'INVALID_BUDGET',
+        message: `Unknown budget tag: ${key}`,
+      });
+    }
+    const value = raw.trim() === '' ? Number.NaN : Number(raw);
+    budget[field] = { ...budget[field], [level]: value };
+  }
+
+  if (!found) {
+    return ok(null);
+  }
+  return validateBudget(budget, pricing);
+}
+
+// ============================================================================
+// Budget Usage
+// ============================================================================
+
+/**
+ * Derives budget usage from a session's running metrics and breakdown,
+ * so budgets count the same tokens as getMetrics() and getBreakdown()
+ *
+ * @param metrics - The session's metrics
+ * @param breakdown - The session's breakdown state
+ * @returns The budget usage (sharing objects with the metrics)
+ */
+export function deriveBudgetUsage(
+  metrics: SessionMetrics,
+  breakdown: BreakdownState
+): BudgetUsage {
+  const tokensByStory: Record<string, number> = {};
+  for (const [storyId, story] of breakdown.stories) {
+    if (story.tokensIn + story.tokensOut > 0) {
+      setOwnEntry(tokensByStory, storyId, story.tokensIn + story.tokensOut);
+    }
+  }
+  return {
+    tokens: metrics.totalTokensIn + metrics.totalTokensOut,
+    iterations: breakdown.iterations.length,
+    tokensByStory,
+    tokensByModel: metrics.tokensByModel,
+    openStoryId: breakdown.open?.storyId ?? null,
+  };
+}
+
+/**
+ * Builds budget usage with a full scan of the events
+ *
+ * @param events - All events in a session
+ * @returns The budget usage
+ */
+export function buildBudgetUsage(events: MeterEvent[]): BudgetUsage {
+  return deriveBudgetUsage(
+    calculateSessionMetrics(events),
+    buildBreakdownState(events)
+  );
+}
+
+// ============================================================================
+// Budget Checks
+// ============================================================================
+
+/**
+ * Finds limits crossed by the current usage that have not been recorded
+ * yet. Each limit breaches once per session (once per story for
+ * maxTokensPerStory); changing a limit lets it breach again.
+ *
+ * @param budget - The session budget
+ * @param usage - Current usage
+ * @param pricing - Pricing table for cost limits
+ * @param recorded - Breaches already recorded on the session
+ * @param timestamp - Timestamp to stamp new breaches with
+ * @returns New breaches, soft before hard
+ */
+export function findBudgetBreaches(
+  budget: SessionBudget,
+  usage: BudgetUsage,
+  pricing: PricingTable,
+  recorded: BudgetBreach[],
+  timestamp: string
+): BudgetBreach[] {
+  const breaches: BudgetBreach[] = [];
+  const check = (
+    metric: BudgetMetric,
+    limit: BudgetLimit | undefined,
+    value: number,
+    storyId: string | null
+  ): void => {
+    for (const level of ['soft', 'hard'] as const) {
+      const threshold = limit?.[level];
+      if (
+        threshold !== undefined &&
+        value > threshold &&
+        !recorded.some(
+          (b) =>
+            b.metric === metric &&
+            b.level === level &&
+            b.limit === threshold &&
+            b.storyId === storyId
+        )
+      ) {
+        breaches.push({
+          metric,
+          level,
+          limit: threshold,
+          value,
+          storyId,
+          timestamp,
+        });
+      }
+    }
+  };
+
+  check('tokens', budget.maxTokens, usage.tokens, null);
+  if (budget.maxCost !== undefined) {
+    check('cost', budget.maxCost, budgetCost(usage, pricing), null);
+  }
+  check('iterations', budget.maxIterations, usage.iterations, null);
+  for (const [storyId, tokens] of Object.entries(usage.tokensByStory)) {
+    check('storyTokens', budget.maxTokensPerStory, tokens, storyId);
+  }
+  return breaches;
+}
+
+/**
+ * Finds the exceeded hard limit that refuses a token event, if the
+ * budget refuses tokens after a hard limit. Story limits only refuse
+ * tokens while that story's iteration is open.
+ *
+ * @param budget - The session budget
+ * @param usage - Current usage (before the event)
+ * @param pricing - Pricing table for cost limits
+ * @param event - The incoming event
+ * @returns The exceeded hard limit, or undefined if the event is allowed
+ */
+export function findBlockingBreach(
+  budget: SessionBudget,
+  usage: BudgetUsage,
+  pricing: PricingTable,
+  event: MeterEvent
+): BudgetBreach | undefined {
+  if (
+    budget.refuseTokensAfterHardLimit !== true ||
+    (event.eventType !== 'tokens_in' && event.eventType !== 'tokens_out')
+  ) {
+    return undefined;
+  }
+  return findBudgetBreaches(budget, usage, pricing, [], event.timestamp).find(
+    (b) =>
+      b.level === 'hard' &&
+      (b.storyId === null || b.storyId === usage.openStoryId)
+  );
+}
+
+/**
+ * Calculates the USD cost of budget usage
+ *
+ * @param usage - Budget usage
+ * @param pricing - Pricing table to apply
+ * @returns Cost in USD
+ */
+export function budgetCost(usage: BudgetUsage, pricing: PricingTable): number {
+  return calculateCost(usage.tokensByModel, pricing).totalCost;
+}
+
+/**
+ * Describes a breach in one line
+ *
+ * @param breach - The budget breach
+ * @returns Human-readable summary
+ */
+export function describeBudgetBreach(breach: BudgetBreach): string {
+  const what =
+    breach.metric === 'storyTokens'
+      ? `tokens for story ${String(breach.storyId)}`
+      : breach.metric;
+  return `Exceeded ${breach.level} ${what} limit: ${String(breach.value)} > ${String(breach.limit)}`;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Checks whether a tag name is a budget field that holds limits
+ */
+function isLimitField(name: string): name is LimitField {
+  return (LIMIT_FIELDS as readonly string[]).includes(name);
+}
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { EventCollector } from './collector.js';
 import { createSessionId } from './events.js';
 import { isOk, isErr } from '../shared/result.js';
+import { fixedClock } from '../shared/clock.js';
 
 // ============================================================================
 // Test Fixtures
@@ -25,6 +26,18 @@ function createSessionStartEvent(
   };
 }
 
+function createChildSessionStartEvent(
+  sessionId: string,
+  parentSessionId: string
+): Record<string, unknown> {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'session_start',
+    payload: { parentSessionId },
+  };
+}
+
 function createSessionEndEvent(
   sessionId: string,
   success: boolean,
@@ -133,6 +146,35 @@ function createStoryCompleteEvent(
   };
 }
 
+function createToolCallEvent(
+  sessionId: string,
+  toolName: string,
+  success: boolean,
+  durationMs: number
+): Record<string, unknown> {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'tool_call',
+    payload: { toolName, durationMs, success },
+  };
+}
+
+function createFileChangeEvent(
+  sessionId: string,
+  filePath: string,
+  storyId: string,
+  linesAdded: number,
+  linesDeleted: number
+): Record<string, unknown> {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'file_change',
+    payload: { filePath, storyId, linesAdded, linesDeleted },
+  };
+}
+
 // ============================================================================
 // EventCollector Tests
 // ============================================================================
@@ -352,6 +394,216 @@ describe('EventCollector', () => {
     });
   });
 
+  // ==========================================================================
+  // Event Ordering Tests
+  // ==========================================================================
+
+  describe('emit - event ordering', () => {
+    it('rejects out-of-order events in strict mode', () => {
+      collector = new EventCollector({ ordering: 'strict' });
+      collector.emit(createSessionStartEvent(sessionId));
+
+      const result = collector.emit(
+        createIterationEndEvent(sessionId, 1, 'US-001', true)
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('INVALID_EVENT_ORDER');
+        expect(result.error.message).toContain('iteration_end 1');
+      }
+
+      const sessionResult = collector.getSession(sessionId);
+      if (isOk(sessionResult)) {
+        expect(sessionResult.value.events).toHaveLength(1);
+      }
+    });
+
+    it('rejects backwards iteration numbers in strict mode', () => {
+      collector = new EventCollector({ ordering: 'strict' });
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createIterationStartEvent(sessionId, 2, 'US-001'));
+      collector.emit(createIterationEndEvent(sessionId, 2, 'US-001', true));
+
+      const result = collector.emit(
+        createIterationStartEvent(sessionId, 1, 'US-001')
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('INVALID_EVENT_ORDER');
+      }
+    });
+
+    it('rejects story_complete during an open iteration in strict mode', () => {
+      collector = new EventCollector({ ordering: 'strict' });
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createIterationStartEvent(sessionId, 1, 'US-001'));
+
+      const result = collector.emit(
+        createStoryCompleteEvent(sessionId, 'US-001', true)
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('INVALID_EVENT_ORDER');
+      }
+    });
+
+    it('accepts out-of-order events with a warning in lenient mode', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+
+      const result = collector.emit(
+        createIterationEndEvent(sessionId, 1, 'US-001', true)
+      );
+
+      expect(isOk(result)).toBe(true);
+
+      const sessionResult = collector.getSession(sessionId);
+      expect(isOk(sessionResult)).toBe(true);
+      if (isOk(sessionResult)) {
+        expect(sessionResult.value.events).toHaveLength(2);
+        const warnings = sessionResult.value.metadata.warnings ?? [];
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]?.code).toBe('INVALID_EVENT_ORDER');
+        expect(warnings[0]?.timestamp).toBe(validTimestamp);
+      }
+    });
+
+    it('records no warnings for a valid sequence', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createIterationStartEvent(sessionId, 1, 'US-001'));
+      collector.emit(createIterationEndEvent(sessionId, 1, 'US-001', true));
+      collector.emit(createStoryCompleteEvent(sessionId, 'US-001', true));
+
+      const sessionResult = collector.getSession(sessionId);
+      if (isOk(sessionResult)) {
+        expect(sessionResult.value.metadata.warnings).toBeUndefined();
+      }
+    });
+  });
+
+  // ==========================================================================
+  // Inactivity Timeout Tests
+  // ==========================================================================
+
+  describe('abandonStaleSessions', () => {
+    const lastEventTimestamp = '2026-01-30T12:10:00.000Z';
+    const lastEventTime = Date.parse(lastEventTimestamp);
+
+    beforeEach(() => {
+      collector = new EventCollector({ inactivityTimeoutMs: 60_000 });
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 100),
+        timestamp: lastEventTimestamp,
+      });
+    });
+
+    it('abandons sessions idle longer than the timeout', () => {
+      const abandoned = collector.abandonStaleSessions(lastEventTime + 60_000);
+
+      expect(abandoned.map((m) => m.id)).toEqual([sessionId]);
+
+      const sessionResult = collector.getSession(sessionId);
+      expect(isOk(sessionResult)).toBe(true);
+      if (isOk(sessionResult)) {
+        expect(sessionResult.value.metadata.status).toBe('abandoned');
+        expect(sessionResult.value.metadata.endedAt).toBe(lastEventTimestamp);
+      }
+    });
+
+    it('keeps sessions within the timeout active', () => {
+      const abandoned = collector.abandonStaleSessions(lastEventTime + 59_999);
+
+      expect(abandoned).toHaveLength(0);
+    });
+
+    it('ignores sessions that already ended', () => {
+      collector.emit({
+        ...createSessionEndEvent(sessionId, true),
+        timestamp: lastEventTimestamp,
+      });
+
+      expect(collector.abandonStaleSessions(lastEventTime + 600_000)).toEqual(
+        []
+      );
+    });
+
+    it('uses the injected clock when no time is given', () => {
+      collector = new EventCollector({
+        inactivityTimeoutMs: 60_000,
+        clock: fixedClock(lastEventTime + 60_000),
+      });
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 100),
+        timestamp: lastEventTimestamp,
+      });
+
+      expect(collector.abandonStaleSessions().map((m) => m.id)).toEqual([
+        sessionId,
+      ]);
+    });
+
+    it('does nothing without a configured timeout', () => {
+      collector = new EventCollector();
+      collector.emit(createSessionStartEvent(sessionId));
+
+      expect(collector.abandonStaleSessions(Date.now())).toEqual([]);
+    });
+
+    it('rejects new events for abandoned sessions', () => {
+      collector.abandonStaleSessions(lastEventTime + 60_000);
+      const result = collector.emit(createTokensInEvent(sessionId, 1));
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('SESSION_NOT_ACTIVE');
+      }
+    });
+  });
+
+  describe('reopenSession', () => {
+    beforeEach(() => {
+      collector = new EventCollector({ inactivityTimeoutMs: 1000 });
+      collector.emit(createSessionStartEvent(sessionId));
+    });
+
+    it('reopens an abandoned session for further events', () => {
+      collector.abandonStaleSessions(Date.parse(validTimestamp) + 1000);
+
+      const result = collector.reopenSession(sessionId);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.status).toBe('active');
+        expect(result.value.endedAt).toBeUndefined();
+      }
+
+      expect(isOk(collector.emit(createTokensInEvent(sessionId, 5)))).toBe(
+        true
+      );
+    });
+
+    it('rejects reopening a session that is not abandoned', () => {
+      const result = collector.reopenSession(sessionId);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('SESSION_NOT_ABANDONED');
+      }
+    });
+
+    it('returns error for non-existent session', () => {
+      const result = collector.reopenSession(createSessionId());
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('SESSION_NOT_FOUND');
+      }
+    });
+  });
+
   // ==========================================================================
   // Validation Tests
   // ==========================================================================
@@ -398,6 +650,214 @@ describe('EventCollector', () => {
     });
   });
 
+  // ==========================================================================
+  // Idempotency Tests
+  // ==========================================================================
+
+  describe('emit - event IDs', () => {
+    beforeEach(() => {
+      collector.emit({
+        ...createSessionStartEvent(sessionId),
+        eventId: 'start',
+      });
+    });
+
+    it('returns the stored event for a retried event ID', () => {
+      const first = collector.emit({
+        ...createTokensInEvent(sessionId, 100),
+        eventId: 'evt-1',
+      });
+      const retry = collector.emit({
+        ...createTokensInEvent(sessionId, 100),
+        eventId: 'evt-1',
+        timestamp: '2026-01-30T12:00:05.000Z',
+      });
+
+      expect(isOk(first)).toBe(true);
+      expect(isOk(retry)).toBe(true);
+      if (isOk(first) && isOk(retry)) {
+        expect(retry.value).toBe(first.value);
+        expect(retry.value.timestamp).toBe(validTimestamp);
+      }
+
+      const session = collector.getSession(sessionId);
+      expect(isOk(session) && session.value.events.length).toBe(2);
+
+      const metrics = collector.getMetrics(sessionId);
+      expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(100);
+    });
+
+    it('does not notify subscribers of duplicates', () => {
+      const received: string[] = [];
+      collector.subscribe((event) => received.push(event.eventType));
+
+      collector.emit({ ...createTokensInEvent(sessionId, 100), eventId: 'a' });
+      collector.emit({ ...createTokensInEvent(sessionId, 100), eventId: 'a' });
+
+      expect(received).toEqual(['tokens_in']);
+    });
+
+    it('rejects a different payload under a used event ID', () => {
+      collector.emit({ ...createTokensInEvent(sessionId, 100), eventId: 'a' });
+
+      const result = collector.emit({
+        ...createTokensInEvent(sessionId, 200),
+        eventId: 'a',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('DUPLICATE_EVENT_ID');
+      }
+    });
+
+    it('rejects a different event type under a used event ID', () => {
+      collector.emit({ ...createTokensInEvent(sessionId, 100), eventId: 'a' });
+
+      const result = collector.emit({
+        ...createTokensOutEvent(sessionId, 100),
+        eventId: 'a',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('DUPLICATE_EVENT_ID');
+      }
+    });
+
+    it('deduplicates retried session_start and session_end events', () => {
+      const start = collector.emit({
+        ...createSessionStartEvent(sessionId),
+        eventId: 'start',
+      });
+      collector.emit({
+        ...createSessionEndEvent(sessionId, true),
+        eventId: 'end',
+      });
+      const end = collector.emit({
+        ...createSessionEndEvent(sessionId, true),
+        eventId: 'end',
+      });
+
+      expect(isOk(start)).toBe(true);
+      expect(isOk(end)).toBe(true);
+    });
+
+    it('scopes event IDs to their session', () => {
+      const otherSessionId = createSessionId();
+      collector.emit(createSessionStartEvent(otherSessionId));
+      collector.emit({ ...createTokensInEvent(sessionId, 100), eventId: 'a' });
+
+      const result = collector.emit({
+        ...createTokensInEvent(otherSessionId, 100),
+        eventId: 'a',
+      });
+
+      expect(isOk(result)).toBe(true);
+      const metrics = collector.getMetrics(otherSessionId);
+      expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(100);
+    });
+
+    it('appends events without an ID every time', () => {
+      collector.emit(createTokensInEvent(sessionId, 100));
+      collector.emit(createTokensInEvent(sessionId, 100));
+
+      const metrics = collector.getMetrics(sessionId);
+      expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(200);
+    });
+  });
+
+  // ==========================================================================
+  // Session Hierarchy Tests
+  // ==========================================================================
+
+  describe('session hierarchy', () => {
+    let childId: string;
+    let grandchildId: string;
+
+    beforeEach(() => {
+      childId = createSessionId();
+      grandchildId = createSessionId();
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createChildSessionStartEvent(childId, sessionId));
+      collector.emit(createChildSessionStartEvent(grandchildId, childId));
+    });
+
+    it('records the parent session in metadata', () => {
+      const result = collector.getSessionMetadata(childId);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.parentSessionId).toBe(sessionId);
+      }
+    });
+
+    it('rejects a parent session that does not exist', () => {
+      const result = collector.emit(
+        createChildSessionStartEvent(createSessionId(), createSessionId())
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('PARENT_SESSION_NOT_FOUND');
+      }
+    });
+
+    it('lists child sessions', () => {
+      const secondChildId = createSessionId();
+      collector.emit(createChildSessionStartEvent(secondChildId, sessionId));
+
+      const result = collector.getChildSessionIds(sessionId);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([childId, secondChildId]);
+      }
+      expect(isErr(collector.getChildSessionIds(createSessionId()))).toBe(
+        true
+      );
+    });
+
+    it('builds the session tree', () => {
+      const result = collector.getSessionTree(sessionId);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.metadata.id).toBe(sessionId);
+        expect(result.value.children.map((c) => c.metadata.id)).toEqual([
+          childId,
+        ]);
+        expect(
+          result.value.children[0]?.children.map((c) => c.metadata.id)
+        ).toEqual([grandchildId]);
+      }
+    });
+
+    it('rolls descendant metrics up into the parent', () => {
+      collector.emit(createTokensInEvent(sessionId, 100, 'model-a'));
+      collector.emit(createIterationEndEvent(sessionId, 1, 'US-001', true));
+      collector.emit(createTokensInEvent(childId, 200, 'model-b'));
+      collector.emit(createIterationEndEvent(childId, 1, 'US-002', true));
+      collector.emit(createTokensInEvent(grandchildId, 300, 'model-a'));
+      collector.emit(createTokensOutEvent(grandchildId, 50));
+
+      const rollup = collector.getRollupMetrics(sessionId);
+      const own = collector.getMetrics(sessionId);
+      const child = collector.getRollupMetrics(childId);
+
+      expect(isOk(rollup)).toBe(true);
+      if (isOk(rollup)) {
+        expect(rollup.value.totalTokensIn).toBe(600);
+        expect(rollup.value.totalTokensOut).toBe(50);
+        expect(rollup.value.totalIterations).toBe(2);
+        expect(rollup.value.tokensByModel['model-a']?.tokensIn).toBe(400);
+        expect(rollup.value.tokensByModel['model-b']?.tokensIn).toBe(200);
+      }
+      expect(isOk(own) && own.value.totalTokensIn).toBe(100);
+      expect(isOk(child) && child.value.totalTokensIn).toBe(500);
+    });
+  });
+
   // ==========================================================================
   // Session Query Tests
   // ==========================================================================
@@ -521,6 +981,40 @@ describe('EventCollector', () => {
       }
     });
 
+    it('breaks token usage down by model', () => {
+      collector.emit(createTokensInEvent(sessionId, 1000, 'model-large'));
+      collector.emit(createTokensOutEvent(sessionId, 200, 'model-large'));
+      collector.emit(createTokensInEvent(sessionId, 300, 'model-small'));
+      collector.emit(createTokensOutEvent(sessionId, 50));
+
+      const result = collector.getMetrics(sessionId);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.tokensByModel).toEqual({
+          'model-large': {
+            tokensIn: 1000,
+            tokensOut: 200,
+            cacheReadTokens: 0,
+            cacheCreationTokens: 0,
+          },
+          'model-small': {
+            tokensIn: 300,
+            tokensOut: 0,
+            cacheReadTokens: 0,
+            cacheCreationTokens: 0,
+          },
+          unknown: {
+            tokensIn: 0,
+            tokensOut: 50,
+            cacheReadTokens: 0,
+            cacheCreationTokens: 0,
+          },
+        });
+        expect(result.value.totalTokensIn).toBe(1300);
+        expect(result.value.totalTokensOut).toBe(250);
+      }
+    });
+
     it('counts compilationAttempts and compilationSuccesses', () => {
       collector.emit(createCompilationResultEvent(sessionId, true));
       collector.emit(createCompilationResultEvent(sessionId, false, 5));
@@ -563,6 +1057,52 @@ describe('EventCollector', () => {
       }
     });
 
+    it('counts tool calls per tool with failure rates', () => {
+      collector.emit(createToolCallEvent(sessionId, 'Read', true, 5));
+      collector.emit(createToolCallEvent(sessionId, 'Bash', false, 1200));
+      collector.emit(createToolCallEvent(sessionId, 'Bash', true, 800));
+      collector.emit(createToolCallEvent(sessionId, 'Bash', true, 400));
+
+      const result = collector.getMetrics(sessionId);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalToolCalls).toBe(4);
+        expect(result.value.toolCallFailures).toBe(1);
+        expect(result.value.toolCalls['Read']).toEqual({
+          calls: 1,
+          failures: 0,
+          failureRate: 0,
+          totalDurationMs: 5,
+        });
+        expect(result.value.toolCalls['Bash']?.calls).toBe(3);
+        expect(result.value.toolCalls['Bash']?.failureRate).toBeCloseTo(1 / 3);
+        expect(result.value.toolCalls['Bash']?.totalDurationMs).toBe(2400);
+      }
+    });
+
+    it('aggregates file changes per story and per file', () => {
+      collector.emit(createFileChangeEvent(sessionId, 'a.ts', 'US-001', 50, 0));
+      collector.emit(createFileChangeEvent(sessionId, 'b.ts', 'US-001', 20, 5));
+      collector.emit(createFileChangeEvent(sessionId, 'a.ts', 'US-002', 3, 30));
+
+      const result = collector.getMetrics(sessionId);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalLinesAdded).toBe(73);
+        expect(result.value.totalLinesDeleted).toBe(35);
+        expect(result.value.linesByStory).toEqual({
+          'US-001': { changes: 2, linesAdded: 70, linesDeleted: 5, netDelta: 65 },
+          'US-002': { changes: 1, linesAdded: 3, linesDeleted: 30, netDelta: -27 },
+        });
+        expect(result.value.linesByFile['a.ts']).toEqual({
+          changes: 2,
+          linesAdded: 53,
+          linesDeleted: 30,
+          netDelta: 23,
+        });
+      }
+    });
+
     it('calculates comprehensive metrics from mixed events', () => {
       // Simulate a full session
       collector.emit(createIterationStartEvent(sessionId, 1, 'US-001'));
@@ -599,6 +1139,81 @@ describe('EventCollector', () => {
     });
   });
 
+  describe('point-in-time reconstruction', () => {
+    beforeEach(() => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 1000),
+        timestamp: '2026-01-30T12:01:00.000Z',
+      });
+      collector.emit({
+        ...createTokensInEvent(sessionId, 2000),
+        timestamp: '2026-01-30T12:02:00.000Z',
+      });
+      collector.emit({
+        ...createSessionEndEvent(sessionId, true),
+        timestamp: '2026-01-30T12:03:00.000Z',
+      });
+    });
+
+    it('rebuilds metrics as of an event index', () => {
+      const result = collector.getMetricsAsOf(sessionId, { eventIndex: 1 });
+
+      expect(isOk(result) && result.value.totalTokensIn).toBe(1000);
+    });
+
+    it('rebuilds metrics as of a timestamp', () => {
+      const before = collector.getMetricsAsOf(sessionId, {
+        timestamp: '2026-01-30T12:01:59.000Z',
+      });
+      const after = collector.getMetricsAsOf(sessionId, {
+        timestamp: '2026-01-30T12:02:00.000Z',
+      });
+
+      expect(isOk(before) && before.value.totalTokensIn).toBe(1000);
+      expect(isOk(after) && after.value.totalTokensIn).toBe(3000);
+    });
+
+    it('shows the session as active before its session_end', () => {
+      const result = collector.getSessionAsOf(sessionId, { eventIndex: 2 });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.events).toHaveLength(3);
+        expect(result.value.metadata.status).toBe('active');
+        expect(result.value.metadata.endedAt).toBeUndefined();
+        expect(result.value.metadata.success).toBeUndefined();
+      }
+    });
+
+    it('returns the whole session when the point is past the end', () => {
+      const result = collector.getSessionAsOf(sessionId, { eventIndex: 99 });
+
+      expect(result).toEqual(collector.getSession(sessionId));
+    });
+
+    it('returns error before the session started', () => {
+      const result = collector.getSessionAsOf(sessionId, {
+        timestamp: '2026-01-30T11:59:59.000Z',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('SESSION_NOT_FOUND');
+      }
+    });
+
+    it('rejects invalid points', () => {
+      const index = collector.getMetricsAsOf(sessionId, { eventIndex: -1 });
+      const timestamp = collector.getMetricsAsOf(sessionId, {
+        timestamp: 'yesterday',
+      });
+
+      expect(isErr(index) && index.error.code).toBe('INVALID_AS_OF');
+      expect(isErr(timestamp) && timestamp.error.code).toBe('INVALID_AS_OF');
+    });
+  });
+
   // ==========================================================================
   // Event Storage Tests
   // ==========================================================================
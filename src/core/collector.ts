@@ -1,17 +1,126 @@
 /**
  * Event Collector for RalphMeter
  *
- * Receives, validates, and stores events in memory.
- * Calculates basic session metrics.
+ * Receives, validates, and stores events in a pluggable session store
+ * (in memory by default). Maintains running session metrics.
  */
 
+import { isDeepStrictEqual } from 'node:util';
 import { type Result, ok, err } from '../shared/result.js';
+import { type Clock, systemClock } from '../shared/clock.js';
 import {
   type MeterEvent,
   type SessionStartEvent,
   type SessionEndEvent,
   safeValidateEvent,
 } from './events.js';
+import { type SessionStore, InMemorySessionStore } from './store.js';
+import {
+  type ModelTokenUsage,
+  type PricingTable,
+  DEFAULT_PRICING,
+} from './pricing.js';
+import {
+  type OrderingMode,
+  type OrderState,
+  checkEventOrder,
+  applyEventOrder,
+  buildOrderState,
+} from './ordering.js';
+import {
+  type EventFilter,
+  type EventListener,
+  type ListenerErrorHandler,
+  type Unsubscribe,
+  EventBus,
+} from './subscriptions.js';
+import {
+  type SessionQuery,
+  type SessionPage,
+  querySessionMetadata,
+  toMetadataFilter,
+} from './query.js';
+import {
+  createSessionMetrics,
+  applyEventToMetrics,
+  calculateSessionMetrics,
+  mergeSessionMetrics,
+} from './aggregates.js';
+import {
+  type TestHistoryReport,
+  type TestHistoryState,
+  applyEventToTestHistory,
+  buildTestHistory,
+  summarizeTestHistory,
+} from './test-history.js';
+import {
+  type DiagnosticCluster,
+  type DiagnosticClusterOptions,
+  type DiagnosticState,
+  applyEventToDiagnostics,
+  summarizeDiagnostics,
+} from './diagnostics.js';
+import {
+  type SessionBreakdown,
+  type BreakdownState,
+  applyEventToBreakdown,
+  createBreakdownState,
+  summarizeBreakdown,
+} from './breakdown.js';
+import {
+  DEFAULT_CLOCK_SKEW_TOLERANCE_MS,
+  findInsertionIndex,
+  findClockSkew,
+  clampEndedAt,
+  describeClockSkew,
+} from './timeline.js';
+import {
+  type StuckDetectionOptions,
+  type StuckState,
+  applyEventToStuckState,
+  buildStuckState,
+  describeStuckLoop,
+} from './stuck-detection.js';
+import {
+  type SessionBudget,
+  type BudgetBreach,
+  type BudgetStatus,
+  type BudgetUsage,
+  parseBudgetTags,
+  validateBudget,
+  deriveBudgetUsage,
+  findBudgetBreaches,
+  findBlockingBreach,
+  budgetCost,
+  describeBudgetBreach,
+} from './budgets.js';
+import type { EventLogSink } from './event-log.js';
+import {
+  type CollectorSnapshot,
+  type SnapshotImportOptions,
+  type SnapshotImportReport,
+  createSnapshot,
+  parseSnapshot,
+  mergeSessions,
+} from './snapshot.js';
+import {
+  type RetentionPolicy,
+  type SessionEviction,
+  type EvictionListener,
+  type CompactedHistory,
+  compactEvents,
+  calculateRetainedMetrics,
+  buildRetainedBreakdownState,
+  buildRetainedDiagnosticState,
+  selectEvictions,
+} from './retention.js';
+import {
+  type Project,
+  type ProjectRollup,
+  validateProject,
+  isProjectRoot,
+  buildProjectRollup,
+} from './projects.js';
 
 // ============================================================================
 // Types
@@ -20,7 +129,35 @@ import {
 /**
  * Status of a metering session
  */
-export type SessionStatus = 'active' | 'completed' | 'failed';
+export type SessionStatus = 'active' | 'completed' | 'failed' | 'abandoned';
+
+/**
+ * A warning recorded on a session for an accepted but suspicious event
+ * - INVALID_EVENT_ORDER: out-of-order event accepted in lenient mode
+ * - STUCK_LOOP: a story's iterations are repeating without progress
+ * - BUDGET_EXCEEDED: a soft or hard budget limit was crossed
+ *   (details hold the BudgetBreach)
+ * - CLOCK_SKEW: an event's timestamp falls outside the session's time
+ *   range by more than the skew tolerance (details hold the ClockSkew)
+ */
+export interface SessionWarning {
+  /** Warning code */
+  code: 'INVALID_EVENT_ORDER' | 'STUCK_LOOP' | 'BUDGET_EXCEEDED' | 'CLOCK_SKEW';
+  /** Human-readable description */
+  message: string;
+  /** Timestamp of the event that triggered the warning */
+  timestamp: string;
+  /** Additional details */
+  details?: unknown;
+}
+
+/**
+ * Callback invoked when a warning is recorded on a session
+ */
+export type WarningListener = (
+  sessionId: string,
+  warning: SessionWarning
+) => void;
 
 /**
  * Metadata about a session
@@ -38,6 +175,16 @@ export interface SessionMetadata {
   success?: boolean;
   /** Optional tags from session_start event */
   tags?: Record<string, string>;
+  /** Parent session, for sessions spawned by another session */
+  parentSessionId?: string;
+  /** Project from session_start, or inherited from the parent session */
+  projectId?: string;
+  /** Budget from session_start tags or setBudget() */
+  budget?: SessionBudget;
+  /** Warnings recorded in lenient mode */
+  warnings?: SessionWarning[];
+  /** Events removed by the retention policy, as aggregated metrics */
+  compacted?: CompactedHistory;
 }
 
 /**
@@ -50,6 +197,51 @@ export interface Session {
   events: MeterEvent[];
 }
 
+/**
+ * A session and its descendant sessions
+ */
+export interface SessionTreeNode {
+  /** Session metadata */
+  metadata: SessionMetadata;
+  /** Child sessions in creation order */
+  children: SessionTreeNode[];
+}
+
+/**
+ * A point in a session's history: right after the event at an index in
+ * the stored event list, or at a timestamp (events with later timestamps
+ * are excluded)
+ */
+export type AsOfPoint = { eventIndex: number } | { timestamp: string };
+
+/**
+ * Usage statistics for a single tool
+ */
+export interface ToolCallStats {
+  /** Number of calls */
+  calls: number;
+  /** Number of failed calls */
+  failures: number;
+  /** Failed calls / total calls (0 if no calls) */
+  failureRate: number;
+  /** Total time spent in the tool in milliseconds */
+  totalDurationMs: number;
+}
+
+/**
+ * Line churn aggregated over file_change events
+ */
+export interface LineChangeStats {
+  /** Number of file_change events */
+  changes: number;
+  /** Lines added */
+  linesAdded: number;
+  /** Lines deleted */
+  linesDeleted: number;
+  /** linesAdded - linesDeleted */
+  netDelta: number;
+}
+
 /**
  * Basic metrics calculated from session events
  */
@@ -60,6 +252,12 @@ export interface SessionMetrics {
   totalTokensIn: number;
   /** Total output tokens generated */
   totalTokensOut: number;
+  /** Input tokens served from the prompt cache (subset of totalTokensIn) */
+  totalCacheReadTokens: number;
+  /** Input tokens written to the prompt cache (subset of totalTokensIn) */
+  totalCacheCreationTokens: number;
+  /** Token usage by model ('unknown' for events without a model) */
+  tokensByModel: Record<string, ModelTokenUsage>;
   /** Number of compilation attempts */
   compilationAttempts: number;
   /** Number of successful compilations */
@@ -72,6 +270,22 @@ export interface SessionMetrics {
   storiesCompleted: number;
   /** Stories that passed all gates */
   storiesPassed: number;
+  /** Total tool calls */
+  totalToolCalls: number;
+  /** Total failed tool calls */
+  toolCallFailures: number;
+  /** Tool call statistics by tool name */
+  toolCalls: Record<string, ToolCallStats>;
+  /** Total lines added across file_change events */
+  totalLinesAdded: number;
+  /** Total lines deleted across file_change events */
+  totalLinesDeleted: number;
+  /** Line churn by story ID */
+  linesByStory: Record<string, LineChangeStats>;
+  /** Line churn by file path */
+  linesByFile: Record<string, LineChangeStats>;
+  /** Number of custom events by event type */
+  customEventCounts: Record<string, number>;
 }
 
 /**
@@ -81,32 +295,197 @@ export interface CollectorError {
   code:
     | 'SESSION_NOT_FOUND'
     | 'SESSION_ALREADY_EXISTS'
+    | 'PARENT_SESSION_NOT_FOUND'
+    | 'PROJECT_NOT_FOUND'
+    | 'INVALID_PROJECT'
     | 'SESSION_NOT_ACTIVE'
+    | 'SESSION_NOT_ABANDONED'
     | 'VALIDATION_ERROR'
-    | 'INVALID_EVENT_ORDER';
+    | 'DUPLICATE_EVENT_ID'
+    | 'INVALID_BUDGET'
+    | 'BUDGET_EXCEEDED'
+    | 'INVALID_EVENT_ORDER'
+    | 'INVALID_QUERY'
+    | 'INVALID_CURSOR'
+    | 'INVALID_AS_OF'
+    | 'INVALID_SNAPSHOT'
+    | 'SNAPSHOT_CONFLICT';
   message: string;
   details?: unknown;
 }
 
+/**
+ * Configuration options for the EventCollector
+ */
+export interface EventCollectorOptions {
+  /** Storage backend for sessions (defaults to an in-memory store) */
+  store?: SessionStore;
+  /**
+   * How out-of-order iteration and story events are handled
+   * (defaults to 'lenient')
+   */
+  ordering?: OrderingMode;
+  /**
+   * Active sessions with no events for this long are marked 'abandoned'
+   * by abandonStaleSessions() (disabled if unset)
+   */
+  inactivityTimeoutMs?: number;
+  /**
+   * Called when a subscriber throws or the event log cannot be written
+   * (errors are otherwise swallowed)
+   */
+  onListenerError?: ListenerErrorHandler;
+  /**
+   * Thresholds for flagging stuck stories with STUCK_LOOP warnings,
+   * or false to disable detection
+   */
+  stuckDetection?: StuckDetectionOptions | false;
+  /**
+   * Pricing table for cost budgets and cost metrics (defaults to an
+   * empty table, under which cost budgets are rejected)
+   */
+  pricing?: PricingTable;
+  /** Append-only NDJSON log that every accepted event is mirrored to */
+  eventLog?: EventLogSink;
+  /** Source of the current time (defaults to Date.now()) */
+  clock?: Clock;
+  /**
+   * How far an event's timestamp may fall before the session's start,
+   * or a session_end before the latest event, without a CLOCK_SKEW
+   * warning (defaults to 0)
+   */
+  clockSkewToleranceMs?: number;
+  /**
+   * Limits on retained sessions and events, enforced whenever a session
+   * starts or ends and by enforceRetention() (unlimited if unset)
+   */
+  retention?: RetentionPolicy;
+}
+
 // ============================================================================
 // EventCollector Class
 // ============================================================================
 
 /**
- * Collects and stores metering events in memory.
+ * Collects and stores metering events.
  * Provides methods to query sessions and calculate metrics.
  */
 export class EventCollector {
-  /** In-memory storage of sessions by ID */
-  private sessions = new Map<string, Session>();
+  /** Storage backend for sessions */
+  private readonly store: SessionStore;
+
+  /** How out-of-order events are handled */
+  private readonly ordering: OrderingMode;
+
+  /** Ordering state per session, rebuilt from stored events on demand */
+  private orderStates = new Map<string, OrderState>();
+
+  /** Events by client-supplied eventId per session, built on demand */
+  private eventIds = new Map<string, Map<string, MeterEvent>>();
+
+  /** Running metrics per session, built from stored events on demand */
+  private metricsCache = new Map<string, SessionMetrics>();
+
+  /** Latest event timestamp per session, built from stored events on demand */
+  private latestTimestamps = new Map<string, string>();
+
+  /** Test case history per session, built from stored events on demand */
+  private testHistories = new Map<string, TestHistoryState>();
+
+  /** Story and iteration breakdown per session, built on demand */
+  private breakdowns = new Map<string, BreakdownState>();
+
+  /** Diagnostic clusters per session, built from stored events on demand */
+  private diagnostics = new Map<string, DiagnosticState>();
+
+  /** Child session IDs per parent, built from stored metadata on demand */
+  private childIndex: Map<string, string[]> | undefined;
+
+  /** Dispatches accepted events to subscribers */
+  private readonly bus: EventBus;
+
+  /** Listeners for session warnings */
+  private warningListeners = new Set<WarningListener>();
+
+  /** Called when a subscriber throws */
+  private readonly onListenerError: ListenerErrorHandler | undefined;
+
+  /** Stuck-loop detection thresholds, or false if disabled */
+  private readonly stuckDetection: StuckDetectionOptions | false;
+
+  /** Stuck-loop state per session, rebuilt from stored events on demand */
+  private stuckStates = new Map<string, StuckState>();
+
+  /** Pricing table for cost budgets and cost metrics */
+  private pricing: PricingTable;
+
+  /** Log that accepted events are mirrored to, if enabled */
+  private readonly eventLog: EventLogSink | undefined;
+
+  /** Inactivity timeout for active sessions, if enabled */
+  private readonly inactivityTimeoutMs: number | undefined;
+
+  /** Source of the current time */
+  private readonly clock: Clock;
+
+  /** Skew allowed before a timestamp is flagged */
+  private readonly clockSkewToleranceMs: number;
+
+  /** Limits on retained sessions and events, if enabled */
+  private readonly retention: RetentionPolicy | undefined;
+
+  /** Listeners for evicted and trimmed sessions */
+  private evictionListeners = new Set<EvictionListener>();
+
+  /**
+   * Creates a new EventCollector
+   *
+   * @param options - Optional collector configuration
+   */
+  constructor(options: EventCollectorOptions = {}) {
+    this.store = options.store ?? new InMemorySessionStore();
+    this.ordering = options.ordering ?? 'lenient';
+    this.bus = new EventBus(options.onListenerError);
+    this.onListenerError = options.onListenerError;
+    this.stuckDetection = options.stuckDetection ?? {};
+    this.pricing = options.pricing ?? DEFAULT_PRICING;
+    this.eventLog = options.eventLog;
+    this.inactivityTimeoutMs = options.inactivityTimeoutMs;
+    this.clock = options.clock ?? systemClock;
+    this.clockSkewToleranceMs =
+      options.clockSkewToleranceMs ?? DEFAULT_CLOCK_SKEW_TOLERANCE_MS;
+    this.retention = options.retention;
+  }
 
   /**
    * Emits an event to the collector.
    * Events are validated and stored in the appropriate session.
    *
-   * - session_start creates a new session
+   * - session_start creates a new session, in the given project (which
+   *   must be registered) or else in its parent session's project
    * - session_end closes the session
    * - Other events are appended to existing active sessions
+   * - Out-of-order iteration/story events are rejected with
+   *   INVALID_EVENT_ORDER in strict mode, or recorded as a session
+   *   warning in lenient mode
+   * - An event whose eventId was already stored in the session returns
+   *   the stored original without appending it again; a different
+   *   eventType or payload under the same ID fails with DUPLICATE_EVENT_ID
+   * - Token events are rejected with BUDGET_EXCEEDED once a hard budget
+   *   limit is exceeded, if the budget refuses tokens after a hard limit
+   * - Events timestamped before the session started, and a session_end
+   *   timestamped before the latest event, are accepted with a
+   *   CLOCK_SKEW warning; endedAt is never earlier than the latest event
+   * - Events timestamped before events already stored are inserted in
+   *   timestamp order; ordering is checked against the events before
+   *   them, and per-session reports are rebuilt in the new order
+   *
+   * Subscribers are notified after the event is stored and mirrored to
+   * the event log, if one is configured. Stories whose
+   * iterations repeat without progress are then flagged with a
+   * STUCK_LOOP warning, and crossed budget limits with a
+   * BUDGET_EXCEEDED warning. session_start and session_end events then
+   * apply the retention policy, if one is configured.
    *
    * @param data - The event data (will be validated)
    * @returns Result with the validated event or error
@@ -124,25 +503,117 @@ export class EventCollector {
 
     const event = validationResult.value;
 
+    // Retries of an already stored event resolve to the original
+    if (event.eventId !== undefined) {
+      const original = this.findEventById(event.sessionId, event.eventId);
+      if (original !== undefined) {
+        return this.resolveDuplicate(original, event);
+      }
+    }
+
     // Handle based on event type
+    let result: Result<MeterEvent, CollectorError>;
     switch (event.eventType) {
       case 'session_start':
-        return this.handleSessionStart(event);
+        result = this.handleSessionStart(event);
+        break;
       case 'session_end':
-        return this.handleSessionEnd(event);
+        result = this.handleSessionEnd(event);
+        break;
       default:
-        return this.handleEvent(event);
+        result = this.handleEvent(event);
     }
+
+    // Update running metrics and notify subscribers of stored events
+    if (result.ok) {
+      // Order-dependent state is rebuilt around a late event on demand
+      const late = this.isLateEvent(result.value);
+      if (late) {
+        this.forgetEventOrder(result.value.sessionId);
+      }
+      if (result.value.eventId !== undefined) {
+        this.eventIds
+          .get(result.value.sessionId)
+          ?.set(result.value.eventId, result.value);
+      }
+      this.updateMetrics(result.value);
+      this.updateLatestTimestamp(result.value);
+      this.updateReports(result.value);
+      this.appendToEventLog(result.value);
+      this.bus.publish(result.value);
+      if (!late) {
+        this.detectStuckLoops(result.value);
+      }
+      this.trackBudget(result.value);
+      if (
+        result.value.eventType === 'session_start' ||
+        result.value.eventType === 'session_end'
+      ) {
+        this.applyRetention(result.value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Subscribes to events accepted by the collector
+   *
+   * @param listener - Called for each matching event after it is stored
+   * @param filter - Optional session ID / event type filter
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: EventListener, filter?: EventFilter): Unsubscribe {
+    return this.bus.subscribe(listener, filter);
+  }
+
+  /**
+   * Streams events accepted by the collector as an async iterator
+   *
+   * @example
+   * for await (const event of collector.stream({ sessionId })) { ... }
+   *
+   * @param filter - Optional session ID / event type filter
+   * @returns Async iterator that ends when the consumer breaks out
+   */
+  stream(filter?: EventFilter): AsyncIterableIterator<MeterEvent> {
+    return this.bus.stream(filter);
+  }
+
+  /**
+   * Subscribes to warnings recorded on any session, such as STUCK_LOOP
+   *
+   * @param listener - Called with the session ID and warning
+   * @returns Function that removes the subscription
+   */
+  subscribeWarnings(listener: WarningListener): Unsubscribe {
+    this.warningListeners.add(listener);
+    return () => {
+      this.warningListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to sessions evicted or trimmed by the retention policy
+   *
+   * @param listener - Called with each eviction
+   * @returns Function that removes the subscription
+   */
+  subscribeEvictions(listener: EvictionListener): Unsubscribe {
+    this.evictionListeners.add(listener);
+    return () => {
+      this.evictionListeners.delete(listener);
+    };
   }
 
   /**
-   * Gets a session by ID
+   * Gets a session by ID, with its events in timestamp order (events
+   * with equal timestamps stay in arrival order)
    *
    * @param id - The session ID
    * @returns Result with the session or error if not found
    */
   getSession(id: string): Result<Session, CollectorError> {
-    const session = this.sessions.get(id);
+    const session = this.store.getSession(id);
     if (!session) {
       return err({
         code: 'SESSION_NOT_FOUND',
@@ -153,176 +624,1499 @@ export class EventCollector {
   }
 
   /**
-   * Gets all sessions
+   * Gets a session's metadata without its events
+   *
+   * @param id - The session ID
+   * @returns Result with the metadata or error if not found
+   */
+  getSessionMetadata(id: string): Result<SessionMetadata, CollectorError> {
+    const metadata = this.store.getMetadata(id);
+    if (!metadata) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${id}`,
+      });
+    }
+    return ok(metadata);
+  }
+
+  /**
+   * Gets all sessions, with their events in timestamp order
    *
    * @returns Array of all sessions
    */
   getAllSessions(): Session[] {
-    return Array.from(this.sessions.values());
+    return this.store.listSessions();
   }
 
   /**
-   * Calculates metrics for a session
+   * Queries sessions by status, tags and time range, with sorting and
+   * cursor pagination. Events are only loaded for the returned page.
    *
-   * @param sessionId - The session ID
-   * @returns Result with metrics or error if session not found
+   * @param query - Filters, sort order and pagination options
+   * @returns Result with one page of sessions (or metadata only) or error
    */
-  getMetrics(sessionId: string): Result<SessionMetrics, CollectorError> {
-    const sessionResult = this.getSession(sessionId);
-    if (!sessionResult.ok) {
-      return sessionResult;
+  querySessions(
+    query: SessionQuery & { metadataOnly: true }
+  ): Result<SessionPage<SessionMetadata>, CollectorError>;
+  querySessions(
+    query?: SessionQuery
+  ): Result<SessionPage<Session>, CollectorError>;
+  querySessions(
+    query: SessionQuery = {}
+  ): Result<
+    SessionPage<Session> | SessionPage<SessionMetadata>,
+    CollectorError
+  > {
+    const pageResult = querySessionMetadata(
+      this.store.listMetadata(toMetadataFilter(query)),
+      query
+    );
+    if (!pageResult.ok) {
+      return err({
+        code: pageResult.error.code,
+        message: pageResult.error.message,
+      });
     }
 
-    const session = sessionResult.value;
-    return ok(this.calculateMetrics(session));
-  }
+    const page = pageResult.value;
+    if (query.metadataOnly === true) {
+      return ok(page);
+    }
 
-  // ============================================================================
-  // Private Methods
-  // ============================================================================
+    const sessions: Session[] = [];
+    for (const metadata of page.items) {
+      const session = this.store.getSession(metadata.id);
+      if (session !== undefined) {
+        sessions.push(session);
+      }
+    }
+    return ok({ ...page, items: sessions });
+  }
 
   /**
-   * Handles session_start event - creates a new session
+   * Marks active sessions as 'abandoned' when their last event is older
+   * than the inactivity timeout. The session's endedAt is set to the
+   * timestamp of its last event. Does nothing if no timeout is configured.
+   *
+   * @param now - Current time in epoch milliseconds (defaults to the
+   *   collector's clock)
+   * @returns Metadata of the sessions that were abandoned
    */
-  private handleSessionStart(
-    event: SessionStartEvent
-  ): Result<MeterEvent, CollectorError> {
-    const { sessionId, timestamp, payload } = event;
+  abandonStaleSessions(now: number = this.clock()): SessionMetadata[] {
+    const timeoutMs = this.inactivityTimeoutMs;
+    if (timeoutMs === undefined) {
+      return [];
+    }
 
-    // Check if session already exists
-    if (this.sessions.has(sessionId)) {
-      return err({
-        code: 'SESSION_ALREADY_EXISTS',
-        message: `Session already exists: ${sessionId}`,
-      });
+    const abandoned: SessionMetadata[] = [];
+    for (const metadata of this.store.listMetadata({ status: ['active'] })) {
+      const lastEventAt = this.getLatestTimestamp(metadata);
+      if (now - Date.parse(lastEventAt) < timeoutMs) {
+        continue;
+      }
+
+      const updated: SessionMetadata = {
+        ...metadata,
+        status: 'abandoned',
+        endedAt: lastEventAt,
+      };
+      this.store.updateMetadata(updated);
+      abandoned.push(updated);
     }
+    return abandoned;
+  }
 
-    // Create new session
-    const session: Session = {
-      metadata: {
-        id: sessionId,
-        status: 'active',
-        startedAt: timestamp,
-        ...(payload.tags !== undefined && { tags: payload.tags }),
-      },
-      events: [event],
+  /**
+   * Periodically runs abandonStaleSessions(). The timer does not keep
+   * the process alive.
+   *
+   * @param intervalMs - How often to check for stale sessions
+   * @returns Function that stops the monitor
+   */
+  startTimeoutMonitor(intervalMs: number): () => void {
+    const timer = setInterval(() => {
+      this.abandonStaleSessions();
+    }, intervalMs);
+    timer.unref();
+    return () => {
+      clearInterval(timer);
     };
+  }
 
-    this.sessions.set(sessionId, session);
-    return ok(event);
+  /**
+   * Applies the retention policy to every stored session: ended sessions
+   * past maxCompletedAgeMs or beyond maxSessions are evicted, then ended
+   * sessions with more than maxEventsPerSession events have their oldest
+   * events compacted into metadata.compacted. Active sessions are never
+   * evicted or trimmed. Does nothing if no policy is configured.
+   *
+   * Metrics, breakdowns and diagnostic clusters include compacted events;
+   * other per-event reports, such as test history, only cover the
+   * remaining events.
+   *
+   * @param now - Current time in epoch milliseconds (defaults to the
+   *   collector's clock)
+   * @returns The evictions, in the order listeners were notified
+   */
+  enforceRetention(now: number = this.clock()): SessionEviction[] {
+    const policy = this.retention;
+    if (policy === undefined) {
+      return [];
+    }
+
+    const timestamp = new Date(now).toISOString();
+    const evictions = this.evictSessions(policy, now, timestamp);
+    for (const metadata of this.store.listMetadata()) {
+      const trimmed = this.trimSession(metadata.id, timestamp);
+      if (trimmed !== undefined) {
+        evictions.push(trimmed);
+      }
+    }
+    this.notifyEvictions(evictions, undefined);
+    return evictions;
   }
 
   /**
-   * Handles session_end event - closes the session
+   * Periodically runs enforceRetention(). The timer does not keep the
+   * process alive.
+   *
+   * @param intervalMs - How often to enforce the retention policy
+   * @returns Function that stops the monitor
    */
-  private handleSessionEnd(
-    event: SessionEndEvent
-  ): Result<MeterEvent, CollectorError> {
-    const { sessionId, timestamp, payload } = event;
+  startRetentionMonitor(intervalMs: number): () => void {
+    const timer = setInterval(() => {
+      this.enforceRetention();
+    }, intervalMs);
+    timer.unref();
+    return () => {
+      clearInterval(timer);
+    };
+  }
 
-    // Get the session
-    const session = this.sessions.get(sessionId);
-    if (!session) {
+  /**
+   * Reopens an abandoned session so a resumed loop can keep appending
+   * events to it. Clears endedAt and sets the status back to 'active'.
+   *
+   * @param sessionId - The session ID
+   * @returns Result with the updated metadata or error
+   */
+  reopenSession(sessionId: string): Result<SessionMetadata, CollectorError> {
+    const metadata = this.store.getMetadata(sessionId);
+    if (!metadata) {
       return err({
         code: 'SESSION_NOT_FOUND',
         message: `Session not found: ${sessionId}`,
       });
     }
 
-    // Check if session is active
-    if (session.metadata.status !== 'active') {
+    if (metadata.status !== 'abandoned') {
       return err({
-        code: 'SESSION_NOT_ACTIVE',
-        message: `Session is not active: ${sessionId}`,
+        code: 'SESSION_NOT_ABANDONED',
+        message: `Session is not abandoned: ${sessionId}`,
       });
     }
 
-    // Update session metadata
-    session.metadata.status = payload.success ? 'completed' : 'failed';
-    session.metadata.endedAt = timestamp;
-    session.metadata.success = payload.success;
-
-    // Add event
-    session.events.push(event);
-    return ok(event);
+    const { endedAt: _endedAt, ...rest } = metadata;
+    const updated: SessionMetadata = { ...rest, status: 'active' };
+    this.store.updateMetadata(updated);
+    return ok(updated);
   }
 
   /**
-   * Handles all other events - appends to existing session
+   * Calculates metrics for a session
+   *
+   * @param sessionId - The session ID
+   * @returns Result with metrics or error if session not found
    */
-  private handleEvent(event: MeterEvent): Result<MeterEvent, CollectorError> {
-    const { sessionId } = event;
-
-    // Get the session
-    const session = this.sessions.get(sessionId);
-    if (!session) {
+  getMetrics(sessionId: string): Result<SessionMetrics, CollectorError> {
+    if (!this.store.hasSession(sessionId)) {
       return err({
         code: 'SESSION_NOT_FOUND',
         message: `Session not found: ${sessionId}`,
       });
     }
+    return ok(structuredClone(this.getRunningMetrics(sessionId)));
+  }
 
-    // Check if session is active
-    if (session.metadata.status !== 'active') {
-      return err({
-        code: 'SESSION_NOT_ACTIVE',
-        message: `Session is not active: ${sessionId}`,
-      });
+  /**
+   * Reconstructs a session as it was at an earlier point, from its stored
+   * events. The metadata reflects that point: a session whose session_end
+   * comes later is shown as active, and later warnings are dropped.
+   * Event indexes count the events remaining after compaction, and
+   * timestamps before the end of the compacted history are rejected.
+   *
+   * @param sessionId - The session ID
+   * @param asOf - Event index or timestamp to reconstruct
+   * @returns Result with the session, SESSION_NOT_FOUND if it had not
+   *   started by then, or INVALID_AS_OF
+   */
+  getSessionAsOf(
+    sessionId: string,
+    asOf: AsOfPoint
+  ): Result<Session, CollectorError> {
+    const sessionResult = this.getSession(sessionId);
+    if (!sessionResult.ok) {
+      return sessionResult;
     }
+    const { metadata, events } = sessionResult.value;
 
-    // Add event
-    session.events.push(event);
-    return ok(event);
+    let included: MeterEvent[];
+    if ('eventIndex' in asOf) {
+      if (!Number.isInteger(asOf.eventIndex) || asOf.eventIndex < 0) {
+        return err({
+          code: 'INVALID_AS_OF',
+          message: `Invalid event index: ${String(asOf.eventIndex)}. Must be a non-negative integer.`,
+        });
+      }
+      included = events.slice(0, asOf.eventIndex + 1);
+    } else {
+      const cutoff = Date.parse(asOf.timestamp);
+      if (Number.isNaN(cutoff)) {
+        return err({
+          code: 'INVALID_AS_OF',
+          message: `Invalid timestamp: ${asOf.timestamp}`,
+        });
+      }
+      if (cutoff < Date.parse(metadata.startedAt)) {
+        return err({
+          code: 'SESSION_NOT_FOUND',
+          message: `Session ${sessionId} had not started as of ${asOf.timestamp}`,
+        });
+      }
+      if (
+        metadata.compacted !== undefined &&
+        cutoff < Date.parse(metadata.compacted.lastTimestamp)
+      ) {
+        return err({
+          code: 'INVALID_AS_OF',
+          message: `Events of session ${sessionId} up to ${metadata.compacted.lastTimestamp} were compacted`,
+        });
+      }
+      included = events.filter((e) => Date.parse(e.timestamp) <= cutoff);
+    }
+
+    if (included.length === events.length) {
+      return ok({ metadata, events });
+    }
+
+    const asOfTime =
+      'timestamp' in asOf
+        ? Date.parse(asOf.timestamp)
+        : Math.max(...included.map((e) => Date.parse(e.timestamp)));
+    const ended = included.some((e) => e.eventType === 'session_end');
+    const { endedAt, success, warnings, ...rest } = metadata;
+    const earlierWarnings = (warnings ?? []).filter(
+      (w) => Date.parse(w.timestamp) <= asOfTime
+    );
+    return ok({
+      metadata: {
+        ...rest,
+        ...(ended
+          ? {
+              ...(endedAt !== undefined && { endedAt }),
+              ...(success !== undefined && { success }),
+            }
+          : { status: 'active' }),
+        ...(earlierWarnings.length > 0 && { warnings: earlierWarnings }),
+      },
+      events: included,
+    });
   }
 
   /**
-   * Calculates metrics from session events
+   * Calculates a session's metrics as they were at an earlier point,
+   * rebuilt from its stored events
+   *
+   * @param sessionId - The session ID
+   * @param asOf - Event index or timestamp to reconstruct
+   * @returns Result with metrics or error
    */
-  private calculateMetrics(session: Session): SessionMetrics {
-    const metrics: SessionMetrics = {
-      totalIterations: 0,
-      totalTokensIn: 0,
-      totalTokensOut: 0,
-      compilationAttempts: 0,
-      compilationSuccesses: 0,
-      testAttempts: 0,
-      testSuccesses: 0,
-      storiesCompleted: 0,
-      storiesPassed: 0,
-    };
+  getMetricsAsOf(
+    sessionId: string,
+    asOf: AsOfPoint
+  ): Result<SessionMetrics, CollectorError> {
+    const sessionResult = this.getSessionAsOf(sessionId, asOf);
+    if (!sessionResult.ok) {
+      return sessionResult;
+    }
+    return ok(calculateRetainedMetrics(sessionResult.value));
+  }
 
-    for (const event of session.events) {
-      switch (event.eventType) {
-        case 'iteration_end':
-          metrics.totalIterations++;
-          break;
-        case 'tokens_in':
-          metrics.totalTokensIn += event.payload.count;
-          break;
-        case 'tokens_out':
-          metrics.totalTokensOut += event.payload.count;
-          break;
-        case 'compilation_result':
-          metrics.compilationAttempts++;
-          if (event.payload.success) {
-            metrics.compilationSuccesses++;
-          }
-          break;
-        case 'test_result':
-          metrics.testAttempts++;
-          if (event.payload.success) {
-            metrics.testSuccesses++;
-          }
-          break;
-        case 'story_complete':
-          metrics.storiesCompleted++;
-          if (event.payload.passes) {
-            metrics.storiesPassed++;
-          }
-          break;
-      }
+  /**
+   * Recalculates metrics for a session by rescanning all of its events,
+   * bypassing the running totals. Useful for verifying getMetrics().
+   *
+   * @param sessionId - The session ID
+   * @returns Result with metrics or error if session not found
+   */
+  recomputeMetrics(sessionId: string): Result<SessionMetrics, CollectorError> {
+    const sessionResult = this.getSession(sessionId);
+    if (!sessionResult.ok) {
+      return sessionResult;
     }
+    return ok(calculateRetainedMetrics(sessionResult.value));
+  }
 
-    return metrics;
+  /**
+   * Gets each test case's status history for a session, with tests that
+   * newly fail, were fixed, or flip between passed and failed without a
+   * code change (no file_change between runs)
+   *
+   * @param sessionId - The session ID
+   * @returns Result with the test history report or error
+   */
+  getTestHistory(sessionId: string): Result<TestHistoryReport, CollectorError> {
+    let state = this.testHistories.get(sessionId);
+    if (state === undefined) {
+      const session = this.store.getSession(sessionId);
+      if (!session) {
+        return err({
+          code: 'SESSION_NOT_FOUND',
+          message: `Session not found: ${sessionId}`,
+        });
+      }
+      state = buildTestHistory(session.events);
+      this.testHistories.set(sessionId, state);
+    }
+    return ok(structuredClone(summarizeTestHistory(state)));
+  }
+
+  /**
+   * Groups a session's recurring compilation diagnostics by story, code
+   * and normalized message
+   *
+   * @param sessionId - The session ID
+   * @param options - Clustering options
+   * @returns Result with clusters, most frequent first, or error
+   */
+  getDiagnosticClusters(
+    sessionId: string,
+    options: DiagnosticClusterOptions = {}
+  ): Result<DiagnosticCluster[], CollectorError> {
+    let state = this.diagnostics.get(sessionId);
+    if (state === undefined) {
+      const session = this.store.getSession(sessionId);
+      if (!session) {
+        return err({
+          code: 'SESSION_NOT_FOUND',
+          message: `Session not found: ${sessionId}`,
+        });
+      }
+      state = buildRetainedDiagnosticState(session);
+      this.diagnostics.set(sessionId, state);
+    }
+    return ok(structuredClone(summarizeDiagnostics(state, options)));
+  }
+
+  /**
+   * Breaks a session's tokens, compile and test runs, and wall time down
+   * by iteration and by story, attributing each event to the iteration
+   * open when it was recorded. Events compacted by the retention policy
+   * are included.
+   *
+   * @param sessionId - The session ID
+   * @returns Result with the breakdown or error if session not found
+   */
+  getBreakdown(sessionId: string): Result<SessionBreakdown, CollectorError> {
+    if (!this.store.hasSession(sessionId)) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+    return ok(
+      structuredClone(summarizeBreakdown(this.getBreakdownState(sessionId)))
+    );
+  }
+
+  /**
+   * Gets the IDs of sessions started with this session as their parent
+   *
+   * @param sessionId - The parent session ID
+   * @returns Result with child session IDs in creation order or error
+   */
+  getChildSessionIds(sessionId: string): Result<string[], CollectorError> {
+    if (!this.store.hasSession(sessionId)) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+    return ok([...(this.getChildIndex().get(sessionId) ?? [])]);
+  }
+
+  /**
+   * Gets a session with all its descendant sessions
+   *
+   * @param sessionId - The root session ID
+   * @returns Result with the session tree or error
+   */
+  getSessionTree(sessionId: string): Result<SessionTreeNode, CollectorError> {
+    const metadata = this.store.getMetadata(sessionId);
+    if (metadata === undefined) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+    return ok(this.buildTreeNode(metadata));
+  }
+
+  /**
+   * Gets metrics for a session rolled up with all its descendant sessions,
+   * so a parent's tokens and iterations include its sub-agents'
+   *
+   * @param sessionId - The root session ID
+   * @returns Result with the combined metrics or error
+   */
+  getRollupMetrics(sessionId: string): Result<SessionMetrics, CollectorError> {
+    const rollup = this.getMetrics(sessionId);
+    if (!rollup.ok) {
+      return rollup;
+    }
+
+    const visited = new Set([sessionId]);
+    const pending = [...(this.getChildIndex().get(sessionId) ?? [])];
+    for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+      if (visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+      const metrics = this.getMetrics(id);
+      if (metrics.ok) {
+        mergeSessionMetrics(rollup.value, metrics.value);
+      }
+      pending.push(...(this.getChildIndex().get(id) ?? []));
+    }
+    return rollup;
+  }
+
+  /**
+   * Registers a project, or updates the name and root path of a
+   * registered one. The root path is resolved to an absolute path.
+   *
+   * @param project - The project
+   * @returns Result with the stored project or error
+   */
+  registerProject(project: Project): Result<Project, CollectorError> {
+    const validation = validateProject(project);
+    if (!validation.ok) {
+      return err(validation.error);
+    }
+    this.store.saveProject(validation.value);
+    return ok(validation.value);
+  }
+
+  /**
+   * Gets a registered project
+   *
+   * @param id - The project ID
+   * @returns Result with the project or error if not found
+   */
+  getProject(id: string): Result<Project, CollectorError> {
+    const project = this.store.getProject(id);
+    if (project === undefined) {
+      return err({
+        code: 'PROJECT_NOT_FOUND',
+        message: `Project not found: ${id}`,
+      });
+    }
+    return ok(project);
+  }
+
+  /**
+   * Gets all registered projects in registration order
+   *
+   * @returns Array of all projects
+   */
+  listProjects(): Project[] {
+    return this.store.listProjects();
+  }
+
+  /**
+   * Finds the project rooted at a path, e.g. the rootPath of a
+   * CodebaseSnapshot
+   *
+   * @param rootPath - The root path (resolved to an absolute path)
+   * @returns The project, or undefined if none is rooted there
+   */
+  findProjectByRootPath(rootPath: string): Project | undefined {
+    return this.store
+      .listProjects()
+      .find((project) => isProjectRoot(project, rootPath));
+  }
+
+  /**
+   * Gets session counts and combined metrics across all sessions of a
+   * project. Use querySessions() with projectId for the sessions
+   * themselves.
+   *
+   * @param projectId - The project ID
+   * @returns Result with the project roll-up or error
+   */
+  getProjectRollup(projectId: string): Result<ProjectRollup, CollectorError> {
+    const project = this.getProject(projectId);
+    if (!project.ok) {
+      return project;
+    }
+
+    const sessions: { metadata: SessionMetadata; metrics: SessionMetrics }[] =
+      [];
+    for (const metadata of this.store.listMetadata()) {
+      if (metadata.projectId !== projectId) {
+        continue;
+      }
+      const metrics = this.getMetrics(metadata.id);
+      if (metrics.ok) {
+        sessions.push({ metadata, metrics: metrics.value });
+      }
+    }
+    return ok(buildProjectRollup(project.value, sessions));
+  }
+
+  /**
+   * Gets the source of the current time
+   */
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  /**
+   * Gets the pricing table for cost budgets and cost metrics
+   */
+  getPricing(): PricingTable {
+    return this.pricing;
+  }
+
+  /**
+   * Replaces the pricing table for cost budgets and cost metrics. Budgets
+   * already set are kept and priced with the new table.
+   *
+   * @param pricing - The new pricing table
+   */
+  setPricing(pricing: PricingTable): void {
+    this.pricing = pricing;
+  }
+
+  /**
+   * Sets or replaces the budget of an active session. Limits the session
+   * has already exceeded are reported immediately.
+   *
+   * @param sessionId - The session ID
+   * @param budget - The new budget
+   * @returns Result with the updated metadata or error
+   */
+  setBudget(
+    sessionId: string,
+    budget: SessionBudget
+  ): Result<SessionMetadata, CollectorError> {
+    const validation = validateBudget(budget, this.pricing);
+    if (!validation.ok) {
+      return err(validation.error);
+    }
+
+    const metadata = this.store.getMetadata(sessionId);
+    if (!metadata) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+    if (metadata.status !== 'active') {
+      return err({
+        code: 'SESSION_NOT_ACTIVE',
+        message: `Session is not active: ${sessionId}`,
+      });
+    }
+
+    this.store.updateMetadata({ ...metadata, budget });
+    this.checkBudget(
+      sessionId,
+      budget,
+      this.getBudgetUsage(sessionId),
+      this.getLatestTimestamp(metadata),
+      undefined
+    );
+    return this.getSessionMetadata(sessionId);
+  }
+
+  /**
+   * Gets a session's budget, current usage and recorded breaches
+   *
+   * @param sessionId - The session ID
+   * @returns Result with the budget status or error if not found
+   */
+  getBudgetStatus(sessionId: string): Result<BudgetStatus, CollectorError> {
+    const metadata = this.store.getMetadata(sessionId);
+    if (!metadata) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+
+    const usage = this.getBudgetUsage(sessionId);
+    return ok({
+      budget: metadata.budget ?? null,
+      usage: {
+        tokens: usage.tokens,
+        cost: budgetCost(usage, this.pricing),
+        iterations: usage.iterations,
+        tokensByStory: { ...usage.tokensByStory },
+      },
+      breaches: getBudgetBreaches(metadata),
+    });
+  }
+
+  /**
+   * Serializes every session, with its metadata and events, and every
+   * registered project to a versioned snapshot document
+   *
+   * @returns The snapshot, stamped with the collector clock
+   */
+  exportSnapshot(): CollectorSnapshot {
+    return createSnapshot(
+      this.store.listSessions(),
+      new Date(this.clock()).toISOString(),
+      this.store.listProjects()
+    );
+  }
+
+  /**
+   * Restores projects and sessions from a snapshot document.
+   *
+   * Projects the collector does not have are registered first; existing
+   * projects are kept. Every session's metadata and events are
+   * revalidated; invalid sessions and events, and sessions whose parent
+   * is neither restored nor stored, are left out and listed in the
+   * report. Sessions that already exist are resolved with the conflict
+   * policy (defaults to 'skip'). Restored events are stored as-is,
+   * without ordering or budget checks, and are not published to
+   * subscribers or the event log.
+   *
+   * @param data - The snapshot document (e.g. parsed JSON)
+   * @param options - Conflict policy
+   * @returns Result with the restored projects and sessions and rejected
+   *   entries, INVALID_SNAPSHOT for an unreadable document, or
+   *   SNAPSHOT_CONFLICT under the 'error' policy (in which case nothing
+   *   is restored)
+   */
+  importSnapshot(
+    data: unknown,
+    options: SnapshotImportOptions = {}
+  ): Result<SnapshotImportReport, CollectorError> {
+    const onConflict = options.onConflict ?? 'skip';
+    const parsed = parseSnapshot(data, {
+      getStoredMetadata: (id) => this.store.getMetadata(id),
+      onConflict,
+    });
+    if (!parsed.ok) {
+      return parsed;
+    }
+    const { projects, sessions, rejected } = parsed.value;
+
+    if (onConflict === 'error') {
+      const conflicts = sessions
+        .map((s) => s.metadata.id)
+        .filter((id) => this.store.hasSession(id));
+      if (conflicts.length > 0) {
+        return err({
+          code: 'SNAPSHOT_CONFLICT',
+          message: `Snapshot contains ${String(conflicts.length)} existing session(s)`,
+          details: { sessionIds: conflicts },
+        });
+      }
+    }
+
+    const report: SnapshotImportReport = {
+      projects: [],
+      created: [],
+      replaced: [],
+      merged: [],
+      skipped: [],
+      rejected,
+    };
+    for (const project of projects) {
+      if (this.store.getProject(project.id) === undefined) {
+        this.store.saveProject(project);
+        report.projects.push(project.id);
+      }
+    }
+    for (const session of sessions) {
+      const id = session.metadata.id;
+      const existing = this.store.getSession(id);
+      if (existing === undefined) {
+        this.store.createSession(session);
+        report.created.push(id);
+      } else if (onConflict === 'skip') {
+        report.skipped.push(id);
+        continue;
+      } else if (onConflict === 'replace') {
+        this.store.deleteSession(id);
+        this.store.createSession(session);
+        report.replaced.push(id);
+      } else {
+        const { metadata, newEvents } = mergeSessions(existing, session);
+        for (const event of newEvents) {
+          this.store.appendEvent(id, event);
+        }
+        this.store.updateMetadata(metadata);
+        report.merged.push(id);
+      }
+      this.forgetSession(id);
+    }
+    return ok(report);
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Handles session_start event - creates a new session
+   */
+  private handleSessionStart(
+    event: SessionStartEvent
+  ): Result<MeterEvent, CollectorError> {
+    const { sessionId, timestamp, payload } = event;
+
+    // Check if session already exists
+    if (this.store.hasSession(sessionId)) {
+      return err({
+        code: 'SESSION_ALREADY_EXISTS',
+        message: `Session already exists: ${sessionId}`,
+      });
+    }
+
+    const budget = parseBudgetTags(payload.tags, this.pricing);
+    if (!budget.ok) {
+      return err(budget.error);
+    }
+
+    const { parentSessionId } = payload;
+    const parent =
+      parentSessionId !== undefined
+        ? this.store.getMetadata(parentSessionId)
+        : undefined;
+    if (parentSessionId !== undefined && parent === undefined) {
+      return err({
+        code: 'PARENT_SESSION_NOT_FOUND',
+        message: `Parent session not found: ${parentSessionId}`,
+      });
+    }
+
+    const projectId = payload.projectId ?? parent?.projectId;
+    if (
+      payload.projectId !== undefined &&
+      this.store.getProject(payload.projectId) === undefined
+    ) {
+      return err({
+        code: 'PROJECT_NOT_FOUND',
+        message: `Project not found: ${payload.projectId}`,
+      });
+    }
+
+    // Create new session
+    const session: Session = {
+      metadata: {
+        id: sessionId,
+        status: 'active',
+        startedAt: timestamp,
+        ...(payload.tags !== undefined && { tags: payload.tags }),
+        ...(parentSessionId !== undefined && { parentSessionId }),
+        ...(projectId !== undefined && { projectId }),
+        ...(budget.value !== null && { budget: budget.value }),
+      },
+      events: [event],
+    };
+
+    this.store.createSession(session);
+    if (parentSessionId !== undefined && this.childIndex !== undefined) {
+      addChild(this.childIndex, parentSessionId, sessionId);
+    }
+    return ok(event);
+  }
+
+  /**
+   * Handles session_end event - closes the session
+   */
+  private handleSessionEnd(
+    event: SessionEndEvent
+  ): Result<MeterEvent, CollectorError> {
+    const { sessionId, timestamp, payload } = event;
+
+    // Get the session
+    const metadata = this.store.getMetadata(sessionId);
+    if (!metadata) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+
+    // Check if session is active
+    if (metadata.status !== 'active') {
+      return err({
+        code: 'SESSION_NOT_ACTIVE',
+        message: `Session is not active: ${sessionId}`,
+      });
+    }
+
+    // Update session metadata, keeping endedAt after every stored event
+    const latestTimestamp = this.getLatestTimestamp(metadata);
+    this.store.updateMetadata({
+      ...metadata,
+      status: payload.success ? 'completed' : 'failed',
+      endedAt: clampEndedAt(timestamp, latestTimestamp),
+      success: payload.success,
+    });
+    this.checkClockSkew(metadata, event, latestTimestamp);
+
+    // Add event
+    this.store.appendEvent(sessionId, event);
+    return ok(event);
+  }
+
+  /**
+   * Handles all other events - appends to existing session
+   */
+  private handleEvent(event: MeterEvent): Result<MeterEvent, CollectorError> {
+    const { sessionId } = event;
+
+    // Get the session
+    const metadata = this.store.getMetadata(sessionId);
+    if (!metadata) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+
+    // Check if session is active
+    if (metadata.status !== 'active') {
+      return err({
+        code: 'SESSION_NOT_ACTIVE',
+        message: `Session is not active: ${sessionId}`,
+      });
+    }
+
+    // Check budget hard limits
+    const { budget } = metadata;
+    if (budget !== undefined) {
+      const breach = findBlockingBreach(
+        budget,
+        this.getBudgetUsage(sessionId),
+        this.pricing,
+        event
+      );
+      if (breach !== undefined) {
+        return err({
+          code: 'BUDGET_EXCEEDED',
+          message: `Token event refused: ${describeBudgetBreach(breach)}`,
+          details: breach,
+        });
+      }
+    }
+
+    // Check event ordering, against the events before a late event
+    const late =
+      Date.parse(event.timestamp) <
+      Date.parse(this.getLatestTimestamp(metadata));
+    const orderState = late
+      ? this.buildOrderStateBefore(sessionId, event.timestamp)
+      : this.getOrderState(sessionId);
+    const violation = checkEventOrder(orderState, event);
+    if (violation !== null) {
+      if (this.ordering === 'strict') {
+        return err({
+          code: 'INVALID_EVENT_ORDER',
+          message: violation.message,
+          details: violation,
+        });
+      }
+      this.recordWarning(
+        sessionId,
+        {
+          code: 'INVALID_EVENT_ORDER',
+          message: violation.message,
+          timestamp: event.timestamp,
+          details: violation,
+        },
+        event
+      );
+    }
+    applyEventOrder(orderState, event);
+    this.checkClockSkew(metadata, event, undefined);
+
+    // Add event
+    this.store.appendEvent(sessionId, event);
+    return ok(event);
+  }
+
+  /**
+   * Folds an accepted event into the session's running metrics.
+   * Sessions without running metrics are calculated on the next read.
+   */
+  private updateMetrics(event: MeterEvent): void {
+    if (event.eventType === 'session_start') {
+      this.metricsCache.set(event.sessionId, calculateSessionMetrics([event]));
+      return;
+    }
+    const metrics = this.metricsCache.get(event.sessionId);
+    if (metrics !== undefined) {
+      applyEventToMetrics(metrics, event);
+    }
+  }
+
+  /**
+   * Folds an accepted event into the session's test history, breakdown
+   * and diagnostic clusters, where they have been built
+   */
+  private updateReports(event: MeterEvent): void {
+    const testHistory = this.testHistories.get(event.sessionId);
+    if (testHistory !== undefined) {
+      applyEventToTestHistory(testHistory, event);
+    }
+    const breakdown = this.breakdowns.get(event.sessionId);
+    if (breakdown !== undefined) {
+      applyEventToBreakdown(breakdown, event);
+    }
+    const diagnostics = this.diagnostics.get(event.sessionId);
+    if (diagnostics !== undefined) {
+      applyEventToDiagnostics(diagnostics, event);
+    }
+  }
+
+  /**
+   * Advances the session's cached latest event timestamp
+   */
+  private updateLatestTimestamp(event: MeterEvent): void {
+    const latest = this.latestTimestamps.get(event.sessionId);
+    if (
+      event.eventType === 'session_start' ||
+      (latest !== undefined && Date.parse(event.timestamp) > Date.parse(latest))
+    ) {
+      this.latestTimestamps.set(event.sessionId, event.timestamp);
+    }
+  }
+
+  /**
+   * Evicts ended sessions selected by the retention policy
+   */
+  private evictSessions(
+    policy: RetentionPolicy,
+    now: number,
+    timestamp: string
+  ): SessionEviction[] {
+    const evictions: SessionEviction[] = [];
+    const candidates = selectEvictions(this.store.listMetadata(), policy, now);
+    for (const { sessionId, reason } of candidates) {
+      const session = this.store.getSession(sessionId);
+      if (session === undefined) {
+        continue;
+      }
+      this.store.deleteSession(sessionId);
+      this.forgetSession(sessionId);
+      evictions.push({
+        sessionId,
+        reason,
+        eventsRemoved: session.events.length,
+        metadata: session.metadata,
+        timestamp,
+      });
+    }
+    return evictions;
+  }
+
+  /**
+   * Compacts the oldest events of an ended session with more events than
+   * maxEventsPerSession
+   *
+   * @returns The trim, or undefined if the session was left unchanged
+   */
+  private trimSession(
+    sessionId: string,
+    timestamp: string
+  ): SessionEviction | undefined {
+    const maxEvents = this.retention?.maxEventsPerSession;
+    const session = this.store.getSession(sessionId);
+    if (
+      maxEvents === undefined ||
+      session === undefined ||
+      session.metadata.status === 'active' ||
+      session.events.length <= maxEvents
+    ) {
+      return undefined;
+    }
+
+    const removed = session.events.slice(0, session.events.length - maxEvents);
+    const metadata: SessionMetadata = {
+      ...session.metadata,
+      compacted: compactEvents(session.metadata.compacted, removed),
+    };
+    this.store.removeOldestEvents(sessionId, removed.length);
+    this.store.updateMetadata(metadata);
+    this.forgetSession(sessionId);
+    return {
+      sessionId,
+      reason: 'maxEvents',
+      eventsRemoved: removed.length,
+      metadata,
+      timestamp,
+    };
+  }
+
+  /**
+   * Applies the retention policy after a session starts or ends: evicts
+   * sessions over the limits and trims the session that just ended
+   */
+  private applyRetention(event: MeterEvent): void {
+    const policy = this.retention;
+    if (policy === undefined) {
+      return;
+    }
+    const now = this.clock();
+    const timestamp = new Date(now).toISOString();
+    const evictions = this.evictSessions(policy, now, timestamp);
+    if (event.eventType === 'session_end') {
+      const trimmed = this.trimSession(event.sessionId, timestamp);
+      if (trimmed !== undefined) {
+        evictions.push(trimmed);
+      }
+    }
+    this.notifyEvictions(evictions, event);
+  }
+
+  /**
+   * Notifies eviction listeners. A throwing listener does not affect
+   * the others.
+   *
+   * @param evictions - The evictions to report
+   * @param event - The event that triggered them, if any
+   */
+  private notifyEvictions(
+    evictions: SessionEviction[],
+    event: MeterEvent | undefined
+  ): void {
+    for (const eviction of evictions) {
+      for (const listener of [...this.evictionListeners]) {
+        try {
+          listener(eviction);
+        } catch (error) {
+          this.onListenerError?.(error, event);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drops the state built on demand for a session whose stored events
+   * were changed outside emit()
+   */
+  private forgetSession(sessionId: string): void {
+    this.orderStates.delete(sessionId);
+    this.eventIds.delete(sessionId);
+    this.metricsCache.delete(sessionId);
+    this.latestTimestamps.delete(sessionId);
+    this.forgetEventOrder(sessionId);
+    this.childIndex = undefined;
+  }
+
+  /**
+   * Drops the state that depends on the order of a session's events,
+   * after an event was inserted before events already stored
+   */
+  private forgetEventOrder(sessionId: string): void {
+    this.orderStates.delete(sessionId);
+    this.testHistories.delete(sessionId);
+    this.breakdowns.delete(sessionId);
+    this.diagnostics.delete(sessionId);
+    this.stuckStates.delete(sessionId);
+  }
+
+  /**
+   * Checks whether a just-stored event was timestamped before the
+   * session's latest event, and so was inserted before stored events
+   */
+  private isLateEvent(event: MeterEvent): boolean {
+    const latest = this.latestTimestamps.get(event.sessionId);
+    return (
+      latest !== undefined && Date.parse(event.timestamp) < Date.parse(latest)
+    );
+  }
+
+  /**
+   * Finds a stored event by its client-supplied ID, indexing the
+   * session's events on first lookup
+   */
+  private findEventById(
+    sessionId: string,
+    eventId: string
+  ): MeterEvent | undefined {
+    let index = this.eventIds.get(sessionId);
+    if (index === undefined) {
+      const session = this.store.getSession(sessionId);
+      if (session === undefined) {
+        return undefined;
+      }
+      index = new Map();
+      for (const stored of session.events) {
+        if (stored.eventId !== undefined) {
+          index.set(stored.eventId, stored);
+        }
+      }
+      this.eventIds.set(sessionId, index);
+    }
+    return index.get(eventId);
+  }
+
+  /**
+   * Resolves a resent event ID: the stored original if the event type and
+   * payload match (timestamps may differ between retries), otherwise an error
+   */
+  private resolveDuplicate(
+    original: MeterEvent,
+    event: MeterEvent
+  ): Result<MeterEvent, CollectorError> {
+    if (
+      original.eventType === event.eventType &&
+      isDeepStrictEqual(original.payload, event.payload)
+    ) {
+      return ok(original);
+    }
+    return err({
+      code: 'DUPLICATE_EVENT_ID',
+      message: `Event ID ${String(event.eventId)} was already used for a different event in session ${event.sessionId}`,
+      details: { original },
+    });
+  }
+
+  /**
+   * Gets the latest event timestamp in a session (or its start time if
+   * later), scanning its events if needed
+   */
+  private getLatestTimestamp(metadata: SessionMetadata): string {
+    let latest = this.latestTimestamps.get(metadata.id);
+    if (latest === undefined) {
+      latest = metadata.startedAt;
+      for (const event of this.loadEvents(metadata.id)) {
+        if (Date.parse(event.timestamp) > Date.parse(latest)) {
+          latest = event.timestamp;
+        }
+      }
+      this.latestTimestamps.set(metadata.id, latest);
+    }
+    return latest;
+  }
+
+  /**
+   * Loads a session's stored events, to rebuild state kept on demand
+   */
+  private loadEvents(sessionId: string): MeterEvent[] {
+    return this.store.getSession(sessionId)?.events ?? [];
+  }
+
+  /**
+   * Gets the child session index, building it from stored metadata if needed
+   */
+  private getChildIndex(): Map<string, string[]> {
+    if (this.childIndex === undefined) {
+      const index = new Map<string, string[]>();
+      for (const metadata of this.store.listMetadata()) {
+        if (metadata.parentSessionId !== undefined) {
+          addChild(index, metadata.parentSessionId, metadata.id);
+        }
+      }
+      this.childIndex = index;
+    }
+    return this.childIndex;
+  }
+
+  /**
+   * Builds the tree node for a session and its descendants, visiting each
+   * session once even if parent links were corrupted into a cycle
+   */
+  private buildTreeNode(
+    metadata: SessionMetadata,
+    visited = new Set<string>()
+  ): SessionTreeNode {
+    visited.add(metadata.id);
+    const children: SessionTreeNode[] = [];
+    for (const childId of this.getChildIndex().get(metadata.id) ?? []) {
+      const child = visited.has(childId)
+        ? undefined
+        : this.store.getMetadata(childId);
+      if (child !== undefined) {
+        children.push(this.buildTreeNode(child, visited));
+      }
+    }
+    return { metadata, children };
+  }
+
+  /**
+   * Mirrors a stored event to the event log. Write failures are reported
+   * to onListenerError and do not affect the stored event.
+   */
+  private appendToEventLog(event: MeterEvent): void {
+    if (this.eventLog === undefined) {
+      return;
+    }
+    try {
+      this.eventLog.append(event);
+    } catch (error) {
+      this.onListenerError?.(error, event);
+    }
+  }
+
+  /**
+   * Appends a warning to a session's metadata and notifies warning
+   * listeners. A throwing listener does not affect the others.
+   *
+   * @param sessionId - The session ID
+   * @param warning - The warning to record
+   * @param event - The event that triggered the warning, if any
+   */
+  private recordWarning(
+    sessionId: string,
+    warning: SessionWarning,
+    event: MeterEvent | undefined
+  ): void {
+    const metadata = this.store.getMetadata(sessionId);
+    if (metadata === undefined) {
+      return;
+    }
+    this.store.updateMetadata({
+      ...metadata,
+      warnings: [...(metadata.warnings ?? []), warning],
+    });
+
+    for (const listener of [...this.warningListeners]) {
+      try {
+        listener(sessionId, warning);
+      } catch (error) {
+        this.onListenerError?.(error, event);
+      }
+    }
+  }
+
+  /**
+   * Records a CLOCK_SKEW warning if an incoming event's timestamp falls
+   * outside its session's time range by more than the tolerance
+   */
+  private checkClockSkew(
+    metadata: SessionMetadata,
+    event: MeterEvent,
+    latestTimestamp: string | undefined
+  ): void {
+    const skew = findClockSkew(
+      event,
+      metadata,
+      latestTimestamp,
+      this.clockSkewToleranceMs
+    );
+    if (skew !== null) {
+      this.recordWarning(
+        event.sessionId,
+        {
+          code: 'CLOCK_SKEW',
+          message: describeClockSkew(skew),
+          timestamp: event.timestamp,
+          details: skew,
+        },
+        event
+      );
+    }
+  }
+
+  /**
+   * Feeds a stored event to stuck-loop detection and records a
+   * STUCK_LOOP warning for each story it flags
+   */
+  private detectStuckLoops(event: MeterEvent): void {
+    if (this.stuckDetection === false) {
+      return;
+    }
+
+    let state = this.stuckStates.get(event.sessionId);
+    if (state === undefined) {
+      // Replay everything before this event, which is already stored
+      state = buildStuckState(
+        this.loadEvents(event.sessionId).slice(0, -1),
+        this.stuckDetection
+      );
+      this.stuckStates.set(event.sessionId, state);
+    }
+
+    const detections = applyEventToStuckState(
+      state,
+      event,
+      this.stuckDetection
+    );
+    for (const detection of detections) {
+      this.recordWarning(
+        event.sessionId,
+        {
+          code: 'STUCK_LOOP',
+          message: describeStuckLoop(detection),
+          timestamp: event.timestamp,
+          details: detection,
+        },
+        event
+      );
+    }
+  }
+
+  /**
+   * Records a BUDGET_EXCEEDED warning for each limit newly crossed by a
+   * stored event
+   */
+  private trackBudget(event: MeterEvent): void {
+    const budget = this.store.getMetadata(event.sessionId)?.budget;
+    if (budget === undefined) {
+      return;
+    }
+    this.checkBudget(
+      event.sessionId,
+      budget,
+      this.getBudgetUsage(event.sessionId),
+      event.timestamp,
+      event
+    );
+  }
+
+  /**
+   * Records a BUDGET_EXCEEDED warning for each limit the usage crosses
+   * that has not been recorded yet
+   */
+  private checkBudget(
+    sessionId: string,
+    budget: SessionBudget,
+    usage: BudgetUsage,
+    timestamp: string,
+    event: MeterEvent | undefined
+  ): void {
+    const metadata = this.store.getMetadata(sessionId);
+    if (metadata === undefined) {
+      return;
+    }
+    const breaches = findBudgetBreaches(
+      budget,
+      usage,
+      this.pricing,
+      getBudgetBreaches(metadata),
+      timestamp
+    );
+    for (const breach of breaches) {
+      this.recordWarning(
+        sessionId,
+        {
+          code: 'BUDGET_EXCEEDED',
+          message: describeBudgetBreach(breach),
+          timestamp,
+          details: breach,
+        },
+        event
+      );
+    }
+  }
+
+  /**
+   * Gets the budget usage for a session from its running metrics and
+   * breakdown
+   */
+  private getBudgetUsage(sessionId: string): BudgetUsage {
+    return deriveBudgetUsage(
+      this.getRunningMetrics(sessionId),
+      this.getBreakdownState(sessionId)
+    );
+  }
+
+  /**
+   * Gets the running metrics for a session, calculating them from its
+   * stored events if needed
+   */
+  private getRunningMetrics(sessionId: string): SessionMetrics {
+    let metrics = this.metricsCache.get(sessionId);
+    if (metrics === undefined) {
+      const session = this.store.getSession(sessionId);
+      if (session === undefined) {
+        return createSessionMetrics();
+      }
+      metrics = calculateRetainedMetrics(session);
+      this.metricsCache.set(sessionId, metrics);
+    }
+    return metrics;
+  }
+
+  /**
+   * Gets the breakdown state for a session, replaying its events if needed
+   */
+  private getBreakdownState(sessionId: string): BreakdownState {
+    let state = this.breakdowns.get(sessionId);
+    if (state === undefined) {
+      const session = this.store.getSession(sessionId);
+      if (session === undefined) {
+        return createBreakdownState();
+      }
+      state = buildRetainedBreakdownState(session);
+      this.breakdowns.set(sessionId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Builds the ordering state at the point a late event is inserted,
+   * from the stored events before it
+   */
+  private buildOrderStateBefore(
+    sessionId: string,
+    timestamp: string
+  ): OrderState {
+    const events = this.loadEvents(sessionId);
+    return buildOrderState(
+      events.slice(0, findInsertionIndex(events, timestamp))
+    );
+  }
+
+  /**
+   * Gets the ordering state for a session, replaying its events if needed
+   */
+  private getOrderState(sessionId: string): OrderState {
+    let state = this.orderStates.get(sessionId);
+    if (state === undefined) {
+      state = buildOrderState(this.loadEvents(sessionId));
+      this.orderStates.set(sessionId, state);
+    }
+    return state;
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Gets the budget breaches recorded as warnings on a session
+ */
+function getBudgetBreaches(metadata: SessionMetadata): BudgetBreach[] {
+  return (metadata.warnings ?? [])
+    .filter((warning) => warning.code === 'BUDGET_EXCEEDED')
+    .map((warning) => warning.details as BudgetBreach);
+}
+
+/**
+ * Records a child session under its parent in a child index
+ */
+function addChild(
+  index: Map<string, string[]>,
+  parentId: string,
+  childId: string
+): void {
+  const children = index.get(parentId);
+  if (children === undefined) {
+    index.set(parentId, [childId]);
+  } else {
+    children.push(childId);
   }
 }
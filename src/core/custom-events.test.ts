@@ -0,0 +1,213 @@
+/**
+ * Tests for Custom Event Types
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import {
+  CustomEventRegistry,
+  customEventTypes,
+  registerCustomEventType,
+  isCustomEventType,
+} from './custom-events.js';
+import {
+  safeValidateEvent,
+  validateEvent,
+  isCustomEvent,
+  createSessionId,
+} from './events.js';
+import { EventCollector } from './collector.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  createCustomEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const LintResultPayloadSchema = z.object({
+  warnings: z.number().int().nonnegative(),
+  errors: z.number().int().nonnegative(),
+});
+
+// ============================================================================
+// CustomEventRegistry Tests
+// ============================================================================
+
+describe('CustomEventRegistry', () => {
+  it('registers and lists namespaced event types', () => {
+    const registry = new CustomEventRegistry();
+
+    expect(
+      isOk(registry.register('acme.lint_result', LintResultPayloadSchema))
+    ).toBe(true);
+    expect(isOk(registry.register('acme.deploy', z.object({})))).toBe(true);
+
+    expect(registry.list()).toEqual(['acme.lint_result', 'acme.deploy']);
+    expect(registry.getPayloadSchema('acme.lint_result')).toBe(
+      LintResultPayloadSchema
+    );
+  });
+
+  it('rejects names without a namespace', () => {
+    const registry = new CustomEventRegistry();
+
+    for (const name of ['lint_result', 'tokens_in', '.lint', 'Acme.lint']) {
+      const result = registry.register(name, z.object({}));
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('INVALID_EVENT_TYPE');
+      }
+    }
+  });
+
+  it('rejects duplicate registrations', () => {
+    const registry = new CustomEventRegistry();
+    registry.register('acme.lint_result', LintResultPayloadSchema);
+
+    const result = registry.register('acme.lint_result', z.object({}));
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('EVENT_TYPE_ALREADY_REGISTERED');
+    }
+  });
+
+  it('unregisters event types', () => {
+    const registry = new CustomEventRegistry();
+    registry.register('acme.lint_result', LintResultPayloadSchema);
+
+    expect(registry.unregister('acme.lint_result')).toBe(true);
+    expect(registry.unregister('acme.lint_result')).toBe(false);
+    expect(registry.getPayloadSchema('acme.lint_result')).toBeUndefined();
+  });
+
+  it('distinguishes custom from built-in event type names', () => {
+    expect(isCustomEventType('acme.lint_result')).toBe(true);
+    expect(isCustomEventType('review.human.approved')).toBe(true);
+    expect(isCustomEventType('iteration_start')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Custom Event Validation Tests
+// ============================================================================
+
+describe('custom event validation', () => {
+  let sessionId: string;
+
+  beforeEach(() => {
+    sessionId = createSessionId();
+    registerCustomEventType('acme.lint_result', LintResultPayloadSchema);
+  });
+
+  afterEach(() => {
+    customEventTypes.unregister('acme.lint_result');
+  });
+
+  it('validates registered custom events against their payload schema', () => {
+    const result = safeValidateEvent(
+      createCustomEvent(sessionId, 'acme.lint_result', {
+        warnings: 2,
+        errors: 0,
+      })
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(isCustomEvent(result.value)).toBe(true);
+      expect(result.value.eventType).toBe('acme.lint_result');
+      expect(result.value.payload).toEqual({ warnings: 2, errors: 0 });
+    }
+  });
+
+  it('reports payload issues under the payload path', () => {
+    const result = safeValidateEvent(
+      createCustomEvent(sessionId, 'acme.lint_result', {
+        warnings: -1,
+        errors: 0,
+      })
+    );
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.issues[0]?.path).toEqual(['payload', 'warnings']);
+    }
+  });
+
+  it('rejects unregistered custom event types', () => {
+    const data = createCustomEvent(sessionId, 'acme.deploy', {});
+
+    const result = safeValidateEvent(data);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.issues[0]?.path).toEqual(['eventType']);
+    }
+    expect(() => validateEvent(data)).toThrow();
+  });
+
+  it('still validates base fields on custom events', () => {
+    const result = safeValidateEvent(
+      createCustomEvent('not-a-uuid', 'acme.lint_result', {
+        warnings: 0,
+        errors: 0,
+      })
+    );
+
+    expect(isErr(result)).toBe(true);
+  });
+
+  it('leaves built-in events unaffected', () => {
+    const result = safeValidateEvent(
+      createTokensInEvent(sessionId, { count: 100 })
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(isCustomEvent(result.value)).toBe(false);
+    }
+  });
+
+  it('stores custom events and counts them in session metrics', () => {
+    const collector = new EventCollector();
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(
+      createCustomEvent(sessionId, 'acme.lint_result', {
+        warnings: 1,
+        errors: 0,
+      })
+    );
+    collector.emit(
+      createCustomEvent(sessionId, 'acme.lint_result', {
+        warnings: 0,
+        errors: 0,
+      })
+    );
+    collector.emit(createTokensInEvent(sessionId, { count: 100 }));
+
+    const session = collector.getSession(sessionId);
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(session.value.events.map((e) => e.eventType)).toEqual([
+        'session_start',
+        'acme.lint_result',
+        'acme.lint_result',
+        'tokens_in',
+      ]);
+    }
+
+    const metrics = collector.getMetrics(sessionId);
+    expect(isOk(metrics)).toBe(true);
+    if (isOk(metrics)) {
+      expect(metrics.value.customEventCounts).toEqual({
+        'acme.lint_result': 2,
+      });
+      expect(metrics.value.totalTokensIn).toBe(100);
+      expect(collector.recomputeMetrics(sessionId)).toEqual(metrics);
+    }
+  });
+});
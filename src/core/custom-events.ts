@@ -0,0 +1,133 @@
+/**
+ * Custom Event Types for RalphMeter
+ *
+ * Registry for namespaced event types (e.g. `acme.lint_result`) that
+ * extend the built-in event union with their own payload schemas.
+ */
+
+import type { z } from 'zod';
+import { type Result, ok, err } from '../shared/result.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Namespaced custom event type name: `<namespace>.<name>`
+ */
+export type CustomEventType = `${string}.${string}`;
+
+/**
+ * Error types for custom event registration
+ */
+export interface CustomEventError {
+  code: 'INVALID_EVENT_TYPE' | 'EVENT_TYPE_ALREADY_REGISTERED';
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Valid custom event type names: a lowercase namespace, a dot, and a
+ * lowercase name. Built-in event types never contain a dot.
+ */
+export const CUSTOM_EVENT_TYPE_PATTERN =
+  /^[a-z][a-z0-9_-]*\.[a-z][a-z0-9_.-]*$/;
+
+// ============================================================================
+// CustomEventRegistry Class
+// ============================================================================
+
+/**
+ * Payload schemas for custom event types, keyed by event type
+ */
+export class CustomEventRegistry {
+  /** Payload schemas by event type */
+  private schemas = new Map<string, z.ZodType>();
+
+  /**
+   * Registers a custom event type
+   *
+   * @param eventType - Namespaced event type (e.g. `acme.lint_result`)
+   * @param payloadSchema - Zod schema for the event payload
+   * @returns Success or error if the name is invalid or taken
+   */
+  register(
+    eventType: string,
+    payloadSchema: z.ZodType
+  ): Result<void, CustomEventError> {
+    if (!isCustomEventType(eventType)) {
+      return err({
+        code: 'INVALID_EVENT_TYPE',
+        message: `Invalid custom event type: ${eventType}. Expected <namespace>.<name>`,
+      });
+    }
+
+    if (this.schemas.has(eventType)) {
+      return err({
+        code: 'EVENT_TYPE_ALREADY_REGISTERED',
+        message: `Custom event type already registered: ${eventType}`,
+      });
+    }
+
+    this.schemas.set(eventType, payloadSchema);
+    return ok(undefined);
+  }
+
+  /**
+   * Removes a custom event type
+   *
+   * @returns True if the type was registered
+   */
+  unregister(eventType: string): boolean {
+    return this.schemas.delete(eventType);
+  }
+
+  /**
+   * Gets the payload schema for a custom event type
+   */
+  getPayloadSchema(eventType: string): z.ZodType | undefined {
+    return this.schemas.get(eventType);
+  }
+
+  /**
+   * Lists registered custom event types
+   */
+  list(): string[] {
+    return Array.from(this.schemas.keys());
+  }
+}
+
+// ============================================================================
+// Default Registry
+// ============================================================================
+
+/**
+ * Custom event types accepted by validateEvent and safeValidateEvent
+ */
+export const customEventTypes = new CustomEventRegistry();
+
+/**
+ * Registers a custom event type with the default registry
+ *
+ * @param eventType - Namespaced event type (e.g. `acme.lint_result`)
+ * @param payloadSchema - Zod schema for the event payload
+ * @returns Success or error if the name is invalid or taken
+ */
+export function registerCustomEventType(
+  eventType: string,
+  payloadSchema: z.ZodType
+): Result<void, CustomEventError> {
+  return customEventTypes.register(eventType, payloadSchema);
+}
+
+/**
+ * Checks whether a string is a valid custom event type name
+ */
+export function isCustomEventType(
+  eventType: string
+): eventType is CustomEventType {
+  return CUSTOM_EVENT_TYPE_PATTERN.test(eventType);
+}
@@ -0,0 +1,236 @@
+/**
+ * Tests for Compiler Diagnostic Clustering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clusterDiagnostics,
+  normalizeDiagnosticMessage,
+  describeDiagnosticCluster,
+} from './diagnostics.js';
+import { EventCollector } from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk, isErr } from '../shared/result.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+function iterationStart(iterationNumber: number, storyId: string): MeterEvent {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'iteration_start',
+    payload: { iterationNumber, storyId },
+  };
+}
+
+function iterationEnd(iterationNumber: number, storyId: string): MeterEvent {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'iteration_end',
+    payload: { iterationNumber, storyId, success: false },
+  };
+}
+
+function compileErrors(
+  errors: { file: string; message: string; code?: string }[]
+): MeterEvent {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'compilation_result',
+    payload: {
+      success: false,
+      errorCount: errors.length,
+      errors: errors.map((e) => ({ line: 1, ...e })),
+    },
+  };
+}
+
+function possiblyUndefined(name: string): {
+  file: string;
+  message: string;
+  code: string;
+} {
+  return {
+    file: 'src/a.ts',
+    message: `Object is possibly 'undefined'. Check '${name}'.`,
+    code: 'TS2532',
+  };
+}
+
+// ============================================================================
+// Normalization Tests
+// ============================================================================
+
+describe('normalizeDiagnosticMessage', () => {
+  it('replaces quoted identifiers and numbers', () => {
+    expect(
+      normalizeDiagnosticMessage(
+        'Type \'string\' is not assignable to type "number" at  index 3.'
+      )
+    ).toBe("Type '*' is not assignable to type '*' at index #.");
+  });
+});
+
+// ============================================================================
+// Clustering Tests
+// ============================================================================
+
+describe('clusterDiagnostics', () => {
+  it('groups diagnostics by story, code and normalized message', () => {
+    const clusters = clusterDiagnostics([
+      iterationStart(1, 'US-004'),
+      compileErrors([possiblyUndefined('user'), possiblyUndefined('items')]),
+      iterationEnd(1, 'US-004'),
+      iterationStart(2, 'US-004'),
+      compileErrors([
+        { ...possiblyUndefined('user'), file: 'src/b.ts' },
+        { file: 'src/a.ts', message: 'Cannot find name.', code: 'TS2304' },
+      ]),
+      iterationEnd(2, 'US-004'),
+    ]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({
+      code: 'TS2532',
+      storyId: 'US-004',
+      count: 3,
+      iterations: [1, 2],
+      files: ['src/a.ts', 'src/b.ts'],
+      sampleMessage: "Object is possibly 'undefined'. Check 'user'.",
+    });
+    expect(clusters[1]?.code).toBe('TS2304');
+  });
+
+  it('keeps the same diagnostic in different stories apart', () => {
+    const clusters = clusterDiagnostics([
+      iterationStart(1, 'US-001'),
+      compileErrors([possiblyUndefined('a')]),
+      iterationEnd(1, 'US-001'),
+      iterationStart(2, 'US-002'),
+      compileErrors([possiblyUndefined('a')]),
+      iterationEnd(2, 'US-002'),
+      compileErrors([possiblyUndefined('a')]),
+    ]);
+
+    expect(clusters.map((c) => c.storyId)).toEqual(['US-001', 'US-002', null]);
+  });
+
+  it('clusters diagnostics without a code by message', () => {
+    const clusters = clusterDiagnostics([
+      compileErrors([
+        { file: 'src/a.ts', message: "Unexpected token '}'" },
+        { file: 'src/a.ts', message: "Unexpected token ')'" },
+      ]),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]?.code).toBeNull();
+    expect(clusters[0]?.count).toBe(2);
+  });
+
+  it('filters by minimum occurrences', () => {
+    const clusters = clusterDiagnostics(
+      [
+        compileErrors([possiblyUndefined('a'), possiblyUndefined('b')]),
+        compileErrors([{ file: 'src/a.ts', message: 'Once', code: 'TS1000' }]),
+      ],
+      { minOccurrences: 2 }
+    );
+
+    expect(clusters.map((c) => c.code)).toEqual(['TS2532']);
+  });
+});
+
+describe('describeDiagnosticCluster', () => {
+  it('summarizes a cluster in one line', () => {
+    const [cluster] = clusterDiagnostics([
+      iterationStart(1, 'US-004'),
+      compileErrors(Array.from({ length: 14 }, () => possiblyUndefined('x'))),
+    ]);
+
+    expect(cluster && describeDiagnosticCluster(cluster)).toBe(
+      'hit TS2532 14 times in story US-004'
+    );
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector.getDiagnosticClusters', () => {
+  it('clusters the stored diagnostics of a session', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const events: MeterEvent[] = [
+      {
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'session_start',
+        payload: {},
+      },
+      iterationStart(1, 'US-001'),
+      compileErrors([possiblyUndefined('a')]),
+      compileErrors([possiblyUndefined('b')]),
+    ];
+    for (const event of events) {
+      collector.emit({ ...event, sessionId: id });
+    }
+
+    const result = collector.getDiagnosticClusters(id, { minOccurrences: 2 });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toHaveLength(1);
+      expect(result.value[0]?.count).toBe(2);
+    }
+  });
+
+  it('updates built clusters as diagnostics arrive', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const start: MeterEvent = {
+      timestamp: validTimestamp,
+      sessionId: id,
+      eventType: 'session_start',
+      payload: {},
+    };
+    collector.emit(start);
+    collector.emit({ ...iterationStart(1, 'US-001'), sessionId: id });
+    collector.emit({
+      ...compileErrors([possiblyUndefined('a')]),
+      sessionId: id,
+    });
+    const before = collector.getDiagnosticClusters(id);
+
+    collector.emit({ ...iterationEnd(1, 'US-001'), sessionId: id });
+    collector.emit({
+      ...compileErrors([possiblyUndefined('b')]),
+      sessionId: id,
+    });
+
+    const after = collector.getDiagnosticClusters(id);
+    expect(isOk(before) && before.value.map((c) => c.count)).toEqual([1]);
+    expect(isOk(after) && after.value.map((c) => [c.storyId, c.count])).toEqual(
+      [
+        ['US-001', 1],
+        [null, 1],
+      ]
+    );
+  });
+
+  it('returns error for non-existent session', () => {
+    const result = new EventCollector().getDiagnosticClusters(
+      createSessionId()
+    );
+
+    expect(isErr(result)).toBe(true);
+  });
+});
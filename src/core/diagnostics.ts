@@ -0,0 +1,224 @@
+/**
+ * Compiler Diagnostic Clustering for RalphMeter
+ *
+ * Groups recurring compilation diagnostics by code and normalized
+ * message within each story. The same error repeating across
+ * iterations is an early sign of a stuck agent loop.
+ */
+
+import type { MeterEvent } from './events.js';
+import { type IterationRef, advanceIteration } from './breakdown.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A group of diagnostics with the same code and normalized message
+ * reported while working on one story
+ */
+export interface DiagnosticCluster {
+  /** Diagnostic code (e.g. TS2532), or null if not reported */
+  code: string | null;
+  /** Message with quoted identifiers and numbers replaced by placeholders */
+  normalizedMessage: string;
+  /** Story of the iteration open when reported, or null if none */
+  storyId: string | null;
+  /** Number of times the diagnostic was reported */
+  count: number;
+  /** Distinct iterations the diagnostic was reported in */
+  iterations: number[];
+  /** Distinct files the diagnostic was reported in */
+  files: string[];
+  /** First reported message, before normalization */
+  sampleMessage: string;
+  /** Timestamp of the first occurrence */
+  firstSeen: string;
+  /** Timestamp of the latest occurrence */
+  lastSeen: string;
+}
+
+/**
+ * Diagnostic clustering state tracked per session
+ */
+export interface DiagnosticState {
+  /** Clusters keyed by story, code and normalized message */
+  clusters: Map<string, DiagnosticCluster>;
+  /** The open iteration, or null if none */
+  open: IterationRef | null;
+}
+
+/**
+ * Options for diagnostic clustering
+ */
+export interface DiagnosticClusterOptions {
+  /** Only return clusters seen at least this many times (defaults to 1) */
+  minOccurrences?: number;
+}
+
+// ============================================================================
+// Clustering Functions
+// ============================================================================
+
+/**
+ * Normalizes a diagnostic message so that occurrences differing only in
+ * identifiers, types or numbers cluster together
+ *
+ * @param message - The raw diagnostic message
+ * @returns The normalized message
+ */
+export function normalizeDiagnosticMessage(message: string): string {
+  return message
+    .replace(/'[^']*'|"[^"]*"|`[^`]*`/g, "'*'")
+    .replace(/\b\d+(\.\d+)?\b/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Creates the diagnostic clustering state for a new session
+ */
+export function createDiagnosticState(): DiagnosticState {
+  return { clusters: new Map(), open: null };
+}
+
+/**
+ * Adds an accepted event's compilation diagnostics to their clusters.
+ * Diagnostics are attributed to the story of the open iteration.
+ *
+ * @param state - State to update in place
+ * @param event - The accepted event
+ */
+export function applyEventToDiagnostics(
+  state: DiagnosticState,
+  event: MeterEvent
+): void {
+  state.open = advanceIteration(state.open, event);
+  if (event.eventType !== 'compilation_result') {
+    return;
+  }
+
+  const { open } = state;
+  for (const diagnostic of event.payload.errors ?? []) {
+    const code = diagnostic.code ?? null;
+    const normalizedMessage = normalizeDiagnosticMessage(diagnostic.message);
+    const storyId = open?.storyId ?? null;
+    const key = clusterKey({ storyId, code, normalizedMessage });
+
+    let cluster = state.clusters.get(key);
+    if (cluster === undefined) {
+      cluster = {
+        code,
+        normalizedMessage,
+        storyId,
+        count: 0,
+        iterations: [],
+        files: [],
+        sampleMessage: diagnostic.message,
+        firstSeen: event.timestamp,
+        lastSeen: event.timestamp,
+      };
+      state.clusters.set(key, cluster);
+    }
+
+    cluster.count++;
+    cluster.lastSeen = event.timestamp;
+    if (open !== null && !cluster.iterations.includes(open.iterationNumber)) {
+      cluster.iterations.push(open.iterationNumber);
+    }
+    if (!cluster.files.includes(diagnostic.file)) {
+      cluster.files.push(diagnostic.file);
+    }
+  }
+}
+
+/**
+ * Builds diagnostic clustering state by replaying a session's events
+ *
+ * @param events - All events in a session
+ * @param base - Clusters to start from, e.g. of events already compacted
+ * @param open - The iteration open before the first event, or null
+ * @returns The state after the last event
+ */
+export function buildDiagnosticState(
+  events: MeterEvent[],
+  base: DiagnosticCluster[] = [],
+  open: IterationRef | null = null
+): DiagnosticState {
+  const state: DiagnosticState = {
+    clusters: new Map(
+      structuredClone(base).map((cluster) => [clusterKey(cluster), cluster])
+    ),
+    open,
+  };
+  for (const event of events) {
+    applyEventToDiagnostics(state, event);
+  }
+  return state;
+}
+
+/**
+ * Gets the clusters seen often enough, most frequent first
+ *
+ * @param state - Diagnostic clustering state
+ * @param options - Clustering options
+ * @returns Clusters sorted by count (sharing objects with the state)
+ */
+export function summarizeDiagnostics(
+  state: DiagnosticState,
+  options: DiagnosticClusterOptions = {}
+): DiagnosticCluster[] {
+  const minOccurrences = options.minOccurrences ?? 1;
+  return Array.from(state.clusters.values())
+    .filter((cluster) => cluster.count >= minOccurrences)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Clusters the compilation diagnostics in a session's events
+ *
+ * @param events - All events in a session
+ * @param options - Clustering options
+ * @returns Clusters sorted by count, most frequent first
+ */
+export function clusterDiagnostics(
+  events: MeterEvent[],
+  options: DiagnosticClusterOptions = {}
+): DiagnosticCluster[] {
+  return summarizeDiagnostics(buildDiagnosticState(events), options);
+}
+
+/**
+ * Describes a cluster in one line,
+ * e.g. "hit TS2532 14 times in story US-004"
+ *
+ * @param cluster - The diagnostic cluster
+ * @returns Human-readable summary
+ */
+export function describeDiagnosticCluster(cluster: DiagnosticCluster): string {
+  const what = cluster.code ?? `"${cluster.normalizedMessage}"`;
+  const times = cluster.count === 1 ? 'once' : `${String(cluster.count)} times`;
+  const where =
+    cluster.storyId !== null
+      ? `in story ${cluster.storyId}`
+      : 'outside iterations';
+  return `hit ${what} ${times} ${where}`;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Gets the key a cluster is stored under: its story, code and normalized
+ * message
+ */
+function clusterKey(
+  cluster: Pick<DiagnosticCluster, 'storyId' | 'code' | 'normalizedMessage'>
+): string {
+  return JSON.stringify([
+    cluster.storyId,
+    cluster.code,
+    cluster.normalizedMessage,
+  ]);
+}
@@ -0,0 +1,309 @@
+/**
+ * Tests for NDJSON Event Log
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  EventLogSink,
+  listEventLogFiles,
+  replayEventLog,
+} from './event-log.js';
+import { EventCollector } from './collector.js';
+import { createSessionId } from './events.js';
+import { isOk } from '../shared/result.js';
+import {
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+  createTokensOutEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const nextDayTimestamp = '2026-01-31T09:00:00.000Z';
+
+function emitSession(collector: EventCollector, sessionId: string): void {
+  collector.emit(createSessionStartEvent(sessionId));
+  collector.emit(createTokensInEvent(sessionId, { count: 100 }));
+  collector.emit(createTokensOutEvent(sessionId, { count: 50 }));
+  collector.emit(
+    createSessionEndEvent(sessionId, { success: true }, nextDayTimestamp)
+  );
+}
+
+function readLines(file: string): unknown[] {
+  return fs
+    .readFileSync(file, 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line) as unknown);
+}
+
+// ============================================================================
+// EventLogSink Tests
+// ============================================================================
+
+describe('EventLogSink', () => {
+  let tempDir: string;
+  let sessionId: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-log-test-'));
+    sessionId = createSessionId();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes one file per session by default', () => {
+    const sink = new EventLogSink({ directory: tempDir });
+    const other = createSessionId();
+
+    sink.append(createSessionStartEvent(sessionId));
+    sink.append(createSessionStartEvent(other));
+    const file = sink.append(createTokensInEvent(sessionId, { count: 5 }));
+
+    expect(file).toBe(path.join(tempDir, `${sessionId}.ndjson`));
+    expect(readLines(file)).toHaveLength(2);
+    expect(sink.listFiles()).toHaveLength(2);
+  });
+
+  it('writes one file per UTC day when partitioned by day', () => {
+    const sink = new EventLogSink({ directory: tempDir, partitionBy: 'day' });
+
+    sink.append(createSessionStartEvent(sessionId));
+    sink.append(createTokensInEvent(sessionId, { count: 5 }, nextDayTimestamp));
+
+    expect(sink.listFiles().map((f) => path.basename(f))).toEqual([
+      '2026-01-30.ndjson',
+      '2026-01-31.ndjson',
+    ]);
+  });
+
+  it('rotates to a new segment when a file would exceed the size limit', () => {
+    const event = createTokensInEvent(sessionId, { count: 5 });
+    const lineBytes = Buffer.byteLength(`${JSON.stringify(event)}\n`);
+    const sink = new EventLogSink({
+      directory: tempDir,
+      maxFileBytes: lineBytes * 2,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      sink.append(event);
+    }
+
+    const files = sink.listFiles();
+    expect(files.map((f) => path.basename(f))).toEqual([
+      `${sessionId}.ndjson`,
+      `${sessionId}.1.ndjson`,
+      `${sessionId}.2.ndjson`,
+    ]);
+    expect(files.map((f) => readLines(f).length)).toEqual([2, 2, 1]);
+  });
+
+  it('resumes the newest segment after a restart', () => {
+    const event = createTokensInEvent(sessionId, { count: 5 });
+    const lineBytes = Buffer.byteLength(`${JSON.stringify(event)}\n`);
+    const options = { directory: tempDir, maxFileBytes: lineBytes * 2 };
+    const sink = new EventLogSink(options);
+    sink.append(event);
+    sink.append(event);
+    sink.append(event);
+
+    const restarted = new EventLogSink(options);
+    const file = restarted.append(event);
+
+    expect(path.basename(file)).toBe(`${sessionId}.1.ndjson`);
+    expect(readLines(file)).toHaveLength(2);
+  });
+
+  it('lists segments in key then segment order', () => {
+    for (const name of [
+      'b.ndjson',
+      'a.10.ndjson',
+      'a.2.ndjson',
+      'a.ndjson',
+      'notes.txt',
+    ]) {
+      fs.writeFileSync(path.join(tempDir, name), '');
+    }
+
+    expect(listEventLogFiles(tempDir).map((f) => path.basename(f))).toEqual([
+      'a.ndjson',
+      'a.2.ndjson',
+      'a.10.ndjson',
+      'b.ndjson',
+    ]);
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector event log', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-log-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('mirrors accepted events only', () => {
+    const eventLog = new EventLogSink({ directory: tempDir });
+    const collector = new EventCollector({ eventLog });
+    const sessionId = createSessionId();
+
+    emitSession(collector, sessionId);
+    collector.emit(createTokensInEvent(sessionId, { count: 1 }));
+    collector.emit(createTokensInEvent(sessionId, { count: -1 }));
+
+    const session = collector.getSession(sessionId);
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(readLines(path.join(tempDir, `${sessionId}.ndjson`))).toEqual(
+        session.value.events
+      );
+    }
+  });
+
+  it('reports write failures to onListenerError', () => {
+    const eventLog = new EventLogSink({ directory: tempDir });
+    const errors: unknown[] = [];
+    const collector = new EventCollector({
+      eventLog,
+      onListenerError: (error) => errors.push(error),
+    });
+    fs.rmSync(tempDir, { recursive: true, force: true });
+
+    const result = collector.emit(createSessionStartEvent(createSessionId()));
+
+    expect(isOk(result)).toBe(true);
+    expect(errors).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Replay Tests
+// ============================================================================
+
+describe('replayEventLog', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-log-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('rebuilds the same sessions and metrics', () => {
+    const eventLog = new EventLogSink({
+      directory: tempDir,
+      partitionBy: 'day',
+    });
+    const original = new EventCollector({ eventLog });
+    const first = createSessionId();
+    const second = createSessionId();
+    emitSession(original, first);
+    emitSession(original, second);
+
+    const replayed = new EventCollector();
+    const report = replayEventLog(replayed, tempDir);
+
+    expect(report.files).toHaveLength(2);
+    expect(report.linesRead).toBe(8);
+    expect(report.replayed).toBe(8);
+    expect(report.failures).toEqual([]);
+    expect(replayed.getAllSessions()).toEqual(original.getAllSessions());
+    expect(replayed.getMetrics(first)).toEqual(original.getMetrics(first));
+  });
+
+  it('replays parent sessions before their children', () => {
+    const eventLog = new EventLogSink({ directory: tempDir });
+    const original = new EventCollector({ eventLog });
+    const parent = createSessionId();
+    const child = createSessionId();
+    original.emit(createSessionStartEvent(parent));
+    original.emit(
+      createSessionStartEvent(
+        child,
+        { parentSessionId: parent },
+        '2026-01-30T12:05:00.000Z'
+      )
+    );
+
+    const replayed = new EventCollector();
+    const report = replayEventLog(replayed, eventLog.listFiles().reverse());
+
+    expect(report.failures).toEqual([]);
+    const children = replayed.getChildSessionIds(parent);
+    expect(isOk(children) && children.value).toEqual([child]);
+  });
+
+  it('registers projects before replaying their sessions', () => {
+    const api = { id: 'api', name: 'API', rootPath: '/repos/api' };
+    const eventLog = new EventLogSink({ directory: tempDir });
+    const original = new EventCollector({ eventLog });
+    original.registerProject(api);
+    const sessionId = createSessionId();
+    original.emit(createSessionStartEvent(sessionId, { projectId: 'api' }));
+    original.emit(createTokensInEvent(sessionId, { count: 10 }));
+
+    const without = replayEventLog(new EventCollector(), tempDir);
+    const replayed = new EventCollector();
+    const report = replayEventLog(replayed, tempDir, {
+      projects: [...original.listProjects(), { ...api, id: 'bad', name: '' }],
+    });
+
+    expect(without.failures.map((f) => f.code)).toEqual([
+      'PROJECT_NOT_FOUND',
+      'SESSION_NOT_FOUND',
+    ]);
+    expect(report.projects).toEqual(['api']);
+    expect(report.replayed).toBe(2);
+    expect(report.failures.map((f) => [f.file, f.line, f.code])).toEqual([
+      ['', 0, 'INVALID_PROJECT'],
+    ]);
+    const rollup = replayed.getProjectRollup('api');
+    expect(isOk(rollup) && rollup.value.metrics.totalTokensIn).toBe(10);
+  });
+
+  it('reports failing lines without aborting', () => {
+    const sessionId = createSessionId();
+    const file = path.join(tempDir, `${sessionId}.ndjson`);
+    fs.writeFileSync(
+      file,
+      [
+        JSON.stringify(createSessionStartEvent(sessionId)),
+        '{not json',
+        JSON.stringify(createTokensInEvent(sessionId, { count: -5 })),
+        '',
+        JSON.stringify(createTokensInEvent(sessionId, { count: 5 })),
+      ].join('\n')
+    );
+
+    const collector = new EventCollector();
+    const report = replayEventLog(collector, file);
+
+    expect(report.linesRead).toBe(4);
+    expect(report.replayed).toBe(2);
+    expect(report.failures.map((f) => [f.line, f.code])).toEqual([
+      [2, 'INVALID_JSON'],
+      [3, 'VALIDATION_ERROR'],
+    ]);
+    expect(report.failures[1]?.file).toBe(file);
+    const metrics = collector.getMetrics(sessionId);
+    expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(5);
+  });
+});
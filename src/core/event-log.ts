@@ -0,0 +1,416 @@
+/**
+ * NDJSON Event Log for RalphMeter
+ *
+ * Mirrors accepted events to append-only newline-delimited JSON files,
+ * one file per session or per day, rotated by size. Logs can be replayed
+ * through a collector to rebuild its state on another machine. Logs hold
+ * events only, so the projects sessions belong to are passed to the
+ * replay.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { MeterEvent } from './events.js';
+import type { EventCollector } from './collector.js';
+import type { Project } from './projects.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How events are split into log files
+ * - session: one log per session, named by session ID
+ * - day: one log per UTC day of the event timestamp, named YYYY-MM-DD
+ */
+export type EventLogPartition = 'session' | 'day';
+
+/**
+ * Configuration for an event log sink
+ */
+export interface EventLogOptions {
+  /** Directory for log files (created if missing) */
+  directory: string;
+  /** How events are split into files (defaults to 'session') */
+  partitionBy?: EventLogPartition;
+  /**
+   * Start a new segment once a file would exceed this many bytes
+   * (defaults to 10 MiB). A single event larger than this still gets
+   * written, alone in its segment.
+   */
+  maxFileBytes?: number;
+}
+
+/**
+ * The segment currently being appended to for a partition
+ */
+interface Segment {
+  /** Segment number (0 for the first file) */
+  index: number;
+  /** Current file size in bytes */
+  size: number;
+}
+
+/**
+ * Options for replaying event logs
+ */
+export interface EventLogReplayOptions {
+  /**
+   * Projects to register before any event is emitted, e.g. from
+   * listProjects() on the machine that wrote the logs. Projects the
+   * collector already has are kept.
+   */
+  projects?: Project[];
+}
+
+/**
+ * A log line, or a project from the replay options, that could not be
+ * replayed
+ */
+export interface EventLogReplayFailure {
+  /** Log file path ('' for a project) */
+  file: string;
+  /** 1-based line number within the file (0 for a project) */
+  line: number;
+  /**
+   * INVALID_JSON, or the collector error code from emit() or
+   * registerProject()
+   */
+  code: string;
+  /** Human-readable description */
+  message: string;
+  /** Additional details, such as validation issues */
+  details?: unknown;
+}
+
+/**
+ * Outcome of replaying event logs
+ */
+export interface EventLogReplayReport {
+  /** Log files read, in replay order */
+  files: string[];
+  /** Projects registered from the replay options */
+  projects: string[];
+  /** Non-empty lines read */
+  linesRead: number;
+  /** Events accepted by the collector */
+  replayed: number;
+  /** Lines that failed to parse, validate or emit */
+  failures: EventLogReplayFailure[];
+}
+
+/**
+ * A parsed log line waiting to be emitted
+ */
+interface LogLine {
+  file: string;
+  line: number;
+  data: unknown;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default maximum size of a log segment
+ */
+export const DEFAULT_MAX_LOG_FILE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * File extension of event log segments
+ */
+export const EVENT_LOG_EXTENSION = '.ndjson';
+
+/**
+ * Matches segment file names: `<key>.ndjson` or `<key>.<index>.ndjson`
+ */
+const SEGMENT_PATTERN = /^(.+?)(?:\.(\d+))?\.ndjson$/;
+
+// ============================================================================
+// EventLogSink Class
+// ============================================================================
+
+/**
+ * Appends events to NDJSON log files.
+ *
+ * Segments are never renamed: `<key>.ndjson` is the first segment and
+ * `<key>.1.ndjson`, `<key>.2.ndjson`, ... follow it. Appending resumes
+ * in the newest existing segment after a restart.
+ */
+export class EventLogSink {
+  /** Directory holding the log files */
+  readonly directory: string;
+
+  /** How events are split into files */
+  private readonly partitionBy: EventLogPartition;
+
+  /** Maximum segment size in bytes */
+  private readonly maxFileBytes: number;
+
+  /** Current segment per partition key, discovered on first write */
+  private segments = new Map<string, Segment>();
+
+  /**
+   * Creates a sink, creating its directory if needed
+   *
+   * @param options - Sink configuration
+   */
+  constructor(options: EventLogOptions) {
+    this.directory = options.directory;
+    this.partitionBy = options.partitionBy ?? 'session';
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_LOG_FILE_BYTES;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Appends an event as one line to its partition's current segment,
+   * starting a new segment if the line would exceed the size limit
+   *
+   * @param event - The accepted event
+   * @returns Path of the file written
+   */
+  append(event: MeterEvent): string {
+    const key = this.partitionKey(event);
+    const line = `${JSON.stringify(event)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    let segment = this.segments.get(key);
+    if (segment === undefined) {
+      segment = this.findLatestSegment(key);
+      this.segments.set(key, segment);
+    }
+    if (segment.size > 0 && segment.size + bytes > this.maxFileBytes) {
+      segment.index++;
+      segment.size = 0;
+    }
+
+    const file = this.segmentPath(key, segment.index);
+    fs.appendFileSync(file, line);
+    segment.size += bytes;
+    return file;
+  }
+
+  /**
+   * Lists this sink's log files in replay order
+   *
+   * @returns File paths within the sink directory
+   */
+  listFiles(): string[] {
+    return listEventLogFiles(this.directory);
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Gets the partition key for an event
+   */
+  private partitionKey(event: MeterEvent): string {
+    return this.partitionBy === 'day'
+      ? new Date(event.timestamp).toISOString().slice(0, 10)
+      : event.sessionId;
+  }
+
+  /**
+   * Gets the file path of a segment
+   */
+  private segmentPath(key: string, index: number): string {
+    const suffix = index === 0 ? '' : `.${String(index)}`;
+    return path.join(this.directory, `${key}${suffix}${EVENT_LOG_EXTENSION}`);
+  }
+
+  /**
+   * Finds the newest existing segment for a key, or a new first segment
+   */
+  private findLatestSegment(key: string): Segment {
+    let index = 0;
+    for (const name of fs.readdirSync(this.directory)) {
+      const parsed = parseSegmentName(name);
+      if (parsed?.key === key && parsed.index > index) {
+        index = parsed.index;
+      }
+    }
+    const file = this.segmentPath(key, index);
+    const size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+    return { index, size };
+  }
+}
+
+// ============================================================================
+// Replay Functions
+// ============================================================================
+
+/**
+ * Lists the event log files in a directory, ordered by partition key
+ * and then segment number
+ *
+ * @param directory - Directory containing log files
+ * @returns File paths in replay order
+ */
+export function listEventLogFiles(directory: string): string[] {
+  const segments: { file: string; key: string; index: number }[] = [];
+  for (const name of fs.readdirSync(directory)) {
+    const parsed = parseSegmentName(name);
+    if (parsed !== null) {
+      segments.push({ file: path.join(directory, name), ...parsed });
+    }
+  }
+  return segments
+    .sort((a, b) =>
+      a.key === b.key ? a.index - b.index : a.key < b.key ? -1 : 1
+    )
+    .map((segment) => segment.file);
+}
+
+/**
+ * Replays event logs through a collector's emit().
+ *
+ * Projects from the options are registered first, so session_start
+ * events that name them are accepted. Each session's events are emitted
+ * in log order, and sessions are emitted in order of their first
+ * event's timestamp so parent sessions exist before their children.
+ * Lines that are not valid JSON, fail validation or are rejected by the
+ * collector are reported instead of aborting the replay, as are invalid
+ * projects.
+ *
+ * @param collector - Collector to emit into
+ * @param source - A log directory, or log files in replay order
+ * @param options - Projects to register before replaying
+ * @returns Files read, projects registered, events replayed and failures
+ */
+export function replayEventLog(
+  collector: EventCollector,
+  source: string | string[],
+  options: EventLogReplayOptions = {}
+): EventLogReplayReport {
+  const files =
+    typeof source === 'string'
+      ? fs.statSync(source).isDirectory()
+        ? listEventLogFiles(source)
+        : [source]
+      : source;
+
+  const report: EventLogReplayReport = {
+    files,
+    projects: [],
+    linesRead: 0,
+    replayed: 0,
+    failures: [],
+  };
+  for (const project of options.projects ?? []) {
+    if (collector.getProject(project.id).ok) {
+      continue;
+    }
+    const result = collector.registerProject(project);
+    if (result.ok) {
+      report.projects.push(project.id);
+    } else {
+      report.failures.push({
+        file: '',
+        line: 0,
+        code: result.error.code,
+        message: result.error.message,
+      });
+    }
+  }
+  const bySession = new Map<string, LogLine[]>();
+  const unattributed: LogLine[] = [];
+
+  for (const file of files) {
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    lines.forEach((text, i) => {
+      if (text.trim() === '') {
+        return;
+      }
+      report.linesRead++;
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        report.failures.push({
+          file,
+          line: i + 1,
+          code: 'INVALID_JSON',
+          message: error instanceof Error ? error.message : 'Invalid JSON',
+        });
+        return;
+      }
+
+      const entry = { file, line: i + 1, data };
+      const sessionId = readField(data, 'sessionId');
+      if (sessionId === undefined) {
+        unattributed.push(entry);
+        return;
+      }
+      const group = bySession.get(sessionId);
+      if (group === undefined) {
+        bySession.set(sessionId, [entry]);
+      } else {
+        group.push(entry);
+      }
+    });
+  }
+
+  const groups = Array.from(bySession.values()).sort((a, b) => {
+    const [x, y] = [firstTimestamp(a), firstTimestamp(b)];
+    return x === y ? 0 : x < y ? -1 : 1;
+  });
+  for (const entry of [...groups.flat(), ...unattributed]) {
+    const result = collector.emit(entry.data);
+    if (result.ok) {
+      report.replayed++;
+    } else {
+      report.failures.push({
+        file: entry.file,
+        line: entry.line,
+        code: result.error.code,
+        message: result.error.message,
+        ...(result.error.details !== undefined && {
+          details: result.error.details,
+        }),
+      });
+    }
+  }
+
+  return report;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Parses a segment file name into its partition key and segment number
+ */
+function parseSegmentName(name: string): { key: string; index: number } | null {
+  const match = SEGMENT_PATTERN.exec(name);
+  if (match?.[1] === undefined) {
+    return null;
+  }
+  return {
+    key: match[1],
+    index: match[2] === undefined ? 0 : Number(match[2]),
+  };
+}
+
+/**
+ * Reads a string field from parsed JSON, if present
+ */
+function readField(data: unknown, field: string): string | undefined {
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const value = (data as Record<string, unknown>)[field];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Gets the timestamp of a session's first logged event in milliseconds
+ * (unparseable timestamps sort last)
+ */
+function firstTimestamp(lines: LogLine[]): number {
+  const timestamp = Date.parse(readField(lines[0]?.data, 'timestamp') ?? '');
+  return Number.isNaN(timestamp) ? Number.POSITIVE_INFINITY : timestamp;
+}
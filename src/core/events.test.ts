@@ -17,6 +17,8 @@ import {
   CompilationResultEventSchema,
   TestResultEventSchema,
   StoryCompleteEventSchema,
+  ToolCallEventSchema,
+  FileChangeEventSchema,
   MeterEventSchema,
   type MeterEvent,
 } from './events.js';
@@ -204,6 +206,26 @@ describe('TokensInEventSchema', () => {
     expect(result.success).toBe(true);
   });
 
+  it('validates tokens_in with prompt cache counts', () => {
+    const event = createBaseEvent('tokens_in', {
+      count: 1000,
+      cacheReadCount: 800,
+      cacheCreationCount: 150,
+    });
+    const result = TokensInEventSchema.safeParse(event);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects cache counts larger than the total count', () => {
+    const event = createBaseEvent('tokens_in', {
+      count: 100,
+      cacheReadCount: 80,
+      cacheCreationCount: 30,
+    });
+    const result = TokensInEventSchema.safeParse(event);
+    expect(result.success).toBe(false);
+  });
+
   it('rejects negative token count', () => {
     const event = createBaseEvent('tokens_in', {
       count: -1,
@@ -312,6 +334,43 @@ describe('TestResultEventSchema', () => {
     const result = TestResultEventSchema.safeParse(event);
     expect(result.success).toBe(false);
   });
+
+  it('validates a test_result with test cases', () => {
+    const event = createBaseEvent('test_result', {
+      success: false,
+      totalTests: 2,
+      passed: 1,
+      failed: 1,
+      testCases: [
+        {
+          file: 'src/a.test.ts',
+          name: 'adds',
+          status: 'passed',
+          durationMs: 3,
+        },
+        {
+          file: 'src/a.test.ts',
+          name: 'subtracts',
+          status: 'failed',
+          failureMessage: 'expected 1 to be 2',
+        },
+      ],
+    });
+    const result = TestResultEventSchema.safeParse(event);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an unknown test case status', () => {
+    const event = createBaseEvent('test_result', {
+      success: true,
+      totalTests: 1,
+      passed: 1,
+      failed: 0,
+      testCases: [{ file: 'src/a.test.ts', name: 'adds', status: 'todo' }],
+    });
+    const result = TestResultEventSchema.safeParse(event);
+    expect(result.success).toBe(false);
+  });
 });
 
 // ============================================================================
@@ -339,6 +398,93 @@ describe('StoryCompleteEventSchema', () => {
   });
 });
 
+// ============================================================================
+// Tool Call Event Tests
+// ============================================================================
+
+describe('ToolCallEventSchema', () => {
+  it('validates a valid tool_call event', () => {
+    const event = createBaseEvent('tool_call', {
+      toolName: 'Bash',
+      target: 'npm test',
+      durationMs: 1250,
+      success: false,
+      errorMessage: 'exit code 1',
+      iterationNumber: 2,
+      storyId: 'US-001',
+    });
+    const result = ToolCallEventSchema.safeParse(event);
+    expect(result.success).toBe(true);
+  });
+
+  it('validates tool_call without optional fields', () => {
+    const event = createBaseEvent('tool_call', {
+      toolName: 'Read',
+      durationMs: 0,
+      success: true,
+    });
+    const result = ToolCallEventSchema.safeParse(event);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects empty tool name and negative duration', () => {
+    const noName = createBaseEvent('tool_call', {
+      toolName: '',
+      durationMs: 10,
+      success: true,
+    });
+    const negative = createBaseEvent('tool_call', {
+      toolName: 'Edit',
+      durationMs: -1,
+      success: true,
+    });
+    expect(ToolCallEventSchema.safeParse(noName).success).toBe(false);
+    expect(ToolCallEventSchema.safeParse(negative).success).toBe(false);
+  });
+});
+
+// ============================================================================
+// File Change Event Tests
+// ============================================================================
+
+describe('FileChangeEventSchema', () => {
+  it('validates a valid file_change event', () => {
+    const event = createBaseEvent('file_change', {
+      filePath: 'src/core/loc.ts',
+      linesAdded: 40,
+      linesDeleted: 12,
+      hashBefore: 'abc123',
+      hashAfter: 'def456',
+      storyId: 'US-003',
+      iterationNumber: 4,
+    });
+    const result = FileChangeEventSchema.safeParse(event);
+    expect(result.success).toBe(true);
+  });
+
+  it('validates a new file without hashBefore', () => {
+    const event = createBaseEvent('file_change', {
+      filePath: 'src/new.ts',
+      linesAdded: 10,
+      linesDeleted: 0,
+      hashAfter: 'def456',
+      storyId: 'US-003',
+    });
+    const result = FileChangeEventSchema.safeParse(event);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects file_change without a story', () => {
+    const event = createBaseEvent('file_change', {
+      filePath: 'src/new.ts',
+      linesAdded: 10,
+      linesDeleted: 0,
+    });
+    const result = FileChangeEventSchema.safeParse(event);
+    expect(result.success).toBe(false);
+  });
+});
+
 // ============================================================================
 // Union Schema (MeterEventSchema) Tests
 // ============================================================================
@@ -400,6 +546,23 @@ describe('MeterEventSchema', () => {
         eventType: 'story_complete',
         payload: { storyId: 'US-001', passes: true },
       },
+      {
+        timestamp: validTimestamp,
+        sessionId: validSessionId,
+        eventType: 'tool_call',
+        payload: { toolName: 'Grep', durationMs: 15, success: true },
+      },
+      {
+        timestamp: validTimestamp,
+        sessionId: validSessionId,
+        eventType: 'file_change',
+        payload: {
+          filePath: 'src/a.ts',
+          linesAdded: 1,
+          linesDeleted: 0,
+          storyId: 'US-001',
+        },
+      },
     ];
 
     for (const event of events) {
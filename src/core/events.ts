@@ -6,7 +6,9 @@
  */
 
 import { z } from 'zod';
-import { type Result, ok, err } from '../shared/result.js';
+import { type Result, ok, err, isOk, isErr } from '../shared/result.js';
+import { CURRENT_SCHEMA_VERSION, eventUpcasters } from './versioning.js';
+import { customEventTypes, isCustomEventType } from './custom-events.js';
 
 // ============================================================================
 // Base Schema Components
@@ -26,6 +28,10 @@ const TimestampSchema = z.iso.datetime();
  * Base event fields present on all events
  */
 const BaseEventSchema = z.object({
+  /** Event schema version; omitted by producers that predate versioning */
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION).optional(),
+  /** Client-supplied ID, unique within the session, for idempotent retries */
+  eventId: z.string().min(1).max(256).optional(),
   timestamp: TimestampSchema,
   sessionId: UUIDSchema,
 });
@@ -42,6 +48,10 @@ export const SessionStartEventSchema = BaseEventSchema.extend({
   payload: z.object({
     /** Optional tags for arbitrary metadata (mode, methodology, A/B tests, etc.) */
     tags: z.record(z.string(), z.string()).optional(),
+    /** Session that spawned this one (e.g. the orchestrator of a sub-agent) */
+    parentSessionId: UUIDSchema.optional(),
+    /** Project the session belongs to (must be registered with the collector) */
+    projectId: z.string().min(1).max(256).optional(),
   }),
 });
 
@@ -91,12 +101,21 @@ export const IterationEndEventSchema = BaseEventSchema.extend({
  */
 export const TokensInEventSchema = BaseEventSchema.extend({
   eventType: z.literal('tokens_in'),
-  payload: z.object({
-    /** Number of input tokens */
-    count: z.number().int().nonnegative(),
-    /** Optional model identifier */
-    model: z.string().optional(),
-  }),
+  payload: z
+    .object({
+      /** Number of input tokens, including cache reads and cache writes */
+      count: z.number().int().nonnegative(),
+      /** Optional model identifier */
+      model: z.string().optional(),
+      /** Input tokens served from the prompt cache */
+      cacheReadCount: z.number().int().nonnegative().optional(),
+      /** Input tokens written to the prompt cache */
+      cacheCreationCount: z.number().int().nonnegative().optional(),
+    })
+    .refine(
+      (p) => (p.cacheReadCount ?? 0) + (p.cacheCreationCount ?? 0) <= p.count,
+      { message: 'Cache token counts cannot exceed the total input count' }
+    ),
 });
 
 /**
@@ -130,6 +149,12 @@ export const CompilationResultEventSchema = BaseEventSchema.extend({
           line: z.number().int().positive(),
           column: z.number().int().nonnegative().optional(),
           message: z.string(),
+          /** Diagnostic code (e.g. TS2322) */
+          code: z.string().optional(),
+          /** Diagnostic severity */
+          severity: z.enum(['error', 'warning', 'info']).optional(),
+          /** Tool that produced the diagnostic (e.g. tsc, eslint) */
+          source: z.string().optional(),
         })
       )
       .optional(),
@@ -154,6 +179,23 @@ export const TestResultEventSchema = BaseEventSchema.extend({
     skipped: z.number().int().nonnegative().optional(),
     /** Coverage percentage (if available) */
     coveragePercent: z.number().min(0).max(100).optional(),
+    /** Individual test case outcomes (if available) */
+    testCases: z
+      .array(
+        z.object({
+          /** Test file path */
+          file: z.string(),
+          /** Full test name (including describe blocks) */
+          name: z.string().min(1),
+          /** Outcome of the test */
+          status: z.enum(['passed', 'failed', 'skipped']),
+          /** Test duration in milliseconds */
+          durationMs: z.number().nonnegative().optional(),
+          /** Failure message (if failed) */
+          failureMessage: z.string().optional(),
+        })
+      )
+      .optional(),
   }),
 });
 
@@ -172,12 +214,70 @@ export const StoryCompleteEventSchema = BaseEventSchema.extend({
   }),
 });
 
+/**
+ * Tool call event - records a single tool invocation by the agent
+ * (file read, shell command, edit, search, etc.)
+ */
+export const ToolCallEventSchema = BaseEventSchema.extend({
+  eventType: z.literal('tool_call'),
+  payload: z.object({
+    /** Name of the tool (e.g. Read, Bash, Edit, Grep) */
+    toolName: z.string().min(1),
+    /** What the tool acted on, such as a file path or command */
+    target: z.string().optional(),
+    /** How long the call took in milliseconds */
+    durationMs: z.number().nonnegative(),
+    /** Whether the call succeeded */
+    success: z.boolean(),
+    /** Error message (if failed) */
+    errorMessage: z.string().optional(),
+    /** The iteration this call belongs to */
+    iterationNumber: z.number().int().positive().optional(),
+    /** The story this call belongs to */
+    storyId: z.string().optional(),
+  }),
+});
+
+/**
+ * File change event - records lines added and deleted in one file
+ */
+export const FileChangeEventSchema = BaseEventSchema.extend({
+  eventType: z.literal('file_change'),
+  payload: z.object({
+    /** Path of the changed file */
+    filePath: z.string().min(1),
+    /** Lines added */
+    linesAdded: z.number().int().nonnegative(),
+    /** Lines deleted */
+    linesDeleted: z.number().int().nonnegative(),
+    /** Content hash before the change (absent for new files) */
+    hashBefore: z.string().optional(),
+    /** Content hash after the change (absent for deleted files) */
+    hashAfter: z.string().optional(),
+    /** The story this change belongs to */
+    storyId: z.string(),
+    /** The iteration this change belongs to */
+    iterationNumber: z.number().int().positive().optional(),
+  }),
+});
+
+/**
+ * Custom event - a registered namespaced event type (e.g. `acme.lint_result`).
+ * The payload is checked against the type's registered schema on validation.
+ */
+export const CustomEventSchema = BaseEventSchema.extend({
+  eventType: z
+    .templateLiteral([z.string(), '.', z.string()])
+    .refine(isCustomEventType, 'Invalid custom event type'),
+  payload: z.unknown(),
+});
+
 // ============================================================================
 // Union Schema for All Events
 // ============================================================================
 
 /**
- * Union of all event schemas
+ * Union of all built-in event schemas
  */
 export const MeterEventSchema = z.discriminatedUnion('eventType', [
   SessionStartEventSchema,
@@ -189,6 +289,8 @@ export const MeterEventSchema = z.discriminatedUnion('eventType', [
   CompilationResultEventSchema,
   TestResultEventSchema,
   StoryCompleteEventSchema,
+  ToolCallEventSchema,
+  FileChangeEventSchema,
 ]);
 
 // ============================================================================
@@ -205,12 +307,23 @@ export type CompilationResultEvent = z.infer<
   typeof CompilationResultEventSchema
 >;
 export type TestResultEvent = z.infer<typeof TestResultEventSchema>;
+export type TestCase = NonNullable<
+  TestResultEvent['payload']['testCases']
+>[number];
 export type StoryCompleteEvent = z.infer<typeof StoryCompleteEventSchema>;
+export type ToolCallEvent = z.infer<typeof ToolCallEventSchema>;
+export type FileChangeEvent = z.infer<typeof FileChangeEventSchema>;
+export type CustomEvent = z.infer<typeof CustomEventSchema>;
 
 /**
- * Union type of all meter events
+ * Union type of all built-in meter events
  */
-export type MeterEvent = z.infer<typeof MeterEventSchema>;
+export type BuiltinMeterEvent = z.infer<typeof MeterEventSchema>;
+
+/**
+ * Union type of all meter events, including custom events
+ */
+export type MeterEvent = BuiltinMeterEvent | CustomEvent;
 
 /**
  * All possible event types
@@ -231,13 +344,18 @@ export interface ValidationError {
 
 /**
  * Validates an event and throws if invalid.
+ * Events from older schema versions are upcast before validation.
  *
  * @param data - The data to validate as an event
  * @returns The validated event
  * @throws {z.ZodError} If validation fails
  */
 export function validateEvent(data: unknown): MeterEvent {
-  return MeterEventSchema.parse(data);
+  const result = parseEvent(data);
+  if (isErr(result)) {
+    throw new z.ZodError(result.error);
+  }
+  return result.value;
 }
 
 /**
@@ -249,22 +367,87 @@ export function validateEvent(data: unknown): MeterEvent {
 export function safeValidateEvent(
   data: unknown
 ): Result<MeterEvent, ValidationError> {
-  const result = MeterEventSchema.safeParse(data);
+  const result = parseEvent(data);
 
-  if (result.success) {
-    return ok(result.data);
+  if (isOk(result)) {
+    return result;
   }
 
   return err({
     message: 'Event validation failed',
-    issues: result.error.issues,
+    issues: result.error,
   });
 }
 
+/**
+ * Upcasts and parses an event against the built-in union, or against
+ * its registered payload schema for custom event types
+ */
+function parseEvent(data: unknown): Result<MeterEvent, z.core.$ZodIssue[]> {
+  const upcast = eventUpcasters.upcast(data);
+  if (isErr(upcast)) {
+    return err([
+      {
+        code: 'custom',
+        path: ['schemaVersion'],
+        message: upcast.error.message,
+        input: data,
+      },
+    ]);
+  }
+
+  const event = upcast.value;
+  const eventType =
+    typeof event === 'object' && event !== null && 'eventType' in event
+      ? event.eventType
+      : undefined;
+
+  if (typeof eventType !== 'string' || !isCustomEventType(eventType)) {
+    const result = MeterEventSchema.safeParse(event);
+    return result.success ? ok(result.data) : err(result.error.issues);
+  }
+
+  const payloadSchema = customEventTypes.getPayloadSchema(eventType);
+  if (payloadSchema === undefined) {
+    return err([
+      {
+        code: 'custom',
+        path: ['eventType'],
+        message: `Unregistered custom event type: ${eventType}`,
+        input: eventType,
+      },
+    ]);
+  }
+
+  const base = CustomEventSchema.safeParse(event);
+  if (!base.success) {
+    return err(base.error.issues);
+  }
+
+  const payload = payloadSchema.safeParse(base.data.payload);
+  if (!payload.success) {
+    return err(
+      payload.error.issues.map((issue) => ({
+        ...issue,
+        path: ['payload', ...issue.path],
+      }))
+    );
+  }
+
+  return ok({ ...base.data, payload: payload.data });
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Checks whether an event is a custom (namespaced) event
+ */
+export function isCustomEvent(event: MeterEvent): event is CustomEvent {
+  return isCustomEventType(event.eventType);
+}
+
 /**
  * Creates a timestamp string in ISO 8601 format
  */
@@ -199,6 +199,24 @@ describe('GateTracker', () => {
       }
     });
 
+    it('only returns results recorded by an as-of timestamp', () => {
+      tracker.record(
+        testSessionId,
+        createCompileResult('src/a.ts', [{ lineNumber: 1, passed: true }])
+      );
+      tracker.record(testSessionId, {
+        ...createCompileResult('src/a.ts', [{ lineNumber: 2, passed: false }]),
+        timestamp: '2026-01-30T13:00:00.000Z',
+      });
+
+      const results = tracker.getResults(testSessionId, validTimestamp);
+      const stats = tracker.getSessionStats(testSessionId, validTimestamp);
+
+      expect(isOk(results) && results.value).toHaveLength(1);
+      expect(isOk(stats) && stats.value.totalLinesChecked).toBe(1);
+      expect(isOk(stats) && stats.value.overallPoE).toBe(0);
+    });
+
     it('returns error for non-existent session', () => {
       const results = tracker.getResults('non-existent');
       expect(isErr(results)).toBe(true);
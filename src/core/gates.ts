@@ -219,10 +219,12 @@ export class GateTracker {
    * Gets all verification results for a session
    *
    * @param sessionId - The session ID
+   * @param asOf - Only include results recorded at or before this ISO timestamp
    * @returns All results for the session, or error if session not found
    */
   getResults(
-    sessionId: string
+    sessionId: string,
+    asOf?: string
   ): Result<GateVerificationResult[], GateTrackerError> {
     const results = this.results.get(sessionId);
     if (results === undefined) {
@@ -231,7 +233,11 @@ export class GateTracker {
         message: `No results found for session: ${sessionId}`,
       });
     }
-    return ok(results);
+    if (asOf === undefined) {
+      return ok(results);
+    }
+    const cutoff = Date.parse(asOf);
+    return ok(results.filter((r) => Date.parse(r.timestamp) <= cutoff));
   }
 
   /**
@@ -239,13 +245,15 @@ export class GateTracker {
    *
    * @param sessionId - The session ID
    * @param gate - The gate to get stats for
+   * @param asOf - Only include results recorded at or before this ISO timestamp
    * @returns Gate statistics or error
    */
   getGateStats(
     sessionId: string,
-    gate: Gate
+    gate: Gate,
+    asOf?: string
   ): Result<GateStats, GateTrackerError> {
-    const resultsResult = this.getResults(sessionId);
+    const resultsResult = this.getResults(sessionId, asOf);
     if (!resultsResult.ok) {
       return resultsResult;
     }
@@ -287,12 +295,14 @@ export class GateTracker {
    * Gets overall session statistics across all gates
    *
    * @param sessionId - The session ID
+   * @param asOf - Only include results recorded at or before this ISO timestamp
    * @returns Session-level statistics or error
    */
   getSessionStats(
-    sessionId: string
+    sessionId: string,
+    asOf?: string
   ): Result<SessionGateStats, GateTrackerError> {
-    const resultsResult = this.getResults(sessionId);
+    const resultsResult = this.getResults(sessionId, asOf);
     if (!resultsResult.ok) {
       return resultsResult;
     }
@@ -305,14 +315,14 @@ export class GateTracker {
     };
 
     for (const gate of ALL_GATES) {
-      const statsResult = this.getGateStats(sessionId, gate);
+      const statsResult = this.getGateStats(sessionId, gate, asOf);
       if (statsResult.ok) {
         perGate[gate] = statsResult.value;
       }
     }
 
     // Get line verification to calculate verified lines
-    const lineVerification = this.buildLineVerificationMap(sessionId);
+    const lineVerification = this.buildLineVerificationMap(resultsResult.value);
     const totalLinesChecked = lineVerification.size;
 
     let verifiedLines = 0;
@@ -364,7 +374,7 @@ export class GateTracker {
       return resultsResult;
     }
 
-    const allLineStatus = this.buildLineVerificationMap(sessionId);
+    const allLineStatus = this.buildLineVerificationMap(resultsResult.value);
     const fileLines: LineVerificationStatus[] = [];
 
     for (const [key, status] of allLineStatus) {
@@ -424,13 +434,12 @@ export class GateTracker {
   // ============================================================================
 
   /**
-   * Builds a map of all line verification statuses for a session
+   * Builds a map of all line verification statuses from a session's results
    */
   private buildLineVerificationMap(
-    sessionId: string
+    results: GateVerificationResult[]
   ): Map<string, LineVerificationStatus> {
     const lineMap = new Map<string, LineVerificationStatus>();
-    const results = this.results.get(sessionId) ?? [];
 
     for (const result of results) {
       for (const lr of result.lineResults) {
@@ -5,7 +5,26 @@
  */
 
 export * from './events.js';
+export * from './versioning.js';
+export * from './custom-events.js';
 export * from './collector.js';
+export * from './aggregates.js';
+export * from './store.js';
+export * from './sqlite-store.js';
+export * from './ordering.js';
+export * from './timeline.js';
+export * from './subscriptions.js';
+export * from './query.js';
+export * from './test-history.js';
+export * from './diagnostics.js';
+export * from './breakdown.js';
+export * from './stuck-detection.js';
+export * from './budgets.js';
+export * from './event-log.js';
+export * from './snapshot.js';
+export * from './retention.js';
+export * from './projects.js';
 export * from './loc.js';
 export * from './gates.js';
 export * from './metrics.js';
+export * from './pricing.js';
@@ -9,6 +9,7 @@ import { GateTracker } from './gates.js';
 import { LOCCounter, type CodebaseSnapshot, type LOCResult } from './loc.js';
 import { createSessionId } from './events.js';
 import { isOk, isErr } from '../shared/result.js';
+import { fixedClock } from '../shared/clock.js';
 
 // ============================================================================
 // Test Fixtures
@@ -308,6 +309,82 @@ describe('MetricsCalculator', () => {
       }
     });
 
+    it('stops the duration of abandoned sessions at the last event', () => {
+      collector = new EventCollector({ inactivityTimeoutMs: 60_000 });
+      calculator = new MetricsCalculator(collector, gateTracker, locCounter);
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 100),
+        timestamp: '2026-01-30T12:10:00.000Z',
+      });
+      collector.abandonStaleSessions(Date.parse('2026-01-31T00:00:00.000Z'));
+
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalMinutes).toBe(10);
+      }
+    });
+
+    it('measures active sessions up to the injected clock', () => {
+      calculator = new MetricsCalculator(collector, gateTracker, locCounter, {
+        clock: fixedClock('2026-01-30T12:20:00.000Z'),
+      });
+      collector.emit(createSessionStartEvent(sessionId));
+
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalMinutes).toBe(20);
+        expect(result.value.locPerMinute).toBe(5);
+      }
+    });
+
+    it("defaults to the collector's clock", () => {
+      collector = new EventCollector({
+        clock: fixedClock('2026-01-30T12:15:00.000Z'),
+      });
+      calculator = new MetricsCalculator(collector, gateTracker, locCounter);
+      collector.emit(createSessionStartEvent(sessionId));
+
+      const result = calculator.calculate(
+        sessionId,
+        createCodebaseSnapshot({ total: 100, code: 80, comments: 10, blank: 10 })
+      );
+
+      expect(isOk(result) && result.value.totalMinutes).toBe(15);
+    });
+
+    it('never reports a negative duration for a clock behind the start', () => {
+      calculator = new MetricsCalculator(collector, gateTracker, locCounter, {
+        clock: fixedClock('2026-01-30T11:50:00.000Z'),
+      });
+      collector.emit(createSessionStartEvent(sessionId));
+
+      const result = calculator.calculate(
+        sessionId,
+        createCodebaseSnapshot({ total: 100, code: 80, comments: 10, blank: 10 })
+      );
+
+      expect(isOk(result) && result.value.totalMinutes).toBe(0);
+    });
+
     it('calculates LOC per minute', () => {
       collector.emit(createSessionStartEvent(sessionId));
       collector.emit(createSessionEndEvent(sessionId, true));
@@ -414,6 +491,509 @@ describe('MetricsCalculator', () => {
     });
   });
 
+  // ==========================================================================
+  // Prompt Cache Tests
+  // ==========================================================================
+
+  describe('effective Synth', () => {
+    function emitCachedTokens(): void {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 10000),
+        payload: { count: 10000, cacheReadCount: 8000, cacheCreationCount: 1000 },
+      });
+      collector.emit(createTokensOutEvent(sessionId, 2000));
+    }
+
+    const snapshot = createCodebaseSnapshot({
+      total: 100,
+      code: 80,
+      comments: 10,
+      blank: 10,
+    });
+
+    it('carries cache token counts through session metrics', () => {
+      emitCachedTokens();
+
+      const result = collector.getMetrics(sessionId);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalTokensIn).toBe(10000);
+        expect(result.value.totalCacheReadTokens).toBe(8000);
+        expect(result.value.totalCacheCreationTokens).toBe(1000);
+      }
+    });
+
+    it('reports raw and cache-weighted Synth', () => {
+      emitCachedTokens();
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        // Raw: 12000 / 100
+        expect(result.value.tokensPerLOC).toBe(120);
+        // Effective: 1000 fresh + 8000 * 0.1 + 1000 * 1.25 + 2000 out = 5050
+        expect(result.value.effectiveTokens).toBeCloseTo(5050, 10);
+        expect(result.value.effectiveTokensPerLOC).toBeCloseTo(50.5, 10);
+      }
+    });
+
+    it('uses configured cache weights', () => {
+      emitCachedTokens();
+      calculator.setCacheWeights({ cacheRead: 1, cacheCreation: 1 });
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.effectiveTokensPerLOC).toBe(
+          result.value.tokensPerLOC
+        );
+      }
+    });
+
+    it('equals raw Synth when no tokens are cached', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createTokensInEvent(sessionId, 3000));
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      if (isOk(result)) {
+        expect(result.value.effectiveTokensPerLOC).toBe(30);
+        expect(result.value.tokensPerLOC).toBe(30);
+      }
+    });
+  });
+
+  // ==========================================================================
+  // Cost Tests
+  // ==========================================================================
+
+  describe('cost metrics', () => {
+    const pricing = {
+      models: {
+        'model-large': { inputPerMillion: 15, outputPerMillion: 75 },
+        'model-small': { inputPerMillion: 3, outputPerMillion: 15 },
+      },
+    };
+
+    function emitModelTokens(): void {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 1_000_000),
+        payload: { count: 1_000_000, model: 'model-large' },
+      });
+      collector.emit({
+        ...createTokensOutEvent(sessionId, 100_000),
+        payload: { count: 100_000, model: 'model-large' },
+      });
+      collector.emit({
+        ...createTokensInEvent(sessionId, 2_000_000),
+        payload: { count: 2_000_000, model: 'model-small' },
+      });
+    }
+
+    it('reports zero cost without a pricing table', () => {
+      emitModelTokens();
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalCost).toBe(0);
+        expect(result.value.costPerLOC).toBe(0);
+      }
+    });
+
+    it('calculates total, per-model and per-LOC cost', () => {
+      collector.setPricing(pricing);
+      emitModelTokens();
+      gateTracker.record(sessionId, {
+        timestamp: validTimestamp,
+        gate: 'G1_COMPILE',
+        filePath: '/test/file.ts',
+        lineResults: [
+          { lineNumber: 1, passed: true },
+          { lineNumber: 2, passed: true },
+        ],
+      });
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const result = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        // large: 15 + 7.5, small: 6
+        expect(result.value.totalCost).toBeCloseTo(28.5, 10);
+        expect(result.value.costByModel['model-large']).toBeCloseTo(22.5, 10);
+        expect(result.value.costByModel['model-small']).toBeCloseTo(6, 10);
+        expect(result.value.costPerLOC).toBeCloseTo(0.285, 10);
+        expect(result.value.costPerVerifiedLOC).toBeCloseTo(14.25, 10);
+      }
+    });
+
+    it('includes a cost section in the formatted report', () => {
+      collector.setPricing(pricing);
+      emitModelTokens();
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const result = calculator.formatReport(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toContain('COST METRICS');
+        expect(result.value).toContain('$28.50');
+        expect(result.value).toContain('model-large');
+      }
+    });
+  });
+
+  // ==========================================================================
+  // Story Delta Tests
+  // ==========================================================================
+
+  describe('getStoryDeltas', () => {
+    function iterationStart(
+      iterationNumber: number,
+      storyId: string
+    ): Record<string, unknown> {
+      return {
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'iteration_start',
+        payload: { iterationNumber, storyId },
+      };
+    }
+
+    function fileChange(
+      storyId: string,
+      linesAdded: number,
+      linesDeleted: number
+    ): Record<string, unknown> {
+      return {
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'file_change',
+        payload: { filePath: 'src/a.ts', storyId, linesAdded, linesDeleted },
+      };
+    }
+
+    it('returns error for non-existent session', () => {
+      const result = calculator.getStoryDeltas(sessionId);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('SESSION_NOT_FOUND');
+      }
+    });
+
+    it('attributes tokens and line changes to stories', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createTokensInEvent(sessionId, 999)); // outside iterations
+      collector.emit(iterationStart(1, 'US-001'));
+      collector.emit(createTokensInEvent(sessionId, 4000));
+      collector.emit(createTokensOutEvent(sessionId, 1000));
+      collector.emit(fileChange('US-001', 100, 0));
+      collector.emit(createIterationEndEvent(sessionId, 1, 'US-001', true));
+      collector.emit(iterationStart(2, 'US-002'));
+      collector.emit(createTokensInEvent(sessionId, 3000));
+      collector.emit(fileChange('US-002', 0, 40));
+      collector.emit(createIterationEndEvent(sessionId, 2, 'US-002', true));
+
+      const result = calculator.getStoryDeltas(sessionId);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([
+          {
+            storyId: 'US-001',
+            tokensSpent: 5000,
+            linesAdded: 100,
+            linesDeleted: 0,
+            netDelta: 100,
+            storySynth: 50,
+          },
+          {
+            storyId: 'US-002',
+            tokensSpent: 3000,
+            linesAdded: 0,
+            linesDeleted: 40,
+            netDelta: -40,
+            storySynth: null,
+          },
+        ]);
+      }
+    });
+
+    it('reports stories named after Object.prototype members', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(fileChange('constructor', 10, 0));
+      collector.emit(fileChange('__proto__', 4, 0));
+
+      const deltas = calculator.getStoryDeltas(sessionId);
+
+      expect(isOk(deltas) && deltas.value.map((d) => [d.storyId, d.linesAdded])).toEqual([
+        ['constructor', 10],
+        ['__proto__', 4],
+      ]);
+    });
+
+    it('matches the story tokens of the breakdown', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(iterationStart(1, 'US-001'));
+      collector.emit(createIterationEndEvent(sessionId, 1, 'US-001', true));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 700),
+        timestamp: '2026-01-30T11:59:00.000Z',
+      });
+      collector.emit(fileChange('US-002', 10, 0));
+
+      const deltas = calculator.getStoryDeltas(sessionId);
+      const breakdown = collector.getBreakdown(sessionId);
+
+      expect(isOk(deltas) && deltas.value.map((d) => [d.storyId, d.tokensSpent])).toEqual([
+        ['US-001', 0],
+        ['US-002', 0],
+      ]);
+      expect(isOk(breakdown) && breakdown.value.unattributed.tokensIn).toBe(700);
+    });
+
+    it('includes story deltas in the report', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(iterationStart(1, 'US-001'));
+      collector.emit(createTokensInEvent(sessionId, 500));
+      collector.emit(fileChange('US-001', 10, 2));
+      collector.emit(createIterationEndEvent(sessionId, 1, 'US-001', true));
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const report = calculator.getReport(sessionId, snapshot);
+      const formatted = calculator.formatReport(sessionId, snapshot);
+
+      expect(isOk(report)).toBe(true);
+      if (isOk(report)) {
+        expect(report.value.storyDeltas).toHaveLength(1);
+      }
+      expect(isOk(formatted)).toBe(true);
+      if (isOk(formatted)) {
+        expect(formatted.value).toContain('STORY DELTAS');
+        expect(formatted.value).toContain('+8');
+      }
+    });
+  });
+
+  // ==========================================================================
+  // Point-in-time Tests
+  // ==========================================================================
+
+  describe('calculateAsOf', () => {
+    const snapshot = createCodebaseSnapshot({
+      total: 100,
+      code: 80,
+      comments: 10,
+      blank: 10,
+    });
+
+    beforeEach(() => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        ...createTokensInEvent(sessionId, 1000),
+        timestamp: '2026-01-30T12:10:00.000Z',
+      });
+      collector.emit({
+        ...createTokensInEvent(sessionId, 3000),
+        timestamp: '2026-01-30T12:20:00.000Z',
+      });
+      collector.emit(createSessionEndEvent(sessionId, true));
+    });
+
+    it('measures an earlier timestamp as if the session were still running', () => {
+      const result = calculator.calculateAsOf(
+        sessionId,
+        { timestamp: '2026-01-30T12:15:00.000Z' },
+        snapshot
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalMinutes).toBe(15);
+        expect(result.value.tokensPerLOC).toBe(10);
+      }
+    });
+
+    it('measures up to the last included event for an event index', () => {
+      const result = calculator.calculateAsOf(
+        sessionId,
+        { eventIndex: 2 },
+        snapshot
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalMinutes).toBe(20);
+        expect(result.value.tokensPerLOC).toBe(40);
+      }
+    });
+
+    it('only counts gate results recorded by then', () => {
+      gateTracker.record(sessionId, {
+        timestamp: '2026-01-30T12:05:00.000Z',
+        gate: 'G1_COMPILE',
+        filePath: '/test/file.ts',
+        lineResults: [{ lineNumber: 1, passed: true }],
+      });
+      gateTracker.record(sessionId, {
+        timestamp: '2026-01-30T12:25:00.000Z',
+        gate: 'G1_COMPILE',
+        filePath: '/test/file.ts',
+        lineResults: [{ lineNumber: 2, passed: true }],
+      });
+
+      const before = calculator.calculateAsOf(
+        sessionId,
+        { timestamp: '2026-01-30T12:15:00.000Z' },
+        snapshot
+      );
+      const after = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(before) && before.value.verifiedLOC).toBe(1);
+      expect(isOk(after) && after.value.verifiedLOC).toBe(2);
+    });
+
+    it('returns error for invalid points', () => {
+      const result = calculator.calculateAsOf(
+        sessionId,
+        { timestamp: 'not a time' },
+        snapshot
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('INVALID_AS_OF');
+      }
+    });
+  });
+
+  // ==========================================================================
+  // Session Tree Tests
+  // ==========================================================================
+
+  describe('calculateTree', () => {
+    function childSessionStart(
+      childId: string,
+      parentSessionId: string
+    ): Record<string, unknown> {
+      return {
+        timestamp: validTimestamp,
+        sessionId: childId,
+        eventType: 'session_start',
+        payload: { parentSessionId },
+      };
+    }
+
+    it('returns error for non-existent session', () => {
+      const result = calculator.calculateTree(
+        sessionId,
+        createCodebaseSnapshot({ total: 100, code: 80, comments: 10, blank: 10 })
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('SESSION_NOT_FOUND');
+      }
+    });
+
+    it('computes Synth over the whole session tree', () => {
+      const childId = createSessionId();
+      const grandchildId = createSessionId();
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createTokensInEvent(sessionId, 1000));
+      collector.emit(childSessionStart(childId, sessionId));
+      collector.emit(createTokensInEvent(childId, 3000));
+      collector.emit(childSessionStart(grandchildId, childId));
+      collector.emit(createTokensOutEvent(grandchildId, 1000));
+
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+      const tree = calculator.calculateTree(sessionId, snapshot);
+      const root = calculator.calculate(sessionId, snapshot);
+
+      expect(isOk(tree)).toBe(true);
+      expect(isOk(root)).toBe(true);
+      if (isOk(tree) && isOk(root)) {
+        expect(tree.value.totalTokens).toBe(5000);
+        expect(tree.value.tokensPerLOC).toBe(50);
+        expect(root.value.tokensPerLOC).toBe(10);
+      }
+    });
+
+    it('spans the tree duration and combines gate results', () => {
+      const childId = createSessionId();
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(childSessionStart(childId, sessionId));
+      collector.emit({
+        ...createSessionEndEvent(childId, true),
+        timestamp: '2026-01-30T13:00:00.000Z',
+      });
+      collector.emit(createSessionEndEvent(sessionId, true));
+
+      gateTracker.record(sessionId, {
+        timestamp: validTimestamp,
+        gate: 'G1_COMPILE',
+        filePath: '/test/a.ts',
+        lineResults: [
+          { lineNumber: 1, passed: true },
+          { lineNumber: 2, passed: true },
+        ],
+      });
+      gateTracker.record(childId, {
+        timestamp: validTimestamp,
+        gate: 'G1_COMPILE',
+        filePath: '/test/b.ts',
+        lineResults: [
+          { lineNumber: 1, passed: true },
+          { lineNumber: 2, passed: false },
+        ],
+      });
+
+      const result = calculator.calculateTree(
+        sessionId,
+        createCodebaseSnapshot({ total: 100, code: 80, comments: 10, blank: 10 })
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalMinutes).toBe(60);
+        expect(result.value.verifiedLOC).toBe(3);
+      }
+    });
+  });
+
   // ==========================================================================
   // Synth Trend Tests
   // ==========================================================================
@@ -604,6 +1184,30 @@ describe('MetricsCalculator', () => {
       expect(trend[1]?.storyId).toBe('US-002');
       expect(trend[2]?.storyId).toBe('US-003');
     });
+
+    it('keeps timestamps in order when the clock steps backwards', () => {
+      let now = Date.parse('2026-01-30T12:30:00.000Z');
+      calculator = new MetricsCalculator(collector, gateTracker, locCounter, {
+        clock: () => now,
+      });
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit(createTokensInEvent(sessionId, 1000));
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      calculator.recordSynthMeasurement(sessionId, 'US-001', snapshot);
+      now -= 60_000;
+      calculator.recordSynthMeasurement(sessionId, 'US-002', snapshot);
+
+      expect(calculator.getSynthTrend(sessionId).map((p) => p.timestamp)).toEqual([
+        '2026-01-30T12:30:00.000Z',
+        '2026-01-30T12:30:00.000Z',
+      ]);
+    });
   });
 
   // ==========================================================================
@@ -785,6 +1389,96 @@ describe('MetricsCalculator', () => {
       }
     });
 
+    it('includes recurring diagnostics section when errors repeat', () => {
+      const compileError = {
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'compilation_result',
+        payload: {
+          success: false,
+          errors: [
+            {
+              file: 'src/a.ts',
+              line: 3,
+              message: "Object is possibly 'undefined'.",
+              code: 'TS2532',
+            },
+          ],
+        },
+      };
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'iteration_start',
+        payload: { iterationNumber: 1, storyId: 'US-004' },
+      });
+      collector.emit(compileError);
+      collector.emit(compileError);
+
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const result = calculator.formatReport(sessionId, snapshot);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toContain('RECURRING DIAGNOSTICS');
+        expect(result.value).toContain('hit TS2532 2 times in story US-004');
+      }
+    });
+
+    it('includes stuck loop warnings section when a story is stuck', () => {
+      collector.emit(createSessionStartEvent(sessionId));
+      collector.emit({
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'file_change',
+        payload: {
+          filePath: 'src/a.ts',
+          storyId: 'US-001',
+          linesAdded: 10,
+          linesDeleted: 0,
+        },
+      });
+      for (let n = 1; n <= 3; n++) {
+        collector.emit({
+          timestamp: validTimestamp,
+          sessionId,
+          eventType: 'iteration_start',
+          payload: { iterationNumber: n, storyId: 'US-002' },
+        });
+        collector.emit(createTokensInEvent(sessionId, 1000));
+        collector.emit({
+          timestamp: validTimestamp,
+          sessionId,
+          eventType: 'iteration_end',
+          payload: { iterationNumber: n, storyId: 'US-002', success: false },
+        });
+      }
+
+      const snapshot = createCodebaseSnapshot({
+        total: 100,
+        code: 80,
+        comments: 10,
+        blank: 10,
+      });
+
+      const report = calculator.getReport(sessionId, snapshot);
+      const result = calculator.formatReport(sessionId, snapshot);
+
+      expect(isOk(report) && report.value.stuckLoopWarnings).toHaveLength(1);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toContain('STUCK LOOP WARNINGS');
+        expect(result.value).toContain('Story US-002 is stuck');
+      }
+    });
+
     it('includes synth trend section when measurements exist', () => {
       collector.emit(createSessionStartEvent(sessionId));
       collector.emit(createTokensInEvent(sessionId, 1000));
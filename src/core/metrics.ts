@@ -6,9 +6,24 @@
  */
 
 import { type Result, ok, err } from '../shared/result.js';
-import { type EventCollector, type SessionMetrics } from './collector.js';
+import type { Clock } from '../shared/clock.js';
+import { getOwnEntry } from '../shared/records.js';
+import {
+  type AsOfPoint,
+  type EventCollector,
+  type SessionMetadata,
+  type SessionMetrics,
+  type SessionTreeNode,
+  type SessionWarning,
+} from './collector.js';
 import { type GateTracker, type SessionGateStats } from './gates.js';
 import { type LOCCounter, type CodebaseSnapshot, type LOCResult } from './loc.js';
+import { calculateCost } from './pricing.js';
+import { calculateSessionMetrics } from './aggregates.js';
+import {
+  type DiagnosticCluster,
+  describeDiagnosticCluster,
+} from './diagnostics.js';
 
 // ============================================================================
 // Types
@@ -30,18 +45,30 @@ export interface ComputedMetrics {
   vlocPerMinute: number;
   /** Tokens per LOC (Synth): Cumulative tokens / Current LOC */
   tokensPerLOC: number;
+  /** Effective Synth: cache-weighted tokens / Current LOC */
+  effectiveTokensPerLOC: number;
   /** PoE-LOC: Probability of error per line of code */
   poeLOC: number;
   /** Total session duration in minutes */
   totalMinutes: number;
   /** Total tokens consumed (in + out) */
   totalTokens: number;
+  /** Tokens with prompt-cache reads and writes weighted by CacheWeights */
+  effectiveTokens: number;
   /** Code lines only (excludes comments and blanks) */
   codeLines: number;
   /** Comment lines */
   commentLines: number;
   /** Blank lines */
   blankLines: number;
+  /** Total USD cost of tokens, from the pricing table */
+  totalCost: number;
+  /** USD cost by model */
+  costByModel: Record<string, number>;
+  /** USD cost per line of code */
+  costPerLOC: number;
+  /** USD cost per verified line of code */
+  costPerVerifiedLOC: number;
 }
 
 /**
@@ -62,6 +89,24 @@ export interface SynthTrendPoint {
   synthDelta: number;
 }
 
+/**
+ * Per-story drill-down of tokens spent and lines changed
+ */
+export interface StoryDelta {
+  /** Story ID */
+  storyId: string;
+  /** Tokens (in + out) spent during the story's iterations */
+  tokensSpent: number;
+  /** Lines added by the story's file changes */
+  linesAdded: number;
+  /** Lines deleted by the story's file changes */
+  linesDeleted: number;
+  /** linesAdded - linesDeleted */
+  netDelta: number;
+  /** tokensSpent / linesAdded, or null when no lines were added */
+  storySynth: number | null;
+}
+
 /**
  * Full metrics report including trends
  */
@@ -76,17 +121,95 @@ export interface MetricsReport {
   gateStats: SessionGateStats | null;
   /** Session basic metrics */
   sessionMetrics: SessionMetrics | null;
+  /** Per-story token and line deltas */
+  storyDeltas: StoryDelta[];
+  /** Compiler diagnostics reported more than once within a story */
+  recurringDiagnostics: DiagnosticCluster[];
+  /** Stuck-loop warnings recorded on the session */
+  stuckLoopWarnings: SessionWarning[];
+}
+
+/**
+ * Relative weight of cached input tokens compared to a fresh input token,
+ * used to calculate effective Synth
+ */
+export interface CacheWeights {
+  /** Weight of a token read from the prompt cache */
+  cacheRead: number;
+  /** Weight of a token written to the prompt cache */
+  cacheCreation: number;
+}
+
+/**
+ * Configuration options for the MetricsCalculator
+ */
+export interface MetricsCalculatorOptions {
+  /** Weights for cached input tokens (defaults to DEFAULT_CACHE_WEIGHTS) */
+  cacheWeights?: CacheWeights;
+  /** Source of the current time (defaults to the collector's clock) */
+  clock?: Clock;
 }
 
 /**
  * Error types for metrics operations
  */
 export interface MetricsError {
-  code: 'SESSION_NOT_FOUND' | 'NO_LOC_DATA' | 'CALCULATION_ERROR';
+  code:
+    | 'SESSION_NOT_FOUND'
+    | 'NO_LOC_DATA'
+    | 'CALCULATION_ERROR'
+    | 'INVALID_AS_OF';
   message: string;
   details?: unknown;
 }
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default cache weights - cache reads cost a tenth of a fresh token and
+ * cache writes a quarter more, matching common prompt-caching prices
+ */
+export const DEFAULT_CACHE_WEIGHTS: CacheWeights = {
+  cacheRead: 0.1,
+  cacheCreation: 1.25,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Calculates cache-weighted effective tokens for a session
+ *
+ * @param metrics - Session metrics with cache token totals
+ * @param weights - Weights for cached input tokens
+ * @returns Effective token count
+ */
+export function calculateEffectiveTokens(
+  metrics: SessionMetrics,
+  weights: CacheWeights
+): number {
+  const uncachedIn =
+    metrics.totalTokensIn -
+    metrics.totalCacheReadTokens -
+    metrics.totalCacheCreationTokens;
+  return (
+    uncachedIn +
+    metrics.totalCacheReadTokens * weights.cacheRead +
+    metrics.totalCacheCreationTokens * weights.cacheCreation +
+    metrics.totalTokensOut
+  );
+}
+
+/**
+ * Lists the metadata of every session in a tree, root first
+ */
+function flattenSessionTree(node: SessionTreeNode): SessionMetadata[] {
+  return [node.metadata, ...node.children.flatMap(flattenSessionTree)];
+}
+
 // ============================================================================
 // MetricsCalculator Class
 // ============================================================================
@@ -95,17 +218,44 @@ export interface MetricsError {
  * Calculates efficiency metrics for AI code synthesis sessions.
  *
  * The key metric is Synth (tokens per LOC), which represents the
- * "energy cost" of synthesizing code.
+ * "energy cost" of synthesizing code. Cost metrics use the collector's
+ * pricing table (see EventCollector.setPricing()).
  */
 export class MetricsCalculator {
   /** Synth trend history per session */
   private synthTrends = new Map<string, SynthTrendPoint[]>();
 
+  /** Weights for cached input tokens in effective Synth */
+  private cacheWeights: CacheWeights;
+
+  /** Source of the current time */
+  private readonly clock: Clock;
+
   constructor(
     private readonly collector: EventCollector,
     private readonly gateTracker: GateTracker,
-    private readonly locCounter: LOCCounter
-  ) {}
+    private readonly locCounter: LOCCounter,
+    options: MetricsCalculatorOptions = {}
+  ) {
+    this.cacheWeights = options.cacheWeights ?? DEFAULT_CACHE_WEIGHTS;
+    this.clock = options.clock ?? collector.getClock();
+  }
+
+  /**
+   * Gets the current cache weights
+   */
+  getCacheWeights(): CacheWeights {
+    return { ...this.cacheWeights };
+  }
+
+  /**
+   * Replaces the weights used for effective Synth
+   *
+   * @param cacheWeights - The new cache weights
+   */
+  setCacheWeights(cacheWeights: CacheWeights): void {
+    this.cacheWeights = cacheWeights;
+  }
 
   /**
    * Calculates metrics for a session using a codebase snapshot
@@ -119,15 +269,15 @@ export class MetricsCalculator {
     codebaseSnapshot: CodebaseSnapshot
   ): Result<ComputedMetrics, MetricsError> {
     // Get session metrics from collector
-    const sessionResult = this.collector.getSession(sessionId);
-    if (!sessionResult.ok) {
+    const metadataResult = this.collector.getSessionMetadata(sessionId);
+    if (!metadataResult.ok) {
       return err({
         code: 'SESSION_NOT_FOUND',
         message: `Session not found: ${sessionId}`,
       });
     }
 
-    const session = sessionResult.value;
+    const metadata = metadataResult.value;
     const metricsResult = this.collector.getMetrics(sessionId);
     if (!metricsResult.ok) {
       return err({
@@ -136,68 +286,147 @@ export class MetricsCalculator {
       });
     }
 
-    const sessionMetrics = metricsResult.value;
-
     // Get gate stats
     const gateStatsResult = this.gateTracker.getSessionStats(sessionId);
-    let verifiedLOC = 0;
-    let overallPoE = 0;
-
-    if (gateStatsResult.ok) {
-      verifiedLOC = gateStatsResult.value.verifiedLines;
-      overallPoE = gateStatsResult.value.overallPoE;
-    }
-
-    // Calculate LOC metrics from snapshot
-    const totalLOC = codebaseSnapshot.totals.total;
-    const codeLines = codebaseSnapshot.totals.code;
-    const commentLines = codebaseSnapshot.totals.comments;
-    const blankLines = codebaseSnapshot.totals.blank;
+    const gates = gateStatsResult.ok
+      ? {
+          verifiedLOC: gateStatsResult.value.verifiedLines,
+          poeLOC: gateStatsResult.value.overallPoE,
+        }
+      : { verifiedLOC: 0, poeLOC: 0 };
+
+    return this.computeMetrics(
+      metricsResult.value,
+      metadata.startedAt,
+      metadata.endedAt,
+      gates,
+      codebaseSnapshot
+    );
+  }
 
-    if (totalLOC === 0) {
+  /**
+   * Calculates metrics for a session as they were at an earlier point,
+   * rebuilt from its stored events and the gate results recorded by then.
+   * A session still active at that point is measured up to that point
+   * (the timestamp, or the latest included event's timestamp).
+   *
+   * @param sessionId - The session to calculate metrics for
+   * @param asOf - Event index or timestamp to reconstruct
+   * @param codebaseSnapshot - Codebase LOC snapshot for that point
+   * @returns Computed metrics or error
+   */
+  calculateAsOf(
+    sessionId: string,
+    asOf: AsOfPoint,
+    codebaseSnapshot: CodebaseSnapshot
+  ): Result<ComputedMetrics, MetricsError> {
+    const sessionResult = this.collector.getSessionAsOf(sessionId, asOf);
+    if (!sessionResult.ok) {
       return err({
-        code: 'NO_LOC_DATA',
-        message: 'No lines of code in codebase snapshot',
+        code:
+          sessionResult.error.code === 'INVALID_AS_OF'
+            ? 'INVALID_AS_OF'
+            : 'SESSION_NOT_FOUND',
+        message: sessionResult.error.message,
       });
     }
 
-    // Calculate verification rate
-    const verificationRate = totalLOC > 0 ? verifiedLOC / totalLOC : 0;
+    const { metadata, events } = sessionResult.value;
+    let asOfTimestamp = metadata.startedAt;
+    if ('timestamp' in asOf) {
+      asOfTimestamp = asOf.timestamp;
+    } else {
+      for (const event of events) {
+        if (Date.parse(event.timestamp) > Date.parse(asOfTimestamp)) {
+          asOfTimestamp = event.timestamp;
+        }
+      }
+    }
 
-    // Calculate time metrics
-    const totalMinutes = this.calculateSessionDuration(
-      session.metadata.startedAt,
-      session.metadata.endedAt
+    const gateStatsResult = this.gateTracker.getSessionStats(
+      sessionId,
+      asOfTimestamp
     );
+    const gates = gateStatsResult.ok
+      ? {
+          verifiedLOC: gateStatsResult.value.verifiedLines,
+          poeLOC: gateStatsResult.value.overallPoE,
+        }
+      : { verifiedLOC: 0, poeLOC: 0 };
+
+    return this.computeMetrics(
+      calculateSessionMetrics(events, metadata.compacted?.metrics),
+      metadata.startedAt,
+      metadata.endedAt ?? asOfTimestamp,
+      gates,
+      codebaseSnapshot
+    );
+  }
 
-    // Calculate rates
-    const locPerMinute = totalMinutes > 0 ? totalLOC / totalMinutes : 0;
-    const vlocPerMinute = totalMinutes > 0 ? verifiedLOC / totalMinutes : 0;
+  /**
+   * Calculates metrics for a session together with all its descendant
+   * (sub-agent) sessions against one codebase snapshot. Tokens are rolled
+   * up across the tree; duration spans the earliest start to the latest
+   * end; verified lines are summed (capped at total LOC) and PoE-LOC is
+   * averaged weighted by lines checked.
+   *
+   * @param rootSessionId - The root session of the tree
+   * @param codebaseSnapshot - Current codebase LOC snapshot
+   * @returns Computed metrics for the whole tree or error
+   */
+  calculateTree(
+    rootSessionId: string,
+    codebaseSnapshot: CodebaseSnapshot
+  ): Result<ComputedMetrics, MetricsError> {
+    const treeResult = this.collector.getSessionTree(rootSessionId);
+    const rollupResult = this.collector.getRollupMetrics(rootSessionId);
+    if (!treeResult.ok || !rollupResult.ok) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${rootSessionId}`,
+      });
+    }
 
-    // Calculate token metrics
-    const totalTokens =
-      sessionMetrics.totalTokensIn + sessionMetrics.totalTokensOut;
+    let startedAt = treeResult.value.metadata.startedAt;
+    let endedAt: string | undefined = treeResult.value.metadata.endedAt;
+    let verifiedLines = 0;
+    let linesChecked = 0;
+    let weightedPoE = 0;
 
-    // Synth: Cumulative Tokens / Current LOC
-    const tokensPerLOC = totalLOC > 0 ? totalTokens / totalLOC : 0;
+    for (const metadata of flattenSessionTree(treeResult.value)) {
+      if (Date.parse(metadata.startedAt) < Date.parse(startedAt)) {
+        startedAt = metadata.startedAt;
+      }
+      if (metadata.endedAt === undefined) {
+        endedAt = undefined;
+      } else if (
+        endedAt !== undefined &&
+        Date.parse(metadata.endedAt) > Date.parse(endedAt)
+      ) {
+        endedAt = metadata.endedAt;
+      }
 
-    // PoE-LOC: overall probability of error
-    const poeLOC = overallPoE;
+      const gateStatsResult = this.gateTracker.getSessionStats(metadata.id);
+      if (gateStatsResult.ok) {
+        const stats = gateStatsResult.value;
+        verifiedLines += stats.verifiedLines;
+        linesChecked += stats.totalLinesChecked;
+        weightedPoE += stats.overallPoE * stats.totalLinesChecked;
+      }
+    }
 
-    return ok({
-      verifiedLOC,
-      totalLOC,
-      verificationRate,
-      locPerMinute,
-      vlocPerMinute,
-      tokensPerLOC,
-      poeLOC,
-      totalMinutes,
-      totalTokens,
-      codeLines,
-      commentLines,
-      blankLines,
-    });
+    const gates = {
+      verifiedLOC: Math.min(verifiedLines, codebaseSnapshot.totals.total),
+      poeLOC: linesChecked > 0 ? weightedPoE / linesChecked : 0,
+    };
+
+    return this.computeMetrics(
+      rollupResult.value,
+      startedAt,
+      endedAt,
+      gates,
+      codebaseSnapshot
+    );
   }
 
   /**
@@ -241,9 +470,16 @@ export class MetricsCalculator {
     const previousSynth = existing.length > 0 ? existing[existing.length - 1]?.synth ?? 0 : 0;
     const synthDelta = synth - previousSynth;
 
+    // Trend points stay in time order even if the clock steps backwards
+    const previous = existing[existing.length - 1];
+    const now =
+      previous === undefined
+        ? this.clock()
+        : Math.max(this.clock(), Date.parse(previous.timestamp));
+
     const point: SynthTrendPoint = {
       storyId,
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(now).toISOString(),
       cumulativeTokens: totalTokens,
       loc,
       synth,
@@ -270,6 +506,53 @@ export class MetricsCalculator {
     return this.synthTrends.get(sessionId) ?? [];
   }
 
+  /**
+   * Calculates per-story deltas for drill-down, from the session's
+   * running story breakdown (see EventCollector.getBreakdown()) and line
+   * counts from file_change events
+   *
+   * @param sessionId - The session ID
+   * @returns Story deltas in order of first appearance, then stories only
+   *   seen in file changes, or error
+   */
+  getStoryDeltas(sessionId: string): Result<StoryDelta[], MetricsError> {
+    const breakdownResult = this.collector.getBreakdown(sessionId);
+    const metricsResult = this.collector.getMetrics(sessionId);
+    if (!breakdownResult.ok || !metricsResult.ok) {
+      return err({
+        code: 'SESSION_NOT_FOUND',
+        message: `Session not found: ${sessionId}`,
+      });
+    }
+
+    const { linesByStory } = metricsResult.value;
+    const tokensByStory = new Map<string, number>();
+    for (const story of breakdownResult.value.stories) {
+      tokensByStory.set(story.storyId, story.tokensIn + story.tokensOut);
+    }
+    for (const storyId of Object.keys(linesByStory)) {
+      if (!tokensByStory.has(storyId)) {
+        tokensByStory.set(storyId, 0);
+      }
+    }
+
+    return ok(
+      Array.from(tokensByStory, ([storyId, tokensSpent]) => {
+        const lines = getOwnEntry(linesByStory, storyId);
+        const linesAdded = lines?.linesAdded ?? 0;
+        const linesDeleted = lines?.linesDeleted ?? 0;
+        return {
+          storyId,
+          tokensSpent,
+          linesAdded,
+          linesDeleted,
+          netDelta: linesAdded - linesDeleted,
+          storySynth: linesAdded > 0 ? tokensSpent / linesAdded : null,
+        };
+      })
+    );
+  }
+
   /**
    * Generates a full metrics report for a session
    *
@@ -299,12 +582,35 @@ export class MetricsCalculator {
       ? sessionMetricsResult.value
       : null;
 
+    // Get story deltas
+    const storyDeltasResult = this.getStoryDeltas(sessionId);
+    const storyDeltas = storyDeltasResult.ok ? storyDeltasResult.value : [];
+
+    // Get recurring diagnostics
+    const diagnosticsResult = this.collector.getDiagnosticClusters(sessionId, {
+      minOccurrences: 2,
+    });
+    const recurringDiagnostics = diagnosticsResult.ok
+      ? diagnosticsResult.value
+      : [];
+
+    // Get stuck-loop warnings
+    const metadataResult = this.collector.getSessionMetadata(sessionId);
+    const stuckLoopWarnings = metadataResult.ok
+      ? (metadataResult.value.warnings ?? []).filter(
+          (w) => w.code === 'STUCK_LOOP'
+        )
+      : [];
+
     return ok({
       metrics,
       synthTrend,
       locBreakdown: codebaseSnapshot.totals,
       gateStats,
       sessionMetrics,
+      storyDeltas,
+      recurringDiagnostics,
+      stuckLoopWarnings,
     });
   }
 
@@ -333,6 +639,22 @@ export class MetricsCalculator {
     lines.push('═'.repeat(60));
     lines.push('');
 
+    // Stuck-loop warnings first, so runaway loops are seen immediately
+    if (report.stuckLoopWarnings.length > 0) {
+      lines.push('┌─────────────────────────────────────────────────────────────┐');
+      lines.push('│ STUCK LOOP WARNINGS                                         │');
+      lines.push('├─────────────────────────────────────────────────────────────┤');
+
+      for (const warning of report.stuckLoopWarnings) {
+        for (const line of this.wrapText(warning.message, 59)) {
+          lines.push(`│ ${line.padEnd(59)} │`);
+        }
+      }
+
+      lines.push('└─────────────────────────────────────────────────────────────┘');
+      lines.push('');
+    }
+
     // Headline metrics
     lines.push('┌─────────────────────────────────────────────────────────────┐');
     lines.push('│ HEADLINE METRICS                                            │');
@@ -340,6 +662,9 @@ export class MetricsCalculator {
     lines.push(
       `│ Synth (Tokens/LOC):     ${this.formatNumber(m.tokensPerLOC, 2).padStart(12)}                     │`
     );
+    lines.push(
+      `│ Effective Synth:        ${this.formatNumber(m.effectiveTokensPerLOC, 2).padStart(12)}                     │`
+    );
     lines.push(
       `│ Verified LOC:           ${String(m.verifiedLOC).padStart(12)} / ${String(m.totalLOC).padEnd(12)}     │`
     );
@@ -371,6 +696,29 @@ export class MetricsCalculator {
     lines.push('└─────────────────────────────────────────────────────────────┘');
     lines.push('');
 
+    // Cost metrics if any tokens were priced
+    if (m.totalCost > 0) {
+      lines.push('┌─────────────────────────────────────────────────────────────┐');
+      lines.push('│ COST METRICS                                                │');
+      lines.push('├─────────────────────────────────────────────────────────────┤');
+      lines.push(
+        `│ Total Cost:             ${this.formatCost(m.totalCost).padStart(12)}                     │`
+      );
+      lines.push(
+        `│ Cost / LOC:             ${this.formatCost(m.costPerLOC).padStart(12)}                     │`
+      );
+      lines.push(
+        `│ Cost / vLOC:            ${this.formatCost(m.costPerVerifiedLOC).padStart(12)}                     │`
+      );
+      for (const [model, cost] of Object.entries(m.costByModel)) {
+        lines.push(
+          `│ ${model.slice(0, 22).padEnd(22)} ${this.formatCost(cost).padStart(12)}                     │`
+        );
+      }
+      lines.push('└─────────────────────────────────────────────────────────────┘');
+      lines.push('');
+    }
+
     // LOC breakdown
     lines.push('┌─────────────────────────────────────────────────────────────┐');
     lines.push('│ LOC BREAKDOWN                                               │');
@@ -433,6 +781,45 @@ export class MetricsCalculator {
       lines.push('');
     }
 
+    // Story deltas if available
+    if (report.storyDeltas.length > 0) {
+      lines.push('┌─────────────────────────────────────────────────────────────┐');
+      lines.push('│ STORY DELTAS                                                │');
+      lines.push('├─────────────────────────────────────────────────────────────┤');
+
+      for (const delta of report.storyDeltas) {
+        const net =
+          delta.netDelta >= 0
+            ? `+${String(delta.netDelta)}`
+            : String(delta.netDelta);
+        const synth =
+          delta.storySynth !== null
+            ? this.formatNumber(delta.storySynth, 2)
+            : 'n/a';
+        lines.push(
+          `│ ${delta.storyId.padEnd(12)} Tokens: ${String(delta.tokensSpent).padStart(9)} Net: ${net.padStart(7)} Synth: ${synth.padStart(8)} │`
+        );
+      }
+
+      lines.push('└─────────────────────────────────────────────────────────────┘');
+      lines.push('');
+    }
+
+    // Recurring diagnostics if any
+    if (report.recurringDiagnostics.length > 0) {
+      lines.push('┌─────────────────────────────────────────────────────────────┐');
+      lines.push('│ RECURRING DIAGNOSTICS                                       │');
+      lines.push('├─────────────────────────────────────────────────────────────┤');
+
+      for (const cluster of report.recurringDiagnostics) {
+        const summary = describeDiagnosticCluster(cluster);
+        lines.push(`│ ${summary.slice(0, 59).padEnd(59)} │`);
+      }
+
+      lines.push('└─────────────────────────────────────────────────────────────┘');
+      lines.push('');
+    }
+
     // Session metrics if available
     if (report.sessionMetrics !== null) {
       const sm = report.sessionMetrics;
@@ -451,6 +838,11 @@ export class MetricsCalculator {
       lines.push(
         `│ Stories:                ${String(sm.storiesPassed).padStart(12)} / ${String(sm.storiesCompleted).padEnd(12)}   │`
       );
+      if (sm.totalToolCalls > 0) {
+        lines.push(
+          `│ Tool Calls (ok):        ${String(sm.totalToolCalls - sm.toolCallFailures).padStart(12)} / ${String(sm.totalToolCalls).padEnd(12)}   │`
+        );
+      }
       lines.push('└─────────────────────────────────────────────────────────────┘');
     }
 
@@ -464,6 +856,105 @@ export class MetricsCalculator {
   // Private Methods
   // ============================================================================
 
+  /**
+   * Computes metrics from session metrics, a time span, gate results and
+   * a codebase snapshot
+   */
+  private computeMetrics(
+    sessionMetrics: SessionMetrics,
+    startedAt: string,
+    endedAt: string | undefined,
+    gates: { verifiedLOC: number; poeLOC: number },
+    codebaseSnapshot: CodebaseSnapshot
+  ): Result<ComputedMetrics, MetricsError> {
+    const { verifiedLOC, poeLOC } = gates;
+
+    // Calculate LOC metrics from snapshot
+    const totalLOC = codebaseSnapshot.totals.total;
+    const codeLines = codebaseSnapshot.totals.code;
+    const commentLines = codebaseSnapshot.totals.comments;
+    const blankLines = codebaseSnapshot.totals.blank;
+
+    if (totalLOC === 0) {
+      return err({
+        code: 'NO_LOC_DATA',
+        message: 'No lines of code in codebase snapshot',
+      });
+    }
+
+    // Calculate verification rate
+    const verificationRate = totalLOC > 0 ? verifiedLOC / totalLOC : 0;
+
+    // Calculate time metrics
+    const totalMinutes = this.calculateSessionDuration(startedAt, endedAt);
+
+    // Calculate rates
+    const locPerMinute = totalMinutes > 0 ? totalLOC / totalMinutes : 0;
+    const vlocPerMinute = totalMinutes > 0 ? verifiedLOC / totalMinutes : 0;
+
+    // Calculate token metrics
+    const totalTokens =
+      sessionMetrics.totalTokensIn + sessionMetrics.totalTokensOut;
+
+    // Synth: Cumulative Tokens / Current LOC
+    const tokensPerLOC = totalLOC > 0 ? totalTokens / totalLOC : 0;
+
+    // Effective Synth: cached input tokens weighted by their relative cost
+    const effectiveTokens = calculateEffectiveTokens(
+      sessionMetrics,
+      this.cacheWeights
+    );
+    const effectiveTokensPerLOC =
+      totalLOC > 0 ? effectiveTokens / totalLOC : 0;
+
+    // Cost metrics from per-model token usage
+    const { totalCost, costByModel } = calculateCost(
+      sessionMetrics.tokensByModel,
+      this.collector.getPricing()
+    );
+    const costPerLOC = totalLOC > 0 ? totalCost / totalLOC : 0;
+    const costPerVerifiedLOC = verifiedLOC > 0 ? totalCost / verifiedLOC : 0;
+
+    return ok({
+      verifiedLOC,
+      totalLOC,
+      verificationRate,
+      locPerMinute,
+      vlocPerMinute,
+      tokensPerLOC,
+      effectiveTokensPerLOC,
+      poeLOC,
+      totalMinutes,
+      totalTokens,
+      effectiveTokens,
+      codeLines,
+      commentLines,
+      blankLines,
+      totalCost,
+      costByModel,
+      costPerLOC,
+      costPerVerifiedLOC,
+    });
+  }
+
+  /**
+   * Wraps text into lines of at most the given width, breaking at spaces
+   */
+  private wrapText(text: string, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(' ')) {
+      if (line.length > 0 && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line.length > 0 ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+    return lines;
+  }
+
   /**
    * Calculates session duration in minutes
    */
@@ -472,8 +963,9 @@ export class MetricsCalculator {
     endedAt?: string
   ): number {
     const start = new Date(startedAt).getTime();
-    const end = endedAt !== undefined ? new Date(endedAt).getTime() : Date.now();
-    const durationMs = end - start;
+    const end = endedAt !== undefined ? new Date(endedAt).getTime() : this.clock();
+    // A clock behind the session start must not yield a negative duration
+    const durationMs = Math.max(0, end - start);
     return durationMs / (1000 * 60);
   }
 
@@ -484,6 +976,13 @@ export class MetricsCalculator {
     return value.toFixed(decimals);
   }
 
+  /**
+   * Formats a USD amount
+   */
+  private formatCost(value: number): string {
+    return `$${value.toFixed(value !== 0 && value < 0.01 ? 4 : 2)}`;
+  }
+
   /**
    * Formats a rate as a percentage string
    */
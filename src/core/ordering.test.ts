@@ -0,0 +1,127 @@
+/**
+ * Tests for Event Ordering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createOrderState,
+  checkEventOrder,
+  applyEventOrder,
+  buildOrderState,
+} from './ordering.js';
+import type { MeterEvent } from './events.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+const timestamp = '2026-01-30T12:00:00.000Z';
+
+function iterationStart(
+  iterationNumber: number,
+  storyId = 'US-001'
+): MeterEvent {
+  return {
+    timestamp,
+    sessionId,
+    eventType: 'iteration_start',
+    payload: { iterationNumber, storyId },
+  };
+}
+
+function iterationEnd(iterationNumber: number, storyId = 'US-001'): MeterEvent {
+  return {
+    timestamp,
+    sessionId,
+    eventType: 'iteration_end',
+    payload: { iterationNumber, storyId, success: true },
+  };
+}
+
+function storyComplete(storyId = 'US-001'): MeterEvent {
+  return {
+    timestamp,
+    sessionId,
+    eventType: 'story_complete',
+    payload: { storyId, passes: true },
+  };
+}
+
+// ============================================================================
+// State Machine Tests
+// ============================================================================
+
+describe('checkEventOrder', () => {
+  it('accepts a well-formed sequence', () => {
+    const state = createOrderState();
+    const events = [
+      iterationStart(1),
+      iterationEnd(1),
+      iterationStart(2),
+      iterationEnd(2),
+      storyComplete(),
+    ];
+
+    for (const event of events) {
+      expect(checkEventOrder(state, event)).toBeNull();
+      applyEventOrder(state, event);
+    }
+  });
+
+  it('rejects iteration_end without iteration_start', () => {
+    const violation = checkEventOrder(createOrderState(), iterationEnd(1));
+
+    expect(violation).not.toBeNull();
+    expect(violation?.message).toContain('without a matching iteration_start');
+  });
+
+  it('rejects iteration_end that does not match the open iteration', () => {
+    const state = buildOrderState([iterationStart(1, 'US-001')]);
+
+    expect(checkEventOrder(state, iterationEnd(2, 'US-001'))).not.toBeNull();
+    expect(checkEventOrder(state, iterationEnd(1, 'US-002'))).not.toBeNull();
+  });
+
+  it('rejects iteration numbers that go backwards or repeat', () => {
+    const state = buildOrderState([iterationStart(3), iterationEnd(3)]);
+
+    expect(checkEventOrder(state, iterationStart(2))?.lastIterationNumber).toBe(
+      3
+    );
+    expect(checkEventOrder(state, iterationStart(3))).not.toBeNull();
+    expect(checkEventOrder(state, iterationStart(4))).toBeNull();
+  });
+
+  it('rejects iteration_start while another iteration is open', () => {
+    const state = buildOrderState([iterationStart(1)]);
+
+    expect(checkEventOrder(state, iterationStart(2))?.openIteration).toEqual({
+      iterationNumber: 1,
+      storyId: 'US-001',
+    });
+  });
+
+  it('rejects story_complete while an iteration is open', () => {
+    const state = buildOrderState([iterationStart(1)]);
+
+    const violation = checkEventOrder(state, storyComplete());
+    expect(violation?.eventType).toBe('story_complete');
+  });
+});
+
+describe('buildOrderState', () => {
+  it('replays events into the current state', () => {
+    const state = buildOrderState([
+      iterationStart(1),
+      iterationEnd(1),
+      iterationStart(2),
+    ]);
+
+    expect(state.lastIterationNumber).toBe(2);
+    expect(state.openIteration).toEqual({
+      iterationNumber: 2,
+      storyId: 'US-001',
+    });
+  });
+});
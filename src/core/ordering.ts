@@ -0,0 +1,166 @@
+/**
+ * Event Ordering for RalphMeter
+ *
+ * Per-session state machine that checks iteration and story events
+ * arrive in a valid sequence.
+ */
+
+import type { MeterEvent } from './events.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the collector reacts to out-of-order events.
+ * - strict: reject the event with INVALID_EVENT_ORDER
+ * - lenient: accept the event and record a warning on the session
+ */
+export type OrderingMode = 'strict' | 'lenient';
+
+/**
+ * The iteration currently open in a session
+ */
+export interface OpenIteration {
+  /** Iteration number from iteration_start */
+  iterationNumber: number;
+  /** Story ID from iteration_start */
+  storyId: string;
+}
+
+/**
+ * Ordering state tracked per session
+ */
+export interface OrderState {
+  /** The open iteration, or null if none */
+  openIteration: OpenIteration | null;
+  /** Highest iteration number started so far (0 if none) */
+  lastIterationNumber: number;
+}
+
+/**
+ * Describes why an event is out of order
+ */
+export interface OrderViolation {
+  /** Human-readable explanation */
+  message: string;
+  /** The offending event type */
+  eventType: MeterEvent['eventType'];
+  /** The open iteration when the event arrived */
+  openIteration: OpenIteration | null;
+  /** Highest iteration number started when the event arrived */
+  lastIterationNumber: number;
+}
+
+// ============================================================================
+// State Machine
+// ============================================================================
+
+/**
+ * Creates the ordering state for a new session
+ */
+export function createOrderState(): OrderState {
+  return { openIteration: null, lastIterationNumber: 0 };
+}
+
+/**
+ * Checks whether an event is valid in the current state.
+ *
+ * @param state - Current ordering state
+ * @param event - The incoming event
+ * @returns A violation, or null if the event is in order
+ */
+export function checkEventOrder(
+  state: OrderState,
+  event: MeterEvent
+): OrderViolation | null {
+  const violation = (message: string): OrderViolation => ({
+    message,
+    eventType: event.eventType,
+    openIteration: state.openIteration,
+    lastIterationNumber: state.lastIterationNumber,
+  });
+
+  switch (event.eventType) {
+    case 'iteration_start': {
+      const { iterationNumber } = event.payload;
+      if (state.openIteration !== null) {
+        return violation(
+          `iteration_start ${String(iterationNumber)} while iteration ${String(state.openIteration.iterationNumber)} is still open`
+        );
+      }
+      if (iterationNumber <= state.lastIterationNumber) {
+        return violation(
+          `iteration_start ${String(iterationNumber)} does not follow iteration ${String(state.lastIterationNumber)}`
+        );
+      }
+      return null;
+    }
+    case 'iteration_end': {
+      const { iterationNumber, storyId } = event.payload;
+      const open = state.openIteration;
+      if (open === null) {
+        return violation(
+          `iteration_end ${String(iterationNumber)} without a matching iteration_start`
+        );
+      }
+      if (
+        open.iterationNumber !== iterationNumber ||
+        open.storyId !== storyId
+      ) {
+        return violation(
+          `iteration_end ${String(iterationNumber)} (${storyId}) does not match open iteration ${String(open.iterationNumber)} (${open.storyId})`
+        );
+      }
+      return null;
+    }
+    case 'story_complete':
+      if (state.openIteration !== null) {
+        return violation(
+          `story_complete for ${event.payload.storyId} while iteration ${String(state.openIteration.iterationNumber)} is still open`
+        );
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Advances the ordering state past an accepted event.
+ * Accepted out-of-order events still move the state forward.
+ *
+ * @param state - Ordering state to update in place
+ * @param event - The accepted event
+ */
+export function applyEventOrder(state: OrderState, event: MeterEvent): void {
+  switch (event.eventType) {
+    case 'iteration_start':
+      state.openIteration = {
+        iterationNumber: event.payload.iterationNumber,
+        storyId: event.payload.storyId,
+      };
+      state.lastIterationNumber = Math.max(
+        state.lastIterationNumber,
+        event.payload.iterationNumber
+      );
+      break;
+    case 'iteration_end':
+      state.openIteration = null;
+      break;
+  }
+}
+
+/**
+ * Rebuilds ordering state by replaying stored events
+ *
+ * @param events - Events in stored order
+ * @returns The resulting ordering state
+ */
+export function buildOrderState(events: MeterEvent[]): OrderState {
+  const state = createOrderState();
+  for (const event of events) {
+    applyEventOrder(state, event);
+  }
+  return state;
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for Token Pricing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCost,
+  calculateModelCost,
+  type ModelTokenUsage,
+  type PricingTable,
+} from './pricing.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const pricing: PricingTable = {
+  models: {
+    'model-large': { inputPerMillion: 15, outputPerMillion: 75 },
+    'model-small': { inputPerMillion: 3, outputPerMillion: 15 },
+  },
+};
+
+function createUsage(
+  tokensIn: number,
+  tokensOut: number,
+  cacheReadTokens = 0,
+  cacheCreationTokens = 0
+): ModelTokenUsage {
+  return { tokensIn, tokensOut, cacheReadTokens, cacheCreationTokens };
+}
+
+// ============================================================================
+// Pricing Function Tests
+// ============================================================================
+
+describe('calculateModelCost', () => {
+  it('applies per-million-token rates', () => {
+    const cost = calculateModelCost(createUsage(2_000_000, 100_000), {
+      inputPerMillion: 3,
+      outputPerMillion: 15,
+    });
+
+    expect(cost).toBeCloseTo(7.5, 10); // 6 + 1.5
+  });
+
+  it('prices cached input tokens at their own rates', () => {
+    const cost = calculateModelCost(
+      createUsage(1_000_000, 0, 600_000, 200_000),
+      {
+        inputPerMillion: 3,
+        outputPerMillion: 15,
+        cacheReadPerMillion: 0.3,
+        cacheCreationPerMillion: 3.75,
+      }
+    );
+
+    // 200k uncached * 3 + 600k * 0.3 + 200k * 3.75 = 0.6 + 0.18 + 0.75
+    expect(cost).toBeCloseTo(1.53, 10);
+  });
+
+  it('prices cached tokens at the input rate when no cache rate is set', () => {
+    const cost = calculateModelCost(
+      createUsage(1_000_000, 0, 600_000, 200_000),
+      {
+        inputPerMillion: 3,
+        outputPerMillion: 15,
+      }
+    );
+
+    expect(cost).toBeCloseTo(3, 10);
+  });
+});
+
+describe('calculateCost', () => {
+  it('sums cost across models', () => {
+    const result = calculateCost(
+      {
+        'model-large': createUsage(1_000_000, 0),
+        'model-small': createUsage(0, 1_000_000),
+      },
+      pricing
+    );
+
+    expect(result.totalCost).toBeCloseTo(30, 10);
+    expect(result.costByModel).toEqual({
+      'model-large': 15,
+      'model-small': 15,
+    });
+    expect(result.unpricedModels).toEqual([]);
+  });
+
+  it('reports models without a price as unpriced', () => {
+    const result = calculateCost({ unknown: createUsage(500, 500) }, pricing);
+
+    expect(result.totalCost).toBe(0);
+    expect(result.unpricedModels).toEqual(['unknown']);
+  });
+
+  it('applies the fallback price to unlisted models', () => {
+    const result = calculateCost(
+      { unknown: createUsage(1_000_000, 0) },
+      { ...pricing, fallback: { inputPerMillion: 1, outputPerMillion: 2 } }
+    );
+
+    expect(result.totalCost).toBe(1);
+    expect(result.unpricedModels).toEqual([]);
+  });
+
+  it('does not price models named after Object.prototype members', () => {
+    const tokensByModel = JSON.parse(
+      '{"__proto__": {}, "constructor": {}, "toString": {}}'
+    ) as Record<string, ModelTokenUsage>;
+    for (const model of Object.keys(tokensByModel)) {
+      tokensByModel[model] = createUsage(1_000_000, 0);
+    }
+
+    const result = calculateCost(tokensByModel, pricing);
+
+    expect(result.totalCost).toBe(0);
+    expect(result.unpricedModels).toEqual([
+      '__proto__',
+      'constructor',
+      'toString',
+    ]);
+    expect(Object.keys(result.costByModel)).toEqual(result.unpricedModels);
+  });
+});
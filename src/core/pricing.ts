@@ -0,0 +1,134 @@
+/**
+ * Token Pricing for RalphMeter
+ *
+ * Converts per-model token usage into USD cost using a configurable
+ * pricing table of per-million-token rates.
+ */
+
+import { getOwnEntry, setOwnEntry } from '../shared/records.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Token usage for a single model
+ */
+export interface ModelTokenUsage {
+  /** Input tokens consumed (including cached tokens) */
+  tokensIn: number;
+  /** Output tokens generated */
+  tokensOut: number;
+  /** Input tokens read from the prompt cache */
+  cacheReadTokens: number;
+  /** Input tokens written to the prompt cache */
+  cacheCreationTokens: number;
+}
+
+/**
+ * USD price per million tokens for a model
+ */
+export interface ModelPrice {
+  /** USD per million input tokens */
+  inputPerMillion: number;
+  /** USD per million output tokens */
+  outputPerMillion: number;
+  /** USD per million cache-read input tokens (defaults to the input rate) */
+  cacheReadPerMillion?: number;
+  /** USD per million cache-write input tokens (defaults to the input rate) */
+  cacheCreationPerMillion?: number;
+}
+
+/**
+ * Pricing configuration
+ */
+export interface PricingTable {
+  /** Prices by model identifier */
+  models: Record<string, ModelPrice>;
+  /** Price applied to models missing from the table (including unknown) */
+  fallback?: ModelPrice;
+}
+
+/**
+ * Cost of a session's token usage
+ */
+export interface CostBreakdown {
+  /** Total USD cost */
+  totalCost: number;
+  /** USD cost by model */
+  costByModel: Record<string, number>;
+  /** Models with usage but no price (counted as zero cost) */
+  unpricedModels: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Model key used for token events that carry no model identifier
+ */
+export const UNKNOWN_MODEL = 'unknown';
+
+/**
+ * Default pricing table - empty, so every model is unpriced until configured
+ */
+export const DEFAULT_PRICING: PricingTable = { models: {} };
+
+// ============================================================================
+// Pricing Functions
+// ============================================================================
+
+/**
+ * Calculates the USD cost of a single model's usage
+ *
+ * @param usage - Token usage for the model
+ * @param price - The model's price
+ * @returns Cost in USD
+ */
+export function calculateModelCost(
+  usage: ModelTokenUsage,
+  price: ModelPrice
+): number {
+  const uncachedIn =
+    usage.tokensIn - usage.cacheReadTokens - usage.cacheCreationTokens;
+  return (
+    (uncachedIn * price.inputPerMillion +
+      usage.cacheReadTokens *
+        (price.cacheReadPerMillion ?? price.inputPerMillion) +
+      usage.cacheCreationTokens *
+        (price.cacheCreationPerMillion ?? price.inputPerMillion) +
+      usage.tokensOut * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Calculates the USD cost of per-model token usage
+ *
+ * @param tokensByModel - Token usage keyed by model identifier
+ * @param pricing - Pricing table to apply
+ * @returns Total and per-model cost
+ */
+export function calculateCost(
+  tokensByModel: Record<string, ModelTokenUsage>,
+  pricing: PricingTable
+): CostBreakdown {
+  const costByModel: Record<string, number> = {};
+  const unpricedModels: string[] = [];
+  let totalCost = 0;
+
+  for (const [model, usage] of Object.entries(tokensByModel)) {
+    const price = getOwnEntry(pricing.models, model) ?? pricing.fallback;
+    if (price === undefined) {
+      unpricedModels.push(model);
+      setOwnEntry(costByModel, model, 0);
+      continue;
+    }
+    const cost = calculateModelCost(usage, price);
+    setOwnEntry(costByModel, model, cost);
+    totalCost += cost;
+  }
+
+  return { totalCost, costByModel, unpricedModels };
+}
@@ -0,0 +1,212 @@
+/**
+ * Tests for Projects
+ */
+
+import * as path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import {
+  validateProject,
+  isProjectRoot,
+  buildProjectRollup,
+  type Project,
+} from './projects.js';
+import { EventCollector, type SessionMetadata } from './collector.js';
+import { SqliteSessionStore } from './sqlite-store.js';
+import { createSessionMetrics } from './aggregates.js';
+import { createSessionId } from './events.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+
+const api: Project = { id: 'api', name: 'API', rootPath: '/repos/api' };
+const web: Project = { id: 'web', name: 'Web', rootPath: '/repos/web' };
+
+function startSession(
+  collector: EventCollector,
+  payload: Record<string, unknown>,
+  tokens = 0
+): string {
+  const sessionId = createSessionId();
+  collector.emit(createSessionStartEvent(sessionId, payload));
+  if (tokens > 0) {
+    collector.emit(createTokensInEvent(sessionId, { count: tokens }));
+  }
+  return sessionId;
+}
+
+function metadata(status: SessionMetadata['status']): SessionMetadata {
+  return { id: createSessionId(), status, startedAt: validTimestamp };
+}
+
+// ============================================================================
+// Project Function Tests
+// ============================================================================
+
+describe('validateProject', () => {
+  it('resolves the root path', () => {
+    const result = validateProject({ ...api, rootPath: 'repos/api' });
+
+    expect(isOk(result) && result.value.rootPath).toBe(
+      path.resolve('repos/api')
+    );
+  });
+
+  it('rejects empty IDs, names and root paths', () => {
+    for (const project of [
+      { ...api, id: '' },
+      { ...api, id: 'x'.repeat(257) },
+      { ...api, name: ' ' },
+      { ...api, rootPath: '' },
+    ]) {
+      const result = validateProject(project);
+      expect(isErr(result) && result.error.code).toBe('INVALID_PROJECT');
+    }
+  });
+});
+
+describe('isProjectRoot', () => {
+  it('compares resolved paths', () => {
+    expect(isProjectRoot(api, '/repos/api/')).toBe(true);
+    expect(isProjectRoot(api, '/repos/web/../api')).toBe(true);
+    expect(isProjectRoot(api, '/repos/web')).toBe(false);
+  });
+});
+
+describe('buildProjectRollup', () => {
+  it('counts sessions by status and sums their metrics', () => {
+    const rollup = buildProjectRollup(api, [
+      {
+        metadata: metadata('completed'),
+        metrics: { ...createSessionMetrics(), totalTokensIn: 100 },
+      },
+      {
+        metadata: metadata('completed'),
+        metrics: { ...createSessionMetrics(), totalTokensIn: 50 },
+      },
+      { metadata: metadata('active'), metrics: createSessionMetrics() },
+    ]);
+
+    expect(rollup.sessionCount).toBe(3);
+    expect(rollup.sessionsByStatus).toEqual({
+      active: 1,
+      completed: 2,
+      failed: 0,
+      abandoned: 0,
+    });
+    expect(rollup.metrics.totalTokensIn).toBe(150);
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector projects', () => {
+  it('registers, updates and looks up projects', () => {
+    const collector = new EventCollector();
+
+    collector.registerProject(api);
+    collector.registerProject(web);
+    const renamed = collector.registerProject({ ...api, name: 'API v2' });
+
+    expect(isOk(renamed)).toBe(true);
+    expect(collector.listProjects().map((p) => p.name)).toEqual([
+      'API v2',
+      'Web',
+    ]);
+    expect(collector.findProjectByRootPath('/repos/web/')?.id).toBe('web');
+    expect(collector.findProjectByRootPath('/repos/other')).toBeUndefined();
+    const missing = collector.getProject('other');
+    expect(isErr(missing) && missing.error.code).toBe('PROJECT_NOT_FOUND');
+    const invalid = collector.registerProject({ ...web, name: '' });
+    expect(isErr(invalid) && invalid.error.code).toBe('INVALID_PROJECT');
+  });
+
+  it('assigns sessions to a project from session_start', () => {
+    const collector = new EventCollector();
+    collector.registerProject(api);
+
+    const sessionId = startSession(collector, { projectId: 'api' });
+    const rejected = collector.emit(
+      createSessionStartEvent(createSessionId(), { projectId: 'other' })
+    );
+
+    const result = collector.getSessionMetadata(sessionId);
+    expect(isOk(result) && result.value.projectId).toBe('api');
+    expect(isErr(rejected) && rejected.error.code).toBe('PROJECT_NOT_FOUND');
+    expect(collector.getAllSessions()).toHaveLength(1);
+  });
+
+  it("inherits the parent session's project", () => {
+    const collector = new EventCollector();
+    collector.registerProject(api);
+    collector.registerProject(web);
+    const parent = startSession(collector, { projectId: 'api' });
+
+    const child = startSession(collector, { parentSessionId: parent });
+    const other = startSession(collector, {
+      parentSessionId: parent,
+      projectId: 'web',
+    });
+
+    const childMetadata = collector.getSessionMetadata(child);
+    const otherMetadata = collector.getSessionMetadata(other);
+    expect(isOk(childMetadata) && childMetadata.value.projectId).toBe('api');
+    expect(isOk(otherMetadata) && otherMetadata.value.projectId).toBe('web');
+  });
+
+  it('scopes queries and roll-ups to a project', () => {
+    const collector = new EventCollector();
+    collector.registerProject(api);
+    collector.registerProject(web);
+    const first = startSession(collector, { projectId: 'api' }, 100);
+    const second = startSession(collector, { projectId: 'api' }, 40);
+    startSession(collector, { projectId: 'web' }, 7);
+    startSession(collector, {}, 1);
+    collector.emit(createSessionEndEvent(first, { success: true }));
+
+    const page = collector.querySessions({
+      projectId: 'api',
+      metadataOnly: true,
+    });
+    const rollup = collector.getProjectRollup('api');
+
+    expect(isOk(page) && page.value.items.map((m) => m.id).sort()).toEqual(
+      [first, second].sort()
+    );
+    expect(isOk(rollup)).toBe(true);
+    if (isOk(rollup)) {
+      expect(rollup.value.project).toEqual(api);
+      expect(rollup.value.sessionCount).toBe(2);
+      expect(rollup.value.sessionsByStatus).toMatchObject({
+        active: 1,
+        completed: 1,
+      });
+      expect(rollup.value.metrics.totalTokensIn).toBe(140);
+    }
+    const missing = collector.getProjectRollup('other');
+    expect(isErr(missing) && missing.error.code).toBe('PROJECT_NOT_FOUND');
+  });
+
+  it('keeps projects in a SQLite store', () => {
+    const store = new SqliteSessionStore();
+    const collector = new EventCollector({ store });
+    collector.registerProject(api);
+    startSession(collector, { projectId: 'api' }, 25);
+
+    const restarted = new EventCollector({ store });
+    const rollup = restarted.getProjectRollup('api');
+
+    expect(isOk(rollup) && rollup.value.metrics.totalTokensIn).toBe(25);
+    store.close();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Projects for RalphMeter
+ *
+ * A project groups the sessions run against one codebase. Sessions join
+ * a project through session_start, and a project's root path matches
+ * the rootPath of the codebase snapshots taken of it.
+ *
+ * Projects travel with collector snapshots and are passed to event log
+ * replays, so sessions keep their project on another machine. Session
+ * IDs are UUIDs and unique across all projects and machines; projects do
+ * not namespace them, and two sessions with the same ID are the same
+ * session wherever they were recorded.
+ */
+
+import * as path from 'node:path';
+import { type Result, ok, err } from '../shared/result.js';
+import type {
+  SessionMetadata,
+  SessionMetrics,
+  SessionStatus,
+} from './collector.js';
+import { createSessionMetrics, mergeSessionMetrics } from './aggregates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A codebase that sessions are run against
+ */
+export interface Project {
+  /** Unique project identifier, referenced by session_start */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Absolute root path of the codebase */
+  rootPath: string;
+}
+
+/**
+ * Totals across all sessions of a project
+ */
+export interface ProjectRollup {
+  /** The project */
+  project: Project;
+  /** Number of sessions in the project */
+  sessionCount: number;
+  /** Number of sessions by status */
+  sessionsByStatus: Record<SessionStatus, number>;
+  /** Metrics of all the project's sessions combined */
+  metrics: SessionMetrics;
+}
+
+/**
+ * Error types for project validation
+ */
+export interface ProjectError {
+  code: 'INVALID_PROJECT';
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Maximum length of a project ID
+ */
+export const MAX_PROJECT_ID_LENGTH = 256;
+
+// ============================================================================
+// Project Functions
+// ============================================================================
+
+/**
+ * Validates a project and resolves its root path to an absolute path, as
+ * snapshotCodebase() does
+ *
+ * @param project - The project to validate
+ * @returns Result with the normalized project or error
+ */
+export function validateProject(
+  project: Project
+): Result<Project, ProjectError> {
+  if (project.id.length === 0 || project.id.length > MAX_PROJECT_ID_LENGTH) {
+    return err({
+      code: 'INVALID_PROJECT',
+      message: `Invalid project ID: "${project.id}". Must be 1-${String(MAX_PROJECT_ID_LENGTH)} characters.`,
+    });
+  }
+  if (project.name.trim().length === 0) {
+    return err({
+      code: 'INVALID_PROJECT',
+      message: `Project name cannot be empty: ${project.id}`,
+    });
+  }
+  if (project.rootPath.trim().length === 0) {
+    return err({
+      code: 'INVALID_PROJECT',
+      message: `Project root path cannot be empty: ${project.id}`,
+    });
+  }
+  return ok({
+    id: project.id,
+    name: project.name,
+    rootPath: path.resolve(project.rootPath),
+  });
+}
+
+/**
+ * Checks whether a path is a project's root path
+ *
+ * @param project - The project
+ * @param rootPath - Path to compare (resolved to an absolute path)
+ * @returns True if both resolve to the same path
+ */
+export function isProjectRoot(project: Project, rootPath: string): boolean {
+  return project.rootPath === path.resolve(rootPath);
+}
+
+/**
+ * Rolls up a project's sessions
+ *
+ * @param project - The project
+ * @param sessions - Metadata and metrics of each session in the project
+ * @returns The project roll-up
+ */
+export function buildProjectRollup(
+  project: Project,
+  sessions: { metadata: SessionMetadata; metrics: SessionMetrics }[]
+): ProjectRollup {
+  const rollup: ProjectRollup = {
+    project,
+    sessionCount: sessions.length,
+    sessionsByStatus: { active: 0, completed: 0, failed: 0, abandoned: 0 },
+    metrics: createSessionMetrics(),
+  };
+  for (const { metadata, metrics } of sessions) {
+    rollup.sessionsByStatus[metadata.status]++;
+    mergeSessionMetrics(rollup.metrics, metrics);
+  }
+  return rollup;
+}
@@ -0,0 +1,280 @@
+/**
+ * Tests for Session Queries
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  querySessionMetadata,
+  matchesQuery,
+  toMetadataFilter,
+} from './query.js';
+import { EventCollector, type SessionMetadata } from './collector.js';
+import { createSessionId } from './events.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+function createMetadata(
+  id: string,
+  startedAt: string,
+  overrides: Partial<SessionMetadata> = {}
+): SessionMetadata {
+  return { id, status: 'active', startedAt, ...overrides };
+}
+
+const sessionA = createMetadata('a', '2026-01-01T00:00:00.000Z', {
+  status: 'completed',
+  endedAt: '2026-01-01T01:00:00.000Z',
+  tags: { methodology: 'tdd', model: 'opus' },
+});
+const sessionB = createMetadata('b', '2026-01-02T00:00:00.000Z', {
+  status: 'failed',
+  endedAt: '2026-01-02T00:30:00.000Z',
+  tags: { methodology: 'plain' },
+});
+const sessionC = createMetadata('c', '2026-01-03T00:00:00.000Z', {
+  tags: { methodology: 'tdd' },
+});
+const sessionD = createMetadata('d', '2026-01-03T00:00:00.000Z');
+const sessions = [sessionA, sessionB, sessionC, sessionD];
+
+// ============================================================================
+// matchesQuery Tests
+// ============================================================================
+
+describe('matchesQuery', () => {
+  it('filters by single status and status list', () => {
+    expect(matchesQuery(sessionA, { status: 'completed' })).toBe(true);
+    expect(
+      matchesQuery(sessionB, {
+        status: ['completed', 'active'],
+      })
+    ).toBe(false);
+  });
+
+  it('requires every tag to match', () => {
+    expect(matchesQuery(sessionA, { tags: { methodology: 'tdd' } })).toBe(true);
+    expect(
+      matchesQuery(sessionA, { tags: { methodology: 'tdd', model: 'sonnet' } })
+    ).toBe(false);
+    expect(
+      matchesQuery(sessionD, {
+        tags: { methodology: 'tdd' },
+      })
+    ).toBe(false);
+  });
+
+  it('filters by project', () => {
+    const inProject = { ...sessionA, projectId: 'api' };
+
+    expect(matchesQuery(inProject, { projectId: 'api' })).toBe(true);
+    expect(matchesQuery(inProject, { projectId: 'web' })).toBe(false);
+    expect(matchesQuery(sessionA, { projectId: 'api' })).toBe(false);
+  });
+
+  it('excludes sessions without endedAt from endedAt ranges', () => {
+    expect(
+      matchesQuery(sessionC, {
+        endedBefore: '2027-01-01T00:00:00.000Z',
+      })
+    ).toBe(false);
+  });
+});
+
+// ============================================================================
+// querySessionMetadata Tests
+// ============================================================================
+
+describe('toMetadataFilter', () => {
+  it('keeps status and valid start bounds for the store', () => {
+    expect(
+      toMetadataFilter({
+        status: 'active',
+        tags: { mode: 'tdd' },
+        startedAfter: '2026-01-01T00:00:00.000Z',
+        startedBefore: 'not-a-date',
+        endedAfter: '2026-01-02T00:00:00.000Z',
+      })
+    ).toEqual({
+      status: ['active'],
+      startedAfter: '2026-01-01T00:00:00.000Z',
+    });
+    expect(toMetadataFilter({})).toEqual({});
+  });
+});
+
+describe('querySessionMetadata', () => {
+  it('returns everything sorted by startedAt by default', () => {
+    const result = querySessionMetadata([...sessions].reverse());
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.items.map((m) => m.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(result.value.total).toBe(4);
+      expect(result.value.nextCursor).toBeNull();
+    }
+  });
+
+  it('filters by startedAt range inclusively', () => {
+    const result = querySessionMetadata(sessions, {
+      startedAfter: '2026-01-02T00:00:00.000Z',
+      startedBefore: '2026-01-02T23:59:59.000Z',
+    });
+
+    if (isOk(result)) {
+      expect(result.value.items.map((m) => m.id)).toEqual(['b']);
+    }
+  });
+
+  it('sorts descending with sessions missing the sort field last', () => {
+    const result = querySessionMetadata(sessions, {
+      sortBy: 'endedAt',
+      order: 'desc',
+    });
+
+    if (isOk(result)) {
+      expect(result.value.items.map((m) => m.id)).toEqual(['b', 'a', 'c', 'd']);
+    }
+  });
+
+  it('paginates with a cursor', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const result = querySessionMetadata(sessions, {
+        limit: 3,
+        ...(cursor !== undefined && { cursor }),
+      });
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) {
+        break;
+      }
+      seen.push(...result.value.items.map((m) => m.id));
+      cursor = result.value.nextCursor ?? undefined;
+      pages++;
+    } while (cursor !== undefined);
+
+    expect(pages).toBe(2);
+    expect(seen).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('rejects malformed cursors', () => {
+    const result = querySessionMetadata(sessions, { cursor: 'not-a-cursor' });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('INVALID_CURSOR');
+    }
+  });
+
+  it('rejects invalid limits and timestamps', () => {
+    const badLimit = querySessionMetadata(sessions, { limit: 0 });
+    const badTime = querySessionMetadata(sessions, {
+      startedAfter: 'yesterday',
+    });
+
+    expect(isErr(badLimit) && badLimit.error.code).toBe('INVALID_QUERY');
+    expect(isErr(badTime) && badTime.error.code).toBe('INVALID_QUERY');
+  });
+});
+
+// ============================================================================
+// EventCollector.querySessions Tests
+// ============================================================================
+
+describe('EventCollector.querySessions', () => {
+  let collector: EventCollector;
+  let tddId: string;
+  let plainId: string;
+
+  beforeEach(() => {
+    collector = new EventCollector();
+    tddId = createSessionId();
+    plainId = createSessionId();
+
+    collector.emit(
+      createSessionStartEvent(
+        tddId,
+        {
+          tags: { methodology: 'tdd' },
+        },
+        '2026-01-01T00:00:00.000Z'
+      )
+    );
+    collector.emit(
+      createTokensInEvent(
+        tddId,
+        {
+          count: 10,
+        },
+        '2026-01-01T00:01:00.000Z'
+      )
+    );
+    collector.emit(
+      createSessionEndEvent(
+        tddId,
+        {
+          success: true,
+        },
+        '2026-01-01T00:02:00.000Z'
+      )
+    );
+    collector.emit(
+      createSessionStartEvent(
+        plainId,
+        {
+          tags: { methodology: 'plain' },
+        },
+        '2026-01-02T00:00:00.000Z'
+      )
+    );
+  });
+
+  it('returns full sessions matching tags', () => {
+    const result = collector.querySessions({ tags: { methodology: 'tdd' } });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.items).toHaveLength(1);
+      expect(result.value.items[0]?.metadata.id).toBe(tddId);
+      expect(result.value.items[0]?.events).toHaveLength(3);
+    }
+  });
+
+  it('returns metadata only when requested', () => {
+    const result = collector.querySessions({
+      status: 'active',
+      metadataOnly: true,
+    });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.items).toEqual([
+        {
+          id: plainId,
+          status: 'active',
+          startedAt: '2026-01-02T00:00:00.000Z',
+          tags: { methodology: 'plain' },
+        },
+      ]);
+    }
+  });
+
+  it('surfaces query errors as collector errors', () => {
+    const result = collector.querySessions({ cursor: '!!!' });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('INVALID_CURSOR');
+    }
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Session Queries for RalphMeter
+ *
+ * Filtering, sorting and cursor pagination over session metadata.
+ */
+
+import { type Result, ok, err } from '../shared/result.js';
+import type { SessionMetadata, SessionStatus } from './collector.js';
+import type { MetadataFilter } from './store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Field sessions can be sorted by
+ */
+export type SessionSortField = 'startedAt' | 'endedAt';
+
+/**
+ * Sort direction
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Filters, sorting and pagination for a session query.
+ * All filters are combined with AND; omitted filters match everything.
+ */
+export interface SessionQuery {
+  /** Only sessions with one of these statuses */
+  status?: SessionStatus | SessionStatus[];
+  /** Only sessions in this project */
+  projectId?: string;
+  /** Only sessions whose tags contain every key/value pair */
+  tags?: Record<string, string>;
+  /** Only sessions started at or after this ISO timestamp */
+  startedAfter?: string;
+  /** Only sessions started at or before this ISO timestamp */
+  startedBefore?: string;
+  /** Only sessions ended at or after this ISO timestamp */
+  endedAfter?: string;
+  /** Only sessions ended at or before this ISO timestamp */
+  endedBefore?: string;
+  /** Sort field (defaults to 'startedAt') */
+  sortBy?: SessionSortField;
+  /** Sort direction (defaults to 'asc') */
+  order?: SortOrder;
+  /** Maximum number of sessions per page (defaults to 50) */
+  limit?: number;
+  /** Cursor from a previous page's nextCursor */
+  cursor?: string;
+  /** Return metadata only, without events */
+  metadataOnly?: boolean;
+}
+
+/**
+ * One page of query results
+ */
+export interface SessionPage<T> {
+  /** Matching items on this page */
+  items: T[];
+  /** Cursor for the next page, or null if this is the last page */
+  nextCursor: string | null;
+  /** Total number of sessions matching the filters */
+  total: number;
+}
+
+/**
+ * Error types for session queries
+ */
+export interface QueryError {
+  code: 'INVALID_CURSOR' | 'INVALID_QUERY';
+  message: string;
+}
+
+/**
+ * Decoded cursor contents: the sort position of the last returned item
+ */
+interface CursorPosition {
+  key: number | null;
+  id: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default page size
+ */
+export const DEFAULT_QUERY_LIMIT = 50;
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Applies a query's filters, sort order and pagination to session metadata.
+ *
+ * Sessions without a value for the sort field (e.g. active sessions sorted
+ * by endedAt) sort after all others. Ties are broken by session ID.
+ *
+ * @param metadata - Metadata for all candidate sessions
+ * @param query - The query to apply
+ * @returns The requested page, or an error for an invalid query or cursor
+ */
+export function querySessionMetadata(
+  metadata: SessionMetadata[],
+  query: SessionQuery = {}
+): Result<SessionPage<SessionMetadata>, QueryError> {
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return err({
+      code: 'INVALID_QUERY',
+      message: `Invalid limit: ${String(limit)}. Must be a positive integer.`,
+    });
+  }
+
+  const bounds = [
+    query.startedAfter,
+    query.startedBefore,
+    query.endedAfter,
+    query.endedBefore,
+  ];
+  for (const bound of bounds) {
+    if (bound !== undefined && Number.isNaN(Date.parse(bound))) {
+      return err({
+        code: 'INVALID_QUERY',
+        message: `Invalid timestamp: ${bound}`,
+      });
+    }
+  }
+
+  let position: CursorPosition | null = null;
+  if (query.cursor !== undefined) {
+    position = decodeCursor(query.cursor);
+    if (position === null) {
+      return err({
+        code: 'INVALID_CURSOR',
+        message: `Invalid cursor: ${query.cursor}`,
+      });
+    }
+  }
+
+  const sortBy = query.sortBy ?? 'startedAt';
+  const direction = (query.order ?? 'asc') === 'asc' ? 1 : -1;
+
+  const matching = metadata.filter((m) => matchesQuery(m, query));
+  const compare = (
+    a: { key: number | null; id: string },
+    b: { key: number | null; id: string }
+  ): number => {
+    if (a.key !== b.key) {
+      if (a.key === null) {
+        return 1;
+      }
+      if (b.key === null) {
+        return -1;
+      }
+      return (a.key - b.key) * direction;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  };
+
+  const sorted = matching
+    .map((m) => ({ key: sortKey(m, sortBy), id: m.id, metadata: m }))
+    .sort(compare);
+
+  const start =
+    position === null
+      ? 0
+      : sorted.findIndex((entry) => compare(entry, position) > 0);
+  const page = start === -1 ? [] : sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < sorted.length;
+
+  return ok({
+    items: page.map((entry) => entry.metadata),
+    nextCursor:
+      hasMore && last !== undefined
+        ? encodeCursor({ key: last.key, id: last.id })
+        : null,
+    total: matching.length,
+  });
+}
+
+/**
+ * Gets the part of a query's filters that a store can apply to its
+ * indexed columns. Unparseable bounds are left out, for
+ * querySessionMetadata() to reject.
+ *
+ * @param query - The query
+ * @returns Filter for SessionStore.listMetadata()
+ */
+export function toMetadataFilter(query: SessionQuery): MetadataFilter {
+  const filter: MetadataFilter = {};
+  if (query.status !== undefined) {
+    filter.status = Array.isArray(query.status) ? query.status : [query.status];
+  }
+  if (isTimestamp(query.startedAfter)) {
+    filter.startedAfter = query.startedAfter;
+  }
+  if (isTimestamp(query.startedBefore)) {
+    filter.startedBefore = query.startedBefore;
+  }
+  return filter;
+}
+
+/**
+ * Checks whether session metadata matches a query's filters
+ */
+export function matchesQuery(
+  metadata: SessionMetadata,
+  query: SessionQuery
+): boolean {
+  if (query.status !== undefined) {
+    const statuses = Array.isArray(query.status)
+      ? query.status
+      : [query.status];
+    if (!statuses.includes(metadata.status)) {
+      return false;
+    }
+  }
+
+  if (query.projectId !== undefined && metadata.projectId !== query.projectId) {
+    return false;
+  }
+
+  if (query.tags !== undefined) {
+    for (const [key, value] of Object.entries(query.tags)) {
+      if (metadata.tags?.[key] !== value) {
+        return false;
+      }
+    }
+  }
+
+  const started = Date.parse(metadata.startedAt);
+  if (!withinRange(started, query.startedAfter, query.startedBefore)) {
+    return false;
+  }
+
+  if (query.endedAfter !== undefined || query.endedBefore !== undefined) {
+    if (metadata.endedAt === undefined) {
+      return false;
+    }
+    const ended = Date.parse(metadata.endedAt);
+    if (!withinRange(ended, query.endedAfter, query.endedBefore)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Checks whether an optional value is a parseable timestamp
+ */
+function isTimestamp(value: string | undefined): value is string {
+  return value !== undefined && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Checks an epoch time against optional inclusive ISO bounds
+ */
+function withinRange(time: number, after?: string, before?: string): boolean {
+  if (after !== undefined && time < Date.parse(after)) {
+    return false;
+  }
+  if (before !== undefined && time > Date.parse(before)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Gets the numeric sort key for a session, or null if unset
+ */
+function sortKey(
+  metadata: SessionMetadata,
+  field: SessionSortField
+): number | null {
+  const value = metadata[field];
+  return value !== undefined ? Date.parse(value) : null;
+}
+
+/**
+ * Encodes a cursor position as an opaque string
+ */
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor string, returning null if it is malformed
+ */
+function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const parsed: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    );
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      'id' in parsed &&
+      'key' in parsed &&
+      typeof parsed.id === 'string' &&
+      (typeof parsed.key === 'number' || parsed.key === null)
+    ) {
+      return { key: parsed.key, id: parsed.id };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Tests for Retention Policy
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compactEvents,
+  selectEvictions,
+  type SessionEviction,
+} from './retention.js';
+import { EventCollector, type SessionMetadata } from './collector.js';
+import { SqliteSessionStore } from './sqlite-store.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { calculateSessionMetrics } from './aggregates.js';
+import { buildSessionBreakdown } from './breakdown.js';
+import { clusterDiagnostics } from './diagnostics.js';
+import { fixedClock } from '../shared/clock.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  at,
+  createCompilationResultEvent,
+  createIterationEndEvent,
+  createIterationStartEvent,
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+  createTokensOutEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const startTimestamp = '2026-01-30T12:00:00.000Z';
+const endTimestamp = '2026-01-30T13:00:00.000Z';
+const now = Date.parse('2026-01-31T12:00:00.000Z');
+const hourMs = 60 * 60 * 1000;
+
+function metadata(
+  id: string,
+  status: SessionMetadata['status'],
+  endedAt?: string
+): SessionMetadata {
+  return {
+    id,
+    status,
+    startedAt: startTimestamp,
+    ...(endedAt !== undefined && { endedAt }),
+  };
+}
+
+function emitSession(
+  collector: EventCollector,
+  sessionId: string,
+  tokenEvents = 1,
+  endedAt: string = endTimestamp
+): void {
+  collector.emit(createSessionStartEvent(sessionId));
+  for (let i = 0; i < tokenEvents; i++) {
+    collector.emit(
+      createTokensInEvent(sessionId, { count: 10 * (i + 1) }, endedAt)
+    );
+  }
+  collector.emit(createSessionEndEvent(sessionId, { success: true }, endedAt));
+}
+
+function storySessionEvents(sessionId: string): MeterEvent[] {
+  const failed = createCompilationResultEvent(
+    sessionId,
+    {
+      success: false,
+      errors: [
+        { file: 'src/a.ts', line: 3, message: 'TS2532', code: 'TS2532' },
+      ],
+    },
+    at(3)
+  );
+  const story = { iterationNumber: 1, storyId: 'US-001' };
+  return [
+    createSessionStartEvent(sessionId, {}, at(0)),
+    createIterationStartEvent(sessionId, story, at(1)),
+    createTokensInEvent(sessionId, { count: 400 }, at(2)),
+    failed,
+    createTokensOutEvent(sessionId, { count: 500 }, at(4)),
+    { ...failed, timestamp: at(5) },
+    createTokensInEvent(sessionId, { count: 100 }, at(6)),
+    createIterationEndEvent(sessionId, { ...story, success: true }, at(7)),
+    createSessionEndEvent(sessionId, { success: true }, at(8)),
+  ];
+}
+
+// ============================================================================
+// Retention Function Tests
+// ============================================================================
+
+describe('compactEvents', () => {
+  it('accumulates removed events across compactions', () => {
+    const id = createSessionId();
+    const first = [
+      createTokensInEvent(id, { count: 5 }, endTimestamp),
+      createTokensInEvent(id, { count: 7 }),
+    ];
+    const second = [createTokensOutEvent(id, { count: 3 }, endTimestamp)];
+
+    const history = compactEvents(compactEvents(undefined, first), second);
+
+    expect(history.eventCount).toBe(3);
+    expect(history.firstTimestamp).toBe(startTimestamp);
+    expect(history.lastTimestamp).toBe(endTimestamp);
+    expect(history.metrics).toEqual(
+      calculateSessionMetrics([...first, ...second])
+    );
+  });
+
+  it('carries open iterations and diagnostics across compactions', () => {
+    const id = createSessionId();
+    const events = storySessionEvents(id);
+
+    const history = compactEvents(
+      compactEvents(undefined, events.slice(0, 4)),
+      events.slice(4)
+    );
+
+    expect(history.breakdown).toEqual(buildSessionBreakdown(events));
+    expect(history.diagnostics).toEqual(clusterDiagnostics(events));
+  });
+});
+
+describe('selectEvictions', () => {
+  it('evicts sessions past the maximum age', () => {
+    const sessions = [
+      metadata('old', 'completed', '2026-01-30T10:00:00.000Z'),
+      metadata('recent', 'failed', '2026-01-31T11:30:00.000Z'),
+      metadata('running', 'active'),
+    ];
+
+    expect(
+      selectEvictions(sessions, { maxCompletedAgeMs: hourMs }, now)
+    ).toEqual([{ sessionId: 'old', reason: 'maxAge' }]);
+  });
+
+  it('evicts the oldest ended sessions beyond the maximum count', () => {
+    const sessions = [
+      metadata('b', 'completed', '2026-01-30T11:00:00.000Z'),
+      metadata('a', 'abandoned', '2026-01-30T10:00:00.000Z'),
+      metadata('c', 'completed', '2026-01-30T12:00:00.000Z'),
+      metadata('running', 'active'),
+    ];
+
+    expect(selectEvictions(sessions, { maxSessions: 2 }, now)).toEqual([
+      { sessionId: 'a', reason: 'maxSessions' },
+      { sessionId: 'b', reason: 'maxSessions' },
+    ]);
+  });
+
+  it('never evicts active sessions', () => {
+    const sessions = [metadata('x', 'active'), metadata('y', 'active')];
+
+    expect(
+      selectEvictions(sessions, { maxSessions: 0, maxCompletedAgeMs: 0 }, now)
+    ).toEqual([]);
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector retention', () => {
+  it('keeps everything without a policy', () => {
+    const collector = new EventCollector();
+    emitSession(collector, createSessionId(), 5);
+
+    expect(collector.enforceRetention()).toEqual([]);
+    expect(collector.getAllSessions()[0]?.events).toHaveLength(7);
+  });
+
+  it('evicts the oldest ended session when a new one starts', () => {
+    const collector = new EventCollector({
+      retention: { maxSessions: 2 },
+      clock: fixedClock(now),
+    });
+    const evictions: SessionEviction[] = [];
+    collector.subscribeEvictions((eviction) => evictions.push(eviction));
+    const [first, second, third] = [
+      createSessionId(),
+      createSessionId(),
+      createSessionId(),
+    ];
+    emitSession(collector, first, 1, '2026-01-30T12:10:00.000Z');
+    emitSession(collector, second, 1, '2026-01-30T12:20:00.000Z');
+
+    collector.emit(createSessionStartEvent(third));
+
+    expect(isErr(collector.getSession(first))).toBe(true);
+    expect(collector.getAllSessions().map((s) => s.metadata.id)).toEqual([
+      second,
+      third,
+    ]);
+    expect(evictions).toEqual([
+      {
+        sessionId: first,
+        reason: 'maxSessions',
+        eventsRemoved: 3,
+        metadata: expect.objectContaining({ id: first, status: 'completed' }),
+        timestamp: new Date(now).toISOString(),
+      },
+    ]);
+  });
+
+  it('keeps active sessions over the session limit', () => {
+    const collector = new EventCollector({ retention: { maxSessions: 1 } });
+    const [first, second] = [createSessionId(), createSessionId()];
+
+    collector.emit(createSessionStartEvent(first));
+    collector.emit(createSessionStartEvent(second));
+
+    expect(collector.getAllSessions()).toHaveLength(2);
+  });
+
+  it('evicts sessions that ended too long ago', () => {
+    const collector = new EventCollector({
+      retention: { maxCompletedAgeMs: hourMs },
+      clock: fixedClock(endTimestamp),
+    });
+    const [old, running] = [createSessionId(), createSessionId()];
+    emitSession(collector, old);
+    collector.emit(createSessionStartEvent(running));
+
+    const evictions = collector.enforceRetention(now);
+
+    expect(evictions.map((e) => [e.sessionId, e.reason])).toEqual([
+      [old, 'maxAge'],
+    ]);
+    expect(collector.getAllSessions().map((s) => s.metadata.id)).toEqual([
+      running,
+    ]);
+  });
+
+  it('compacts old events of an ended session without changing metrics', () => {
+    const reference = new EventCollector();
+    const collector = new EventCollector({
+      retention: { maxEventsPerSession: 3 },
+    });
+    const evictions: SessionEviction[] = [];
+    collector.subscribeEvictions((eviction) => evictions.push(eviction));
+    const id = createSessionId();
+    emitSession(reference, id, 6);
+
+    emitSession(collector, id, 6);
+
+    const session = collector.getSession(id);
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(session.value.events.map((e) => e.eventType)).toEqual([
+        'tokens_in',
+        'tokens_in',
+        'session_end',
+      ]);
+      expect(session.value.metadata.compacted?.eventCount).toBe(5);
+    }
+    expect(evictions.map((e) => [e.reason, e.eventsRemoved])).toEqual([
+      ['maxEvents', 5],
+    ]);
+    expect(collector.getMetrics(id)).toEqual(reference.getMetrics(id));
+    expect(collector.recomputeMetrics(id)).toEqual(reference.getMetrics(id));
+  });
+
+  it('keeps breakdowns and diagnostics of compacted events', () => {
+    const reference = new EventCollector();
+    const collector = new EventCollector({
+      retention: { maxEventsPerSession: 3 },
+    });
+    const id = createSessionId();
+    for (const event of storySessionEvents(id)) {
+      reference.emit(event);
+      collector.emit(event);
+    }
+    const restored = new EventCollector();
+    restored.importSnapshot(
+      JSON.parse(JSON.stringify(collector.exportSnapshot())) as unknown
+    );
+
+    const breakdown = collector.getBreakdown(id);
+    expect(isOk(breakdown) && breakdown.value.stories[0]?.tokensIn).toBe(500);
+    for (const copy of [collector, restored]) {
+      expect(copy.getBreakdown(id)).toEqual(reference.getBreakdown(id));
+      expect(copy.getDiagnosticClusters(id)).toEqual(
+        reference.getDiagnosticClusters(id)
+      );
+    }
+  });
+
+  it('does not trim active sessions', () => {
+    const collector = new EventCollector({
+      retention: { maxEventsPerSession: 2 },
+    });
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    for (let i = 0; i < 5; i++) {
+      collector.emit(createTokensInEvent(id, { count: 1 }));
+    }
+
+    expect(collector.enforceRetention()).toEqual([]);
+    const session = collector.getSession(id);
+    expect(isOk(session) && session.value.events).toHaveLength(6);
+  });
+
+  it('rejects as-of timestamps inside the compacted history', () => {
+    const collector = new EventCollector({
+      retention: { maxEventsPerSession: 1 },
+    });
+    const id = createSessionId();
+    emitSession(collector, id, 2);
+
+    const result = collector.getSessionAsOf(id, { timestamp: startTimestamp });
+
+    expect(isErr(result) && result.error.code).toBe('INVALID_AS_OF');
+  });
+
+  it('trims sessions in a SQLite store', () => {
+    const store = new SqliteSessionStore();
+    const collector = new EventCollector({
+      store,
+      retention: { maxEventsPerSession: 2 },
+    });
+    const id = createSessionId();
+    emitSession(collector, id, 3);
+
+    expect(store.getSession(id)?.events).toHaveLength(2);
+    const metrics = collector.getMetrics(id);
+    expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(60);
+    store.close();
+  });
+
+  it('routes eviction listener errors to onListenerError', () => {
+    const errors: unknown[] = [];
+    const collector = new EventCollector({
+      retention: { maxCompletedAgeMs: 0 },
+      onListenerError: (error) => errors.push(error),
+    });
+    const received: string[] = [];
+    collector.subscribeEvictions(() => {
+      throw new Error('listener failed');
+    });
+    const unsubscribe = collector.subscribeEvictions((eviction) =>
+      received.push(eviction.sessionId)
+    );
+    const id = createSessionId();
+    emitSession(collector, id);
+
+    collector.enforceRetention(now);
+    unsubscribe();
+
+    expect(received).toEqual([id]);
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Retention Policy for RalphMeter
+ *
+ * Bounds how much a long-running collector keeps: ended sessions are
+ * evicted by age and count, and their oldest events are compacted into
+ * pre-aggregated metrics. Active sessions are never touched.
+ */
+
+import type { MeterEvent } from './events.js';
+import type { Session, SessionMetadata, SessionMetrics } from './collector.js';
+import { calculateSessionMetrics } from './aggregates.js';
+import {
+  type BreakdownState,
+  type SessionBreakdown,
+  buildBreakdownState,
+  findOpenIteration,
+  summarizeBreakdown,
+} from './breakdown.js';
+import {
+  type DiagnosticCluster,
+  type DiagnosticState,
+  buildDiagnosticState,
+} from './diagnostics.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Limits on what a collector retains. Omitted limits are not enforced.
+ * Only sessions that have ended (completed, failed or abandoned) are
+ * trimmed or evicted.
+ */
+export interface RetentionPolicy {
+  /** Evict the oldest ended sessions once more sessions than this are stored */
+  maxSessions?: number;
+  /** Evict sessions that ended longer ago than this */
+  maxCompletedAgeMs?: number;
+  /** Compact the oldest events of ended sessions with more events than this */
+  maxEventsPerSession?: number;
+}
+
+/**
+ * Why a session was evicted or trimmed
+ * - maxSessions: the collector held too many sessions
+ * - maxAge: the session ended too long ago
+ * - maxEvents: the session's oldest events were compacted
+ */
+export type EvictionReason = 'maxSessions' | 'maxAge' | 'maxEvents';
+
+/**
+ * Record of a session being evicted, or trimmed for maxEvents
+ */
+export interface SessionEviction {
+  /** The session ID */
+  sessionId: string;
+  /** Which limit caused the eviction */
+  reason: EvictionReason;
+  /** Raw events removed from the collector */
+  eventsRemoved: number;
+  /** Session metadata (after compaction, for maxEvents) */
+  metadata: SessionMetadata;
+  /** When retention was enforced */
+  timestamp: string;
+}
+
+/**
+ * Callback invoked when a session is evicted or trimmed
+ */
+export type EvictionListener = (eviction: SessionEviction) => void;
+
+/**
+ * Events removed from a session, kept as aggregated metrics
+ */
+export interface CompactedHistory {
+  /** Number of raw events removed */
+  eventCount: number;
+  /** Timestamp of the earliest removed event */
+  firstTimestamp: string;
+  /** Timestamp of the latest removed event */
+  lastTimestamp: string;
+  /** Metrics aggregated from the removed events */
+  metrics: SessionMetrics;
+  /** Per-iteration and per-story breakdown of the removed events */
+  breakdown: SessionBreakdown;
+  /** Diagnostic clusters of the removed events, in order of first report */
+  diagnostics: DiagnosticCluster[];
+}
+
+/**
+ * A session selected for eviction
+ */
+export interface EvictionCandidate {
+  /** The session ID */
+  sessionId: string;
+  /** Which limit selected it */
+  reason: 'maxSessions' | 'maxAge';
+}
+
+// ============================================================================
+// Retention Functions
+// ============================================================================
+
+/**
+ * Folds removed events into a session's compacted history
+ *
+ * @param previous - History compacted earlier, if any
+ * @param removed - Events being removed, oldest first
+ * @returns The combined history
+ */
+export function compactEvents(
+  previous: CompactedHistory | undefined,
+  removed: MeterEvent[]
+): CompactedHistory {
+  let first = previous?.firstTimestamp;
+  let last = previous?.lastTimestamp;
+  for (const event of removed) {
+    const time = Date.parse(event.timestamp);
+    if (first === undefined || time < Date.parse(first)) {
+      first = event.timestamp;
+    }
+    if (last === undefined || time > Date.parse(last)) {
+      last = event.timestamp;
+    }
+  }
+  return {
+    eventCount: (previous?.eventCount ?? 0) + removed.length,
+    firstTimestamp: first ?? '',
+    lastTimestamp: last ?? '',
+    metrics: calculateSessionMetrics(removed, previous?.metrics),
+    breakdown: summarizeBreakdown(
+      buildBreakdownState(removed, previous?.breakdown)
+    ),
+    diagnostics: Array.from(
+      buildCompactedDiagnosticState(previous, removed).clusters.values()
+    ),
+  };
+}
+
+/**
+ * Calculates a session's metrics from its compacted history and its
+ * remaining events
+ *
+ * @param session - The session
+ * @returns The aggregated metrics
+ */
+export function calculateRetainedMetrics(session: Session): SessionMetrics {
+  return calculateSessionMetrics(
+    session.events,
+    session.metadata.compacted?.metrics
+  );
+}
+
+/**
+ * Builds a session's breakdown state from its compacted history and its
+ * remaining events
+ *
+ * @param session - The session
+ * @returns The breakdown state
+ */
+export function buildRetainedBreakdownState(session: Session): BreakdownState {
+  return buildBreakdownState(
+    session.events,
+    session.metadata.compacted?.breakdown
+  );
+}
+
+/**
+ * Builds a session's diagnostic clustering state from its compacted
+ * history and its remaining events
+ *
+ * @param session - The session
+ * @returns The diagnostic clustering state
+ */
+export function buildRetainedDiagnosticState(
+  session: Session
+): DiagnosticState {
+  return buildCompactedDiagnosticState(
+    session.metadata.compacted,
+    session.events
+  );
+}
+
+/**
+ * Selects ended sessions to evict: first those that ended longer ago than
+ * maxCompletedAgeMs, then the oldest remaining ended sessions (by endedAt)
+ * until no more than maxSessions are left. Active sessions are never
+ * selected, so the session count can stay above maxSessions.
+ *
+ * @param sessions - Metadata of all stored sessions
+ * @param policy - The retention policy
+ * @param now - Current time in epoch milliseconds
+ * @returns Sessions to evict, in eviction order
+ */
+export function selectEvictions(
+  sessions: SessionMetadata[],
+  policy: RetentionPolicy,
+  now: number
+): EvictionCandidate[] {
+  const candidates: EvictionCandidate[] = [];
+  const ended = sessions
+    .filter((metadata) => metadata.status !== 'active')
+    .sort((a, b) => endTime(a) - endTime(b));
+
+  let remaining = ended;
+  const maxAge = policy.maxCompletedAgeMs;
+  if (maxAge !== undefined) {
+    remaining = [];
+    for (const metadata of ended) {
+      if (now - endTime(metadata) > maxAge) {
+        candidates.push({ sessionId: metadata.id, reason: 'maxAge' });
+      } else {
+        remaining.push(metadata);
+      }
+    }
+  }
+
+  if (policy.maxSessions !== undefined) {
+    let excess = sessions.length - candidates.length - policy.maxSessions;
+    for (const metadata of remaining) {
+      if (excess <= 0) {
+        break;
+      }
+      candidates.push({ sessionId: metadata.id, reason: 'maxSessions' });
+      excess--;
+    }
+  }
+
+  return candidates;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Builds diagnostic clustering state for events that follow a compacted
+ * history, starting in the iteration left open by the history
+ */
+function buildCompactedDiagnosticState(
+  compacted: CompactedHistory | undefined,
+  events: MeterEvent[]
+): DiagnosticState {
+  if (compacted === undefined) {
+    return buildDiagnosticState(events);
+  }
+  const open = findOpenIteration(compacted.breakdown);
+  return buildDiagnosticState(
+    events,
+    compacted.diagnostics,
+    open === null
+      ? null
+      : { iterationNumber: open.iterationNumber, storyId: open.storyId }
+  );
+}
+
+/**
+ * Gets when a session ended in epoch milliseconds, falling back to its
+ * start for sessions without an end time
+ */
+function endTime(metadata: SessionMetadata): number {
+  return Date.parse(metadata.endedAt ?? metadata.startedAt);
+}
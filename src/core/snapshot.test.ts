@@ -0,0 +1,562 @@
+/**
+ * Tests for Collector Snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SNAPSHOT_VERSION,
+  parseSnapshot,
+  mergeSessions,
+  type CollectorSnapshot,
+} from './snapshot.js';
+import { EventCollector, type Session } from './collector.js';
+import { InMemorySessionStore } from './store.js';
+import { SqliteSessionStore } from './sqlite-store.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { fixedClock } from '../shared/clock.js';
+import { isOk, isErr } from '../shared/result.js';
+import {
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+  createTokensOutEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+const endTimestamp = '2026-01-30T12:30:00.000Z';
+
+function emitSession(collector: EventCollector, sessionId: string): void {
+  collector.emit(createSessionStartEvent(sessionId));
+  collector.emit(createTokensInEvent(sessionId, { count: 100 }));
+  collector.emit(
+    createSessionEndEvent(sessionId, { success: true }, endTimestamp)
+  );
+}
+
+function snapshotOf(sessions: unknown[]): unknown {
+  return {
+    snapshotVersion: SNAPSHOT_VERSION,
+    exportedAt: validTimestamp,
+    sessions,
+  };
+}
+
+function activeSession(sessionId: string, events: MeterEvent[]): Session {
+  return {
+    metadata: { id: sessionId, status: 'active', startedAt: validTimestamp },
+    events,
+  };
+}
+
+// ============================================================================
+// parseSnapshot Tests
+// ============================================================================
+
+describe('parseSnapshot', () => {
+  it('rejects documents that are not snapshots', () => {
+    expect(isErr(parseSnapshot(null))).toBe(true);
+    expect(isErr(parseSnapshot({ sessions: 'none' }))).toBe(true);
+
+    const result = parseSnapshot({ snapshotVersion: 99, sessions: [] });
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('INVALID_SNAPSHOT');
+      expect(result.error.message).toContain('99');
+    }
+  });
+
+  it('keeps valid events and lists rejected entries', () => {
+    const id = createSessionId();
+    const other = createSessionId();
+    const result = parseSnapshot(
+      snapshotOf([
+        {
+          metadata: { id, status: 'active', startedAt: validTimestamp },
+          events: [
+            createSessionStartEvent(id),
+            createTokensInEvent(id, { count: -5 }),
+            createTokensInEvent(other, { count: 5 }),
+            createTokensInEvent(id, { count: 5 }),
+          ],
+        },
+        { metadata: { id, status: 'active', startedAt: validTimestamp } },
+        {
+          metadata: { id: other, status: 'paused', startedAt: validTimestamp },
+          events: [],
+        },
+        {
+          metadata: { id, status: 'active', startedAt: validTimestamp },
+          events: [],
+        },
+      ])
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.sessions).toHaveLength(1);
+      expect(result.value.sessions[0]?.events.map((e) => e.eventType)).toEqual([
+        'session_start',
+        'tokens_in',
+      ]);
+      expect(
+        result.value.rejected.map((r) => [r.sessionIndex, r.eventIndex, r.code])
+      ).toEqual([
+        [0, 1, 'VALIDATION_ERROR'],
+        [0, 2, 'SESSION_MISMATCH'],
+        [1, null, 'INVALID_SESSION'],
+        [2, null, 'INVALID_SESSION'],
+        [3, null, 'DUPLICATE_SESSION'],
+      ]);
+      expect(result.value.rejected[0]?.details).toBeDefined();
+    }
+  });
+
+  it('rejects malformed metadata and invalid budgets', () => {
+    const ids = [createSessionId(), createSessionId(), createSessionId()];
+    const result = parseSnapshot(
+      snapshotOf(
+        [
+          {
+            compacted: {
+              eventCount: 1,
+              firstTimestamp: validTimestamp,
+              lastTimestamp: validTimestamp,
+              metrics: {},
+            },
+          },
+          { budget: { maxTokens: { soft: 200, hard: 100 } } },
+          { warnings: [{ code: 'UNKNOWN', message: '', timestamp: '' }] },
+        ].map((fields, i) => ({
+          metadata: {
+            ...activeSession(ids[i] ?? '', []).metadata,
+            ...fields,
+          },
+          events: [],
+        }))
+      )
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.sessions).toEqual([]);
+      expect(result.value.rejected.map((r) => [r.sessionId, r.code])).toEqual(
+        ids.map((id) => [id, 'INVALID_SESSION'])
+      );
+      expect(result.value.rejected[1]?.message).toContain(
+        'exceeds its hard limit'
+      );
+    }
+  });
+
+  it('rejects sessions with missing parents or parent cycles', () => {
+    const [self, a, b, child, orphan, stored] = Array.from(
+      { length: 6 },
+      createSessionId
+    );
+    const withParent = (id = '', parentSessionId = ''): Session => ({
+      metadata: { ...activeSession(id, []).metadata, parentSessionId },
+      events: [],
+    });
+
+    const result = parseSnapshot(
+      snapshotOf([
+        withParent(self, self),
+        withParent(a, b),
+        withParent(b, a),
+        withParent(child, orphan),
+        withParent(orphan, createSessionId()),
+        withParent(createSessionId(), stored),
+      ]),
+      {
+        getStoredMetadata: (id) =>
+          id === stored ? activeSession(stored, []).metadata : undefined,
+      }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(
+        result.value.sessions.map((s) => s.metadata.parentSessionId)
+      ).toEqual([stored]);
+      expect(result.value.rejected.map((r) => r.sessionId)).toEqual([
+        self,
+        a,
+        b,
+        child,
+        orphan,
+      ]);
+      expect(result.value.rejected[0]?.message).toContain('cycle');
+    }
+  });
+});
+
+// ============================================================================
+// mergeSessions Tests
+// ============================================================================
+
+describe('mergeSessions', () => {
+  it('appends only events the existing session lacks', () => {
+    const id = createSessionId();
+    const start = createSessionStartEvent(id);
+    const tokens = createTokensInEvent(id, { count: 5 });
+    const retried = {
+      ...createTokensOutEvent(id, { count: 7 }),
+      eventId: 'evt-1',
+    };
+
+    const { newEvents } = mergeSessions(
+      activeSession(id, [start, { ...retried, timestamp: endTimestamp }]),
+      activeSession(id, [start, retried, tokens])
+    );
+
+    expect(newEvents).toEqual([tokens]);
+  });
+
+  it('matches events without IDs regardless of key order', () => {
+    const id = createSessionId();
+    const tokens = createTokensInEvent(id, { count: 5 });
+    const { payload, ...rest } = tokens;
+    const reordered = { payload, ...rest } as MeterEvent;
+
+    const { newEvents } = mergeSessions(
+      activeSession(id, [tokens]),
+      activeSession(id, [reordered, { ...tokens, eventId: 'evt-1' }])
+    );
+
+    expect(newEvents).toEqual([{ ...tokens, eventId: 'evt-1' }]);
+  });
+
+  it('merges a large session into itself without new events', () => {
+    const id = createSessionId();
+    const events = Array.from({ length: 4000 }, (_, i) =>
+      createTokensInEvent(id, { count: i })
+    );
+
+    const { newEvents } = mergeSessions(
+      activeSession(id, events),
+      activeSession(id, events)
+    );
+
+    expect(newEvents).toEqual([]);
+  });
+
+  it('takes the end state from an ended copy and combines warnings', () => {
+    const id = createSessionId();
+    const warning = {
+      code: 'STUCK_LOOP' as const,
+      message: 'stuck',
+      timestamp: validTimestamp,
+    };
+    const existing = activeSession(id, []);
+    existing.metadata.warnings = [warning];
+    const incoming: Session = {
+      metadata: {
+        id,
+        status: 'completed',
+        startedAt: validTimestamp,
+        endedAt: endTimestamp,
+        success: true,
+        warnings: [warning, { ...warning, message: 'still stuck' }],
+      },
+      events: [],
+    };
+
+    const { metadata } = mergeSessions(existing, incoming);
+
+    expect(metadata.status).toBe('completed');
+    expect(metadata.endedAt).toBe(endTimestamp);
+    expect(metadata.success).toBe(true);
+    expect(metadata.warnings?.map((w) => w.message)).toEqual([
+      'stuck',
+      'still stuck',
+    ]);
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector snapshots', () => {
+  it('round-trips sessions and metrics through JSON', () => {
+    const original = new EventCollector({ clock: fixedClock(endTimestamp) });
+    const parent = createSessionId();
+    const child = createSessionId();
+    emitSession(original, parent);
+    original.emit(createSessionStartEvent(child, { parentSessionId: parent }));
+
+    const snapshot = original.exportSnapshot();
+    const restored = new EventCollector();
+    const result = restored.importSnapshot(
+      JSON.parse(JSON.stringify(snapshot)) as unknown
+    );
+
+    expect(snapshot.snapshotVersion).toBe(SNAPSHOT_VERSION);
+    expect(snapshot.exportedAt).toBe(endTimestamp);
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.created).toEqual([parent, child]);
+      expect(result.value.rejected).toEqual([]);
+    }
+    expect(restored.getAllSessions()).toEqual(original.getAllSessions());
+    expect(restored.getMetrics(parent)).toEqual(original.getMetrics(parent));
+    const children = restored.getChildSessionIds(parent);
+    expect(isOk(children) && children.value).toEqual([child]);
+  });
+
+  it('is not affected by later events', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+
+    const snapshot = collector.exportSnapshot();
+    collector.emit(createTokensInEvent(id, { count: 5 }));
+
+    expect(snapshot.sessions[0]?.events).toHaveLength(1);
+  });
+
+  it('restores into a SQLite store', () => {
+    const original = new EventCollector();
+    const id = createSessionId();
+    emitSession(original, id);
+    const store = new SqliteSessionStore();
+    const restored = new EventCollector({ store });
+
+    restored.importSnapshot(original.exportSnapshot());
+
+    expect(store.getSession(id)).toEqual(original.getAllSessions()[0]);
+    store.close();
+  });
+
+  it('skips existing sessions by default', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    const other = new EventCollector();
+    emitSession(other, id);
+
+    const result = collector.importSnapshot(other.exportSnapshot());
+
+    expect(isOk(result) && result.value.skipped).toEqual([id]);
+    const session = collector.getSession(id);
+    expect(isOk(session) && session.value.events).toHaveLength(1);
+  });
+
+  it('replaces existing sessions and their derived state', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    collector.emit(createTokensInEvent(id, { count: 1 }));
+    collector.getMetrics(id);
+    const other = new EventCollector();
+    emitSession(other, id);
+
+    const result = collector.importSnapshot(other.exportSnapshot(), {
+      onConflict: 'replace',
+    });
+
+    expect(isOk(result) && result.value.replaced).toEqual([id]);
+    const metrics = collector.getMetrics(id);
+    expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(100);
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata) && metadata.value.status).toBe('completed');
+  });
+
+  it('merges new events into existing sessions', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id));
+    collector.getMetrics(id);
+    const other = new EventCollector();
+    emitSession(other, id);
+
+    const result = collector.importSnapshot(other.exportSnapshot(), {
+      onConflict: 'merge',
+    });
+
+    expect(isOk(result) && result.value.merged).toEqual([id]);
+    const session = collector.getSession(id);
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(session.value.events.map((e) => e.eventType)).toEqual([
+        'session_start',
+        'tokens_in',
+        'session_end',
+      ]);
+      expect(session.value.metadata.status).toBe('completed');
+    }
+    const metrics = collector.getMetrics(id);
+    expect(isOk(metrics) && metrics.value.totalTokensIn).toBe(100);
+  });
+
+  it('restores nothing on conflict under the error policy', () => {
+    const collector = new EventCollector();
+    const existing = createSessionId();
+    const fresh = createSessionId();
+    collector.emit(createSessionStartEvent(existing));
+    const other = new EventCollector();
+    other.emit(createSessionStartEvent(fresh));
+    other.emit(createSessionStartEvent(existing));
+
+    const result = collector.importSnapshot(other.exportSnapshot(), {
+      onConflict: 'error',
+    });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('SNAPSHOT_CONFLICT');
+      expect(result.error.details).toEqual({ sessionIds: [existing] });
+    }
+    expect(isErr(collector.getSession(fresh))).toBe(true);
+  });
+
+  it('rejects parent cycles through sessions it would replace', () => {
+    const collector = new EventCollector();
+    const parent = createSessionId();
+    const child = createSessionId();
+    collector.emit(createSessionStartEvent(parent));
+
+    const result = collector.importSnapshot(
+      snapshotOf([
+        {
+          metadata: {
+            ...activeSession(child, []).metadata,
+            parentSessionId: parent,
+          },
+          events: [],
+        },
+        {
+          metadata: {
+            ...activeSession(parent, []).metadata,
+            parentSessionId: child,
+          },
+          events: [],
+        },
+      ]),
+      { onConflict: 'replace' }
+    );
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.created).toEqual([]);
+      expect(result.value.replaced).toEqual([]);
+      expect(result.value.rejected.map((r) => r.code)).toEqual([
+        'INVALID_SESSION',
+        'INVALID_SESSION',
+      ]);
+    }
+    const tree = collector.getSessionTree(parent);
+    expect(isOk(tree) && tree.value.children).toEqual([]);
+  });
+
+  it('follows stored parents when checking replaced sessions for cycles', () => {
+    const collector = new EventCollector();
+    const a = createSessionId();
+    const b = createSessionId();
+    collector.emit(createSessionStartEvent(a));
+    collector.emit(createSessionStartEvent(b, { parentSessionId: a }));
+    const snapshot = snapshotOf([
+      {
+        metadata: { ...activeSession(a, []).metadata, parentSessionId: b },
+        events: [],
+      },
+    ]);
+
+    const skipped = collector.importSnapshot(snapshot);
+    const replaced = collector.importSnapshot(snapshot, {
+      onConflict: 'replace',
+    });
+
+    expect(isOk(skipped) && skipped.value.skipped).toEqual([a]);
+    expect(isOk(replaced)).toBe(true);
+    if (isOk(replaced)) {
+      expect(replaced.value.replaced).toEqual([]);
+      expect(replaced.value.rejected[0]?.message).toContain('cycle');
+    }
+    const tree = collector.getSessionTree(a);
+    expect(isOk(tree) && tree.value.children.map((c) => c.metadata.id)).toEqual(
+      [b]
+    );
+    expect(isOk(collector.getRollupMetrics(a))).toBe(true);
+  });
+
+  it('walks sessions whose stored parents form a cycle once', () => {
+    const store = new InMemorySessionStore();
+    const a = createSessionId();
+    const b = createSessionId();
+    store.createSession({
+      metadata: { ...activeSession(a, []).metadata, parentSessionId: b },
+      events: [createSessionStartEvent(a)],
+    });
+    store.createSession({
+      metadata: { ...activeSession(b, []).metadata, parentSessionId: a },
+      events: [
+        createSessionStartEvent(b),
+        createTokensInEvent(b, { count: 5 }),
+      ],
+    });
+    const collector = new EventCollector({ store });
+
+    const tree = collector.getSessionTree(a);
+    const rollup = collector.getRollupMetrics(a);
+
+    expect(isOk(tree) && tree.value.children[0]?.children).toEqual([]);
+    expect(isOk(rollup) && rollup.value.totalTokensIn).toBe(5);
+  });
+
+  it('restores projects before their sessions', () => {
+    const api = { id: 'api', name: 'API', rootPath: '/repos/api' };
+    const original = new EventCollector();
+    original.registerProject(api);
+    const id = createSessionId();
+    original.emit(createSessionStartEvent(id, { projectId: 'api' }));
+    const existing = new EventCollector();
+    existing.registerProject({ ...api, name: 'Local API' });
+
+    const snapshot = JSON.parse(JSON.stringify(original.exportSnapshot()));
+    const restored = new EventCollector();
+    const result = restored.importSnapshot(snapshot);
+    const kept = existing.importSnapshot(snapshot);
+    const invalid = restored.importSnapshot({
+      ...snapshot,
+      projects: [{ ...api, rootPath: '' }],
+    });
+
+    expect(isOk(result) && result.value.projects).toEqual(['api']);
+    expect(restored.listProjects()).toEqual([api]);
+    const metadata = restored.getSessionMetadata(id);
+    expect(isOk(metadata) && metadata.value.projectId).toBe('api');
+    expect(isOk(kept) && kept.value.projects).toEqual([]);
+    expect(existing.listProjects().map((p) => p.name)).toEqual(['Local API']);
+    expect(isErr(invalid) && invalid.error.code).toBe('INVALID_SNAPSHOT');
+  });
+
+  it('reports invalid documents and rejected events', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const snapshot: CollectorSnapshot = {
+      snapshotVersion: SNAPSHOT_VERSION,
+      exportedAt: validTimestamp,
+      sessions: [
+        activeSession(id, [
+          createSessionStartEvent(id),
+          createTokensInEvent(id, { count: -1 }),
+        ]),
+      ],
+    };
+
+    const invalid = collector.importSnapshot('not a snapshot');
+    const result = collector.importSnapshot(snapshot);
+
+    expect(isErr(invalid) && invalid.error.code).toBe('INVALID_SNAPSHOT');
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.created).toEqual([id]);
+      expect(result.value.rejected.map((r) => r.eventIndex)).toEqual([1]);
+    }
+  });
+});
@@ -0,0 +1,635 @@
+/**
+ * Collector Snapshots for RalphMeter
+ *
+ * Serializes every session, with its metadata and events, and the
+ * registered projects to a versioned document that can be restored into
+ * another collector. Restored metadata and events are revalidated, and
+ * sessions that already exist are resolved with a conflict policy.
+ */
+
+import { z } from 'zod';
+import { type Result, ok, err } from '../shared/result.js';
+import { type MeterEvent, safeValidateEvent } from './events.js';
+import type { Session, SessionMetadata } from './collector.js';
+import { validateBudget } from './budgets.js';
+import { type Project, validateProject } from './projects.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A serialized collector: every session with its metadata and events,
+ * and the projects the sessions belong to
+ */
+export interface CollectorSnapshot {
+  /** Snapshot format version */
+  snapshotVersion: number;
+  /** When the snapshot was taken */
+  exportedAt: string;
+  /** All registered projects (absent from snapshots taken before projects) */
+  projects?: Project[];
+  /** All sessions in store order */
+  sessions: Session[];
+}
+
+/**
+ * How a restored session that already exists in the collector is handled
+ * - skip: keep the existing session unchanged
+ * - replace: discard the existing session and store the snapshot's copy
+ * - merge: append snapshot events the existing session does not have
+ * - error: fail the restore before anything is written
+ */
+export type SnapshotConflictPolicy = 'skip' | 'replace' | 'merge' | 'error';
+
+/**
+ * Options for restoring a snapshot
+ */
+export interface SnapshotImportOptions {
+  /** Conflict policy for existing sessions (defaults to 'skip') */
+  onConflict?: SnapshotConflictPolicy;
+}
+
+/**
+ * What a snapshot is checked against when it is read
+ */
+export interface SnapshotParseOptions {
+  /** Gets the metadata of a session already stored in the collector */
+  getStoredMetadata?: (sessionId: string) => SessionMetadata | undefined;
+  /** Conflict policy the sessions will be restored with (defaults to 'skip') */
+  onConflict?: SnapshotConflictPolicy;
+}
+
+/**
+ * A snapshot entry that was not restored
+ */
+export interface SnapshotRejection {
+  /** Session the entry belongs to, or null if it has no readable ID */
+  sessionId: string | null;
+  /** Position of the session in the snapshot */
+  sessionIndex: number;
+  /** Position of the event within the session, or null for a whole session */
+  eventIndex: number | null;
+  /**
+   * Why the entry was rejected
+   * - INVALID_SESSION: the session entry or its metadata is malformed,
+   *   or its parent session is missing or one of its own descendants
+   * - DUPLICATE_SESSION: an earlier entry has the same session ID
+   * - VALIDATION_ERROR: the event failed validation
+   * - SESSION_MISMATCH: the event belongs to a different session
+   */
+  code:
+    | 'INVALID_SESSION'
+    | 'DUPLICATE_SESSION'
+    | 'VALIDATION_ERROR'
+    | 'SESSION_MISMATCH';
+  /** Human-readable description */
+  message: string;
+  /** Additional details, such as validation issues */
+  details?: unknown;
+}
+
+/**
+ * Outcome of restoring a snapshot. Each restored session ID appears in
+ * exactly one of the session lists.
+ */
+export interface SnapshotImportReport {
+  /** Projects registered because the collector did not have them */
+  projects: string[];
+  /** Sessions that did not exist before */
+  created: string[];
+  /** Existing sessions replaced by the snapshot's copy */
+  replaced: string[];
+  /** Existing sessions the snapshot's events were merged into */
+  merged: string[];
+  /** Existing sessions left unchanged */
+  skipped: string[];
+  /** Sessions and events that failed validation */
+  rejected: SnapshotRejection[];
+}
+
+/**
+ * A snapshot whose sessions have been revalidated
+ */
+export interface ParsedSnapshot {
+  /** Projects, with their root paths resolved */
+  projects: Project[];
+  /** Valid sessions, holding only their valid events */
+  sessions: Session[];
+  /** Sessions and events that failed validation */
+  rejected: SnapshotRejection[];
+}
+
+/**
+ * Error types for snapshot documents
+ */
+export interface SnapshotError {
+  code: 'INVALID_SNAPSHOT';
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+// ============================================================================
+// Metadata Schemas
+// ============================================================================
+
+/**
+ * Non-negative integer count
+ */
+const CountSchema = z.number().int().nonnegative();
+
+/**
+ * Soft and hard thresholds of a budget metric (checked by validateBudget())
+ */
+const BudgetLimitSchema = z.object({
+  soft: z.number().optional(),
+  hard: z.number().optional(),
+});
+
+/**
+ * Line churn of a story or file
+ */
+const LineChangeStatsSchema = z.object({
+  changes: CountSchema,
+  linesAdded: CountSchema,
+  linesDeleted: CountSchema,
+  netDelta: z.number().int(),
+});
+
+/**
+ * Aggregated metrics of compacted events
+ */
+const SessionMetricsSchema = z.object({
+  totalIterations: CountSchema,
+  totalTokensIn: CountSchema,
+  totalTokensOut: CountSchema,
+  totalCacheReadTokens: CountSchema,
+  totalCacheCreationTokens: CountSchema,
+  tokensByModel: z.record(
+    z.string(),
+    z.object({
+      tokensIn: CountSchema,
+      tokensOut: CountSchema,
+      cacheReadTokens: CountSchema,
+      cacheCreationTokens: CountSchema,
+    })
+  ),
+  compilationAttempts: CountSchema,
+  compilationSuccesses: CountSchema,
+  testAttempts: CountSchema,
+  testSuccesses: CountSchema,
+  storiesCompleted: CountSchema,
+  storiesPassed: CountSchema,
+  totalToolCalls: CountSchema,
+  toolCallFailures: CountSchema,
+  toolCalls: z.record(
+    z.string(),
+    z.object({
+      calls: CountSchema,
+      failures: CountSchema,
+      failureRate: z.number().min(0).max(1),
+      totalDurationMs: z.number().nonnegative(),
+    })
+  ),
+  totalLinesAdded: CountSchema,
+  totalLinesDeleted: CountSchema,
+  linesByStory: z.record(z.string(), LineChangeStatsSchema),
+  linesByFile: z.record(z.string(), LineChangeStatsSchema),
+  customEventCounts: z.record(z.string(), CountSchema),
+});
+
+/**
+ * Activity totals of an iteration, story or unattributed events
+ */
+const ActivityTotalsSchema = z.object({
+  tokensIn: CountSchema,
+  tokensOut: CountSchema,
+  compilationAttempts: CountSchema,
+  compilationSuccesses: CountSchema,
+  testAttempts: CountSchema,
+  testSuccesses: CountSchema,
+});
+
+/**
+ * Breakdown of compacted events
+ */
+const SessionBreakdownSchema = z.object({
+  iterations: z.array(
+    ActivityTotalsSchema.extend({
+      iterationNumber: z.number().int().positive(),
+      storyId: z.string(),
+      startedAt: z.iso.datetime(),
+      endedAt: z.iso.datetime().nullable(),
+      wallTimeMs: z.number().nonnegative(),
+      success: z.boolean().nullable(),
+    })
+  ),
+  stories: z.array(
+    ActivityTotalsSchema.extend({
+      storyId: z.string(),
+      iterationsUsed: CountSchema,
+      wallTimeMs: z.number().nonnegative(),
+      firstPassSuccess: z.boolean(),
+      passes: z.boolean().nullable(),
+    })
+  ),
+  unattributed: ActivityTotalsSchema,
+});
+
+/**
+ * Diagnostic clusters of compacted events
+ */
+const DiagnosticClusterSchema = z.object({
+  code: z.string().nullable(),
+  normalizedMessage: z.string(),
+  storyId: z.string().nullable(),
+  count: CountSchema,
+  iterations: z.array(z.number().int().positive()),
+  files: z.array(z.string()),
+  sampleMessage: z.string(),
+  firstSeen: z.iso.datetime(),
+  lastSeen: z.iso.datetime(),
+});
+
+/**
+ * Restored project (checked further by validateProject())
+ */
+const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  rootPath: z.string(),
+});
+
+/**
+ * Restored session metadata
+ */
+const SessionMetadataSchema = z.object({
+  id: z.uuid(),
+  status: z.enum(['active', 'completed', 'failed', 'abandoned']),
+  startedAt: z.iso.datetime(),
+  endedAt: z.iso.datetime().optional(),
+  success: z.boolean().optional(),
+  tags: z.record(z.string(), z.string()).optional(),
+  parentSessionId: z.uuid().optional(),
+  projectId: z.string().min(1).max(256).optional(),
+  budget: z
+    .object({
+      maxTokens: BudgetLimitSchema.optional(),
+      maxCost: BudgetLimitSchema.optional(),
+      maxIterations: BudgetLimitSchema.optional(),
+      maxTokensPerStory: BudgetLimitSchema.optional(),
+      refuseTokensAfterHardLimit: z.boolean().optional(),
+    })
+    .optional(),
+  warnings: z
+    .array(
+      z.object({
+        code: z.enum([
+          'INVALID_EVENT_ORDER',
+          'STUCK_LOOP',
+          'BUDGET_EXCEEDED',
+          'CLOCK_SKEW',
+        ]),
+        message: z.string(),
+        timestamp: z.iso.datetime(),
+        details: z.unknown().optional(),
+      })
+    )
+    .optional(),
+  compacted: z
+    .object({
+      eventCount: CountSchema,
+      firstTimestamp: z.iso.datetime(),
+      lastTimestamp: z.iso.datetime(),
+      metrics: SessionMetricsSchema,
+      breakdown: SessionBreakdownSchema,
+      diagnostics: z.array(DiagnosticClusterSchema),
+    })
+    .optional(),
+});
+
+// ============================================================================
+// Snapshot Functions
+// ============================================================================
+
+/**
+ * Creates a snapshot document from sessions and projects. Both are
+ * copied, so later changes to the collector do not alter the snapshot.
+ *
+ * @param sessions - Sessions to include
+ * @param exportedAt - Timestamp of the snapshot
+ * @param projects - Projects to include
+ * @returns The snapshot document
+ */
+export function createSnapshot(
+  sessions: Session[],
+  exportedAt: string,
+  projects: Project[] = []
+): CollectorSnapshot {
+  return {
+    snapshotVersion: SNAPSHOT_VERSION,
+    exportedAt,
+    projects: structuredClone(projects),
+    sessions: structuredClone(sessions),
+  };
+}
+
+/**
+ * Reads a snapshot document, revalidating every session and event.
+ *
+ * Malformed sessions are rejected whole; within a valid session, events
+ * that fail validation or name another session are rejected one by one
+ * and the rest are kept. A session is also rejected if its parent is
+ * neither in the snapshot nor already stored, or if following its
+ * parents, through restored and stored sessions alike, leads back to
+ * it. Created and replaced sessions take their parent from the
+ * snapshot; skipped and merged sessions keep the stored one.
+ *
+ * @param data - The snapshot document (e.g. parsed JSON)
+ * @param options - Stored sessions and the conflict policy
+ * @returns Result with projects, valid sessions and rejected entries, or
+ *   an error if the document itself, or one of its projects, is invalid
+ */
+export function parseSnapshot(
+  data: unknown,
+  options: SnapshotParseOptions = {}
+): Result<ParsedSnapshot, SnapshotError> {
+  if (!isRecord(data) || !Array.isArray(data['sessions'])) {
+    return err({
+      code: 'INVALID_SNAPSHOT',
+      message: 'Snapshot must be an object with a sessions array',
+    });
+  }
+  if (data['snapshotVersion'] !== SNAPSHOT_VERSION) {
+    return err({
+      code: 'INVALID_SNAPSHOT',
+      message: `Unsupported snapshot version: ${JSON.stringify(data['snapshotVersion'])}. Expected ${String(SNAPSHOT_VERSION)}.`,
+    });
+  }
+
+  const projects: Project[] = [];
+  const rawProjects: unknown = data['projects'] ?? [];
+  if (!Array.isArray(rawProjects)) {
+    return err({
+      code: 'INVALID_SNAPSHOT',
+      message: 'Snapshot projects must be an array',
+    });
+  }
+  for (const [index, raw] of rawProjects.entries()) {
+    const parsed = ProjectSchema.safeParse(raw);
+    const project = parsed.success
+      ? validateProject(parsed.data)
+      : err({ message: 'Must be an object with id, name and rootPath.' });
+    if (!project.ok) {
+      return err({
+        code: 'INVALID_SNAPSHOT',
+        message: `Invalid project at index ${String(index)}: ${project.error.message}`,
+      });
+    }
+    projects.push(project.value);
+  }
+
+  const entries: { session: Session; sessionIndex: number }[] = [];
+  const rejected: SnapshotRejection[] = [];
+  const seen = new Set<string>();
+
+  data['sessions'].forEach((entry: unknown, sessionIndex) => {
+    const metadata = isRecord(entry) ? entry['metadata'] : undefined;
+    const sessionId =
+      isRecord(metadata) && typeof metadata['id'] === 'string'
+        ? metadata['id']
+        : null;
+    const reject = (
+      code: SnapshotRejection['code'],
+      message: string,
+      eventIndex: number | null = null,
+      details?: unknown
+    ): void => {
+      rejected.push({
+        sessionId,
+        sessionIndex,
+        eventIndex,
+        code,
+        message,
+        ...(details !== undefined && { details }),
+      });
+    };
+
+    if (!isRecord(entry) || !Array.isArray(entry['events'])) {
+      reject(
+        'INVALID_SESSION',
+        'Session must be an object with an events array'
+      );
+      return;
+    }
+    const parsed = SessionMetadataSchema.safeParse(metadata);
+    if (sessionId === null || !parsed.success) {
+      reject(
+        'INVALID_SESSION',
+        'Session metadata validation failed',
+        null,
+        parsed.error?.issues
+      );
+      return;
+    }
+    // Optional fields are absent rather than undefined in parsed data
+    const restored = parsed.data as SessionMetadata;
+    const budget =
+      restored.budget !== undefined ? validateBudget(restored.budget) : null;
+    if (budget !== null && !budget.ok) {
+      reject('INVALID_SESSION', budget.error.message);
+      return;
+    }
+    if (seen.has(sessionId)) {
+      reject(
+        'DUPLICATE_SESSION',
+        `Session ${sessionId} appears more than once`
+      );
+      return;
+    }
+    seen.add(sessionId);
+
+    const events: MeterEvent[] = [];
+    entry['events'].forEach((raw: unknown, eventIndex) => {
+      const result = safeValidateEvent(raw);
+      if (!result.ok) {
+        reject(
+          'VALIDATION_ERROR',
+          result.error.message,
+          eventIndex,
+          result.error.issues
+        );
+      } else if (result.value.sessionId !== sessionId) {
+        reject(
+          'SESSION_MISMATCH',
+          `Event belongs to session ${result.value.sessionId}, not ${sessionId}`,
+          eventIndex
+        );
+      } else {
+        events.push(result.value);
+      }
+    });
+    entries.push({
+      session: { metadata: restored, events },
+      sessionIndex,
+    });
+  });
+
+  const { getStoredMetadata = () => undefined, onConflict = 'skip' } = options;
+  const keepsStored = onConflict === 'skip' || onConflict === 'merge';
+  const byId = new Map(entries.map((e) => [e.session.metadata.id, e]));
+  // Metadata each session will have once the snapshot is restored
+  const resolve = (sessionId: string): SessionMetadata | undefined => {
+    const stored = getStoredMetadata(sessionId);
+    return stored !== undefined && (keepsStored || !byId.has(sessionId))
+      ? stored
+      : byId.get(sessionId)?.session.metadata;
+  };
+  const sessions: Session[] = [];
+  for (const { session, sessionIndex } of entries) {
+    const problem =
+      keepsStored && getStoredMetadata(session.metadata.id) !== undefined
+        ? null
+        : findParentProblem(session.metadata, resolve);
+    if (problem === null) {
+      sessions.push(session);
+    } else {
+      rejected.push({
+        sessionId: session.metadata.id,
+        sessionIndex,
+        eventIndex: null,
+        code: 'INVALID_SESSION',
+        message: problem,
+      });
+    }
+  }
+  rejected.sort((a, b) => a.sessionIndex - b.sessionIndex);
+
+  return ok({ projects, sessions, rejected });
+}
+
+/**
+ * Merges a restored copy of a session into the existing session.
+ *
+ * Restored events are appended in their snapshot order unless the
+ * existing session already has them (same eventId, or an identical
+ * event). The existing metadata is kept, except that an active session
+ * takes the end state of a restored copy that has ended, and warnings
+ * from both copies are combined.
+ *
+ * @param existing - The stored session
+ * @param incoming - The restored copy
+ * @returns The events to append and the merged metadata
+ */
+export function mergeSessions(
+  existing: Session,
+  incoming: Session
+): { metadata: SessionMetadata; newEvents: MeterEvent[] } {
+  const newEvents: MeterEvent[] = [];
+  const known = new Set(existing.events.map(eventKey));
+  for (const event of incoming.events) {
+    const key = eventKey(event);
+    if (!known.has(key)) {
+      newEvents.push(event);
+      known.add(key);
+    }
+  }
+
+  let metadata = existing.metadata;
+  if (metadata.status === 'active' && incoming.metadata.status !== 'active') {
+    const { endedAt, success, status } = incoming.metadata;
+    metadata = {
+      ...metadata,
+      status,
+      ...(endedAt !== undefined && { endedAt }),
+      ...(success !== undefined && { success }),
+    };
+  }
+
+  const warnings = [...(existing.metadata.warnings ?? [])];
+  const knownWarnings = new Set(warnings.map(stableStringify));
+  for (const warning of incoming.metadata.warnings ?? []) {
+    const key = stableStringify(warning);
+    if (!knownWarnings.has(key)) {
+      warnings.push(warning);
+      knownWarnings.add(key);
+    }
+  }
+  if (warnings.length > 0) {
+    metadata = { ...metadata, warnings };
+  }
+
+  return { metadata, newEvents };
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Checks whether a value is a non-null object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Describes why a restored session's parents cannot be restored: a
+ * parent that will be neither restored nor stored, or a cycle. Null if
+ * the chain of parents ends at a session without one.
+ */
+function findParentProblem(
+  metadata: SessionMetadata,
+  resolve: (sessionId: string) => SessionMetadata | undefined
+): string | null {
+  const chain = [metadata.id];
+  const seen = new Set(chain);
+  let parentId = metadata.parentSessionId;
+  while (parentId !== undefined) {
+    if (seen.has(parentId)) {
+      return `Session parents form a cycle: ${[...chain, parentId].join(' -> ')}`;
+    }
+    const parent = resolve(parentId);
+    if (parent === undefined) {
+      return `Parent session not found: ${parentId}`;
+    }
+    chain.push(parentId);
+    seen.add(parentId);
+    parentId = parent.parentSessionId;
+  }
+  return null;
+}
+
+/**
+ * Gets the key that identifies an event across copies of a session: its
+ * client-supplied ID, or its contents if it has none
+ */
+function eventKey(event: MeterEvent): string {
+  return event.eventId !== undefined
+    ? `id:${event.eventId}`
+    : `event:${stableStringify(event)}`;
+}
+
+/**
+ * Serializes a JSON value with object keys in sorted order, so equal
+ * values serialize the same regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    isRecord(nested) && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : nested
+  );
+}
@@ -0,0 +1,292 @@
+/**
+ * Tests for SQLite Session Store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { SqliteSessionStore } from './sqlite-store.js';
+import { EventCollector } from './collector.js';
+import { createSessionId } from './events.js';
+import { isOk } from '../shared/result.js';
+import {
+  createIterationEndEvent,
+  createIterationStartEvent,
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+  createTokensOutEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+const endTimestamp = '2026-01-30T12:30:00.000Z';
+
+// ============================================================================
+// SqliteSessionStore Tests
+// ============================================================================
+
+describe('SqliteSessionStore', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let sessionId: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-test-'));
+    dbPath = path.join(tempDir, 'meter.db');
+    sessionId = createSessionId();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('stores sessions and events', () => {
+    const store = new SqliteSessionStore();
+    const collector = new EventCollector({ store });
+
+    collector.emit(
+      createSessionStartEvent(sessionId, { tags: { mode: 'tdd' } })
+    );
+    collector.emit(createTokensInEvent(sessionId, { count: 100 }));
+
+    const session = store.getSession(sessionId);
+    expect(session?.metadata.tags).toEqual({ mode: 'tdd' });
+    expect(session?.events).toHaveLength(2);
+    expect(store.hasSession(sessionId)).toBe(true);
+    expect(store.hasSession(createSessionId())).toBe(false);
+    store.close();
+  });
+
+  it('returns the same sessions and metrics after a restart', () => {
+    const otherId = createSessionId();
+    const store = new SqliteSessionStore(dbPath);
+    const collector = new EventCollector({ store });
+
+    collector.emit(
+      createSessionStartEvent(sessionId, { tags: { methodology: 'tdd' } })
+    );
+    collector.emit(
+      createIterationStartEvent(sessionId, {
+        iterationNumber: 1,
+        storyId: 'US-001',
+      })
+    );
+    collector.emit(createTokensInEvent(sessionId, { count: 1000 }));
+    collector.emit(createTokensOutEvent(sessionId, { count: 400 }));
+    collector.emit(
+      createIterationEndEvent(sessionId, {
+        iterationNumber: 1,
+        storyId: 'US-001',
+        success: true,
+      })
+    );
+    collector.emit(
+      createSessionEndEvent(sessionId, { success: true }, endTimestamp)
+    );
+    collector.emit(createSessionStartEvent(otherId));
+
+    const before = {
+      session: collector.getSession(sessionId),
+      all: collector.getAllSessions(),
+      metrics: collector.getMetrics(sessionId),
+    };
+    store.close();
+
+    const reopened = new SqliteSessionStore(dbPath);
+    const restarted = new EventCollector({ store: reopened });
+
+    expect(restarted.getSession(sessionId)).toEqual(before.session);
+    expect(restarted.getAllSessions()).toEqual(before.all);
+    expect(restarted.getMetrics(sessionId)).toEqual(before.metrics);
+
+    const session = restarted.getSession(sessionId);
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(session.value.metadata.status).toBe('completed');
+      expect(session.value.metadata.endedAt).toBe(endTimestamp);
+    }
+    reopened.close();
+  });
+
+  it('keeps enforcing session state after a restart', () => {
+    const store = new SqliteSessionStore(dbPath);
+    const collector = new EventCollector({ store });
+    collector.emit(createSessionStartEvent(sessionId));
+    store.close();
+
+    const reopened = new SqliteSessionStore(dbPath);
+    const restarted = new EventCollector({ store: reopened });
+    const duplicate = restarted.emit(createSessionStartEvent(sessionId));
+    const appended = restarted.emit(
+      createTokensInEvent(sessionId, { count: 5 })
+    );
+
+    expect(duplicate.ok).toBe(false);
+    expect(isOk(appended)).toBe(true);
+    reopened.close();
+  });
+
+  it('deduplicates event IDs stored before a restart', () => {
+    const store = new SqliteSessionStore(dbPath);
+    const collector = new EventCollector({ store });
+    const tokens = {
+      ...createTokensInEvent(sessionId, { count: 100 }),
+      eventId: 'evt-1',
+    };
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(tokens);
+    store.close();
+
+    const reopened = new SqliteSessionStore(dbPath);
+    const restarted = new EventCollector({ store: reopened });
+    const retry = restarted.emit(tokens);
+
+    expect(isOk(retry)).toBe(true);
+    expect(reopened.getSession(sessionId)?.events).toHaveLength(2);
+    reopened.close();
+  });
+
+  it('deletes a session and its events', () => {
+    const store = new SqliteSessionStore();
+    const collector = new EventCollector({ store });
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(createTokensInEvent(sessionId, { count: 100 }));
+
+    store.deleteSession(sessionId);
+    store.createSession({
+      metadata: { id: sessionId, status: 'active', startedAt: validTimestamp },
+      events: [],
+    });
+
+    expect(store.getSession(sessionId)?.events).toEqual([]);
+    store.close();
+  });
+
+  it('removes the oldest events of one session', () => {
+    const store = new SqliteSessionStore();
+    const collector = new EventCollector({ store });
+    const otherId = createSessionId();
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(createSessionStartEvent(otherId));
+    collector.emit(createTokensInEvent(sessionId, { count: 1 }));
+    collector.emit(createTokensInEvent(sessionId, { count: 2 }));
+
+    store.removeOldestEvents(sessionId, 2);
+
+    expect(store.getSession(sessionId)?.events.map((e) => e.payload)).toEqual([
+      { count: 2 },
+    ]);
+    expect(store.getSession(otherId)?.events).toHaveLength(1);
+    store.close();
+  });
+
+  it('filters metadata by status and start time in SQL', () => {
+    const store = new SqliteSessionStore();
+    const ended = createSessionId();
+    const later = createSessionId();
+    store.createSession({
+      metadata: { id: sessionId, status: 'active', startedAt: validTimestamp },
+      events: [],
+    });
+    store.createSession({
+      metadata: {
+        id: ended,
+        status: 'completed',
+        startedAt: '2026-01-30T12:00:00.5Z',
+        endedAt: endTimestamp,
+      },
+      events: [],
+    });
+    store.createSession({
+      metadata: {
+        id: later,
+        status: 'active',
+        startedAt: '2026-01-30T12:00:01Z',
+      },
+      events: [],
+    });
+
+    const active = store.listMetadata({ status: ['active'] });
+    const range = store.listMetadata({
+      startedAfter: '2026-01-30T12:00:00.100Z',
+      startedBefore: '2026-01-30T12:00:01.000Z',
+    });
+
+    expect(active.map((m) => m.id)).toEqual([sessionId, later]);
+    expect(range.map((m) => m.id)).toEqual([ended, later]);
+    expect(store.listMetadata({ status: [] })).toEqual([]);
+    store.close();
+  });
+
+  it('ingests thousands of events without rereading the session', () => {
+    const store = new SqliteSessionStore();
+    const collector = new EventCollector({ store });
+    collector.emit(createSessionStartEvent(sessionId));
+
+    const start = performance.now();
+    for (let n = 1; n <= 1000; n++) {
+      collector.emit(
+        createIterationStartEvent(sessionId, {
+          iterationNumber: n,
+          storyId: 'US-001',
+        })
+      );
+      collector.emit(createTokensInEvent(sessionId, { count: 10 }));
+      collector.emit(
+        createIterationEndEvent(sessionId, {
+          iterationNumber: n,
+          storyId: 'US-001',
+          success: true,
+        })
+      );
+    }
+    collector.emit(createSessionEndEvent(sessionId, { success: true }));
+    const elapsed = performance.now() - start;
+
+    // Rereading the whole session per event took over 10s for this loop
+    expect(elapsed).toBeLessThan(3000);
+    const metrics = collector.getMetrics(sessionId);
+    expect(isOk(metrics) && metrics.value.totalIterations).toBe(1000);
+    store.close();
+  });
+
+  it('reads events back in timestamp order and trims the earliest', () => {
+    const store = new SqliteSessionStore(dbPath);
+    const collector = new EventCollector({ store });
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(createTokensInEvent(sessionId, { count: 1 }, endTimestamp));
+    collector.emit(
+      createTokensInEvent(sessionId, { count: 2 }, '2026-01-30T12:10:00Z')
+    );
+
+    store.removeOldestEvents(sessionId, 1);
+
+    expect(store.getSession(sessionId)?.events.map((e) => e.payload)).toEqual([
+      { count: 2 },
+      { count: 1 },
+    ]);
+    store.close();
+  });
+
+  it('persists projects across restarts', () => {
+    const store = new SqliteSessionStore(dbPath);
+    store.saveProject({ id: 'api', name: 'API', rootPath: '/repos/api' });
+    store.saveProject({ id: 'web', name: 'Web', rootPath: '/repos/web' });
+    store.saveProject({ id: 'api', name: 'API v2', rootPath: '/repos/api' });
+    store.close();
+
+    const reopened = new SqliteSessionStore(dbPath);
+
+    expect(reopened.listProjects()).toEqual([
+      { id: 'api', name: 'API v2', rootPath: '/repos/api' },
+      { id: 'web', name: 'Web', rootPath: '/repos/web' },
+    ]);
+    expect(reopened.getProject('missing')).toBeUndefined();
+    reopened.close();
+  });
+});
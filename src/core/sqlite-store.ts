@@ -0,0 +1,321 @@
+/**
+ * SQLite Session Store for RalphMeter
+ *
+ * Persists sessions, events and projects with better-sqlite3 so collector state
+ * survives process restarts.
+ */
+
+import Database from 'better-sqlite3';
+import type { MeterEvent } from './events.js';
+import type { Session, SessionMetadata } from './collector.js';
+import type { SessionStore, MetadataFilter } from './store.js';
+import type { Project } from './projects.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Row shape of the sessions table
+ */
+interface SessionRow {
+  id: string;
+  metadata: string;
+}
+
+/**
+ * Row shape of the events table
+ */
+interface EventRow {
+  data: string;
+}
+
+/**
+ * Row shape of the projects table
+ */
+interface ProjectRow {
+  id: string;
+  name: string;
+  root_path: string;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    metadata TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL REFERENCES sessions(id),
+    event_type TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    root_path TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_events_session_time
+    ON events(session_id, timestamp, seq);
+  CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+  CREATE INDEX IF NOT EXISTS idx_sessions_started ON sessions(started_at);
+`;
+
+// ============================================================================
+// SqliteSessionStore Class
+// ============================================================================
+
+/**
+ * Stores sessions in a SQLite database.
+ *
+ * Metadata is stored as JSON alongside a few indexed columns, and every
+ * event is stored as one row, read back ordered by timestamp and then
+ * arrival. Status and start time filters are applied in SQL, with
+ * timestamps normalized to toISOString() form so they compare as text.
+ */
+export class SqliteSessionStore implements SessionStore {
+  /** Underlying database connection */
+  private readonly db: Database.Database;
+
+  /**
+   * Opens (or creates) a SQLite database
+   *
+   * @param filename - Database file path, or ':memory:' for a throwaway store
+   */
+  constructor(filename = ':memory:') {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  hasSession(id: string): boolean {
+    const row = this.db
+      .prepare<[string], { id: string }>('SELECT id FROM sessions WHERE id = ?')
+      .get(id);
+    return row !== undefined;
+  }
+
+  getSession(id: string): Session | undefined {
+    const row = this.db
+      .prepare<
+        [string],
+        SessionRow
+      >('SELECT id, metadata FROM sessions WHERE id = ?')
+      .get(id);
+    if (row === undefined) {
+      return undefined;
+    }
+    return this.toSession(row);
+  }
+
+  getMetadata(id: string): SessionMetadata | undefined {
+    const row = this.db
+      .prepare<
+        [string],
+        SessionRow
+      >('SELECT id, metadata FROM sessions WHERE id = ?')
+      .get(id);
+    return row !== undefined
+      ? (JSON.parse(row.metadata) as SessionMetadata)
+      : undefined;
+  }
+
+  listSessions(): Session[] {
+    const rows = this.db
+      .prepare<
+        [],
+        SessionRow
+      >('SELECT id, metadata FROM sessions ORDER BY rowid')
+      .all();
+    return rows.map((row) => this.toSession(row));
+  }
+
+  listMetadata(filter: MetadataFilter = {}): SessionMetadata[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filter.status !== undefined) {
+      conditions.push(`status IN (${filter.status.map(() => '?').join(', ')})`);
+      params.push(...filter.status);
+    }
+    if (filter.startedAfter !== undefined) {
+      conditions.push('started_at >= ?');
+      params.push(normalizeTimestamp(filter.startedAfter));
+    }
+    if (filter.startedBefore !== undefined) {
+      conditions.push('started_at <= ?');
+      params.push(normalizeTimestamp(filter.startedBefore));
+    }
+    const where =
+      conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+    return this.db
+      .prepare<string[], SessionRow>(
+        `SELECT id, metadata FROM sessions${where} ORDER BY rowid`
+      )
+      .all(...params)
+      .map((row) => JSON.parse(row.metadata) as SessionMetadata);
+  }
+
+  createSession(session: Session): void {
+    const insert = this.db.transaction((s: Session) => {
+      this.db
+        .prepare(
+          'INSERT INTO sessions (id, status, started_at, ended_at, metadata) VALUES (?, ?, ?, ?, ?)'
+        )
+        .run(
+          s.metadata.id,
+          s.metadata.status,
+          normalizeTimestamp(s.metadata.startedAt),
+          optionalTimestamp(s.metadata.endedAt),
+          JSON.stringify(s.metadata)
+        );
+      for (const event of s.events) {
+        this.insertEvent(s.metadata.id, event);
+      }
+    });
+    insert(session);
+  }
+
+  appendEvent(sessionId: string, event: MeterEvent): void {
+    this.insertEvent(sessionId, event);
+  }
+
+  updateMetadata(metadata: SessionMetadata): void {
+    this.db
+      .prepare(
+        'UPDATE sessions SET status = ?, started_at = ?, ended_at = ?, metadata = ? WHERE id = ?'
+      )
+      .run(
+        metadata.status,
+        normalizeTimestamp(metadata.startedAt),
+        optionalTimestamp(metadata.endedAt),
+        JSON.stringify(metadata),
+        metadata.id
+      );
+  }
+
+  deleteSession(id: string): void {
+    const remove = this.db.transaction((sessionId: string) => {
+      this.db.prepare('DELETE FROM events WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+    });
+    remove(id);
+  }
+
+  removeOldestEvents(sessionId: string, count: number): void {
+    this.db
+      .prepare(
+        'DELETE FROM events WHERE seq IN (SELECT seq FROM events WHERE session_id = ? ORDER BY timestamp, seq LIMIT ?)'
+      )
+      .run(sessionId, count);
+  }
+
+  getProject(id: string): Project | undefined {
+    const row = this.db
+      .prepare<
+        [string],
+        ProjectRow
+      >('SELECT id, name, root_path FROM projects WHERE id = ?')
+      .get(id);
+    return row !== undefined ? toProject(row) : undefined;
+  }
+
+  listProjects(): Project[] {
+    return this.db
+      .prepare<
+        [],
+        ProjectRow
+      >('SELECT id, name, root_path FROM projects ORDER BY rowid')
+      .all()
+      .map(toProject);
+  }
+
+  saveProject(project: Project): void {
+    this.db
+      .prepare(
+        'INSERT INTO projects (id, name, root_path) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET name = excluded.name, root_path = excluded.root_path'
+      )
+      .run(project.id, project.name, project.rootPath);
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Inserts a single event row
+   */
+  private insertEvent(sessionId: string, event: MeterEvent): void {
+    this.db
+      .prepare(
+        'INSERT INTO events (session_id, event_type, timestamp, data) VALUES (?, ?, ?, ?)'
+      )
+      .run(
+        sessionId,
+        event.eventType,
+        normalizeTimestamp(event.timestamp),
+        JSON.stringify(event)
+      );
+  }
+
+  /**
+   * Rebuilds a Session from its row and stored events
+   */
+  private toSession(row: SessionRow): Session {
+    const events = this.db
+      .prepare<[string], EventRow>(
+        'SELECT data FROM events WHERE session_id = ? ORDER BY timestamp, seq'
+      )
+      .all(row.id)
+      .map((e) => JSON.parse(e.data) as MeterEvent);
+
+    return {
+      metadata: JSON.parse(row.metadata) as SessionMetadata,
+      events,
+    };
+  }
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Normalizes an ISO timestamp to toISOString() form, so timestamps
+ * compare correctly as text
+ */
+function normalizeTimestamp(timestamp: string): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Normalizes an optional timestamp, mapping undefined to NULL
+ */
+function optionalTimestamp(timestamp: string | undefined): string | null {
+  return timestamp !== undefined ? normalizeTimestamp(timestamp) : null;
+}
+
+/**
+ * Converts a projects row to a Project
+ */
+function toProject(row: ProjectRow): Project {
+  return { id: row.id, name: row.name, rootPath: row.root_path };
+}
@@ -0,0 +1,181 @@
+/**
+ * Tests for Session Storage
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemorySessionStore } from './store.js';
+import { EventCollector, type Session } from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk } from '../shared/result.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+
+function createSession(sessionId: string): Session {
+  return {
+    metadata: {
+      id: sessionId,
+      status: 'active',
+      startedAt: validTimestamp,
+    },
+    events: [
+      {
+        timestamp: validTimestamp,
+        sessionId,
+        eventType: 'session_start',
+        payload: {},
+      },
+    ],
+  };
+}
+
+function createTokensInEvent(sessionId: string, count: number): MeterEvent {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'tokens_in',
+    payload: { count },
+  };
+}
+
+// ============================================================================
+// InMemorySessionStore Tests
+// ============================================================================
+
+describe('InMemorySessionStore', () => {
+  let store: InMemorySessionStore;
+  let sessionId: string;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore();
+    sessionId = createSessionId();
+  });
+
+  it('creates and retrieves a session', () => {
+    store.createSession(createSession(sessionId));
+
+    expect(store.hasSession(sessionId)).toBe(true);
+    expect(store.getSession(sessionId)?.metadata.id).toBe(sessionId);
+    expect(store.listSessions()).toHaveLength(1);
+  });
+
+  it('returns undefined for unknown sessions', () => {
+    expect(store.hasSession(sessionId)).toBe(false);
+    expect(store.getSession(sessionId)).toBeUndefined();
+  });
+
+  it('appends events in order', () => {
+    store.createSession(createSession(sessionId));
+    store.appendEvent(sessionId, createTokensInEvent(sessionId, 10));
+    store.appendEvent(sessionId, createTokensInEvent(sessionId, 20));
+
+    const events = store.getSession(sessionId)?.events ?? [];
+    expect(events.map((e) => e.eventType)).toEqual([
+      'session_start',
+      'tokens_in',
+      'tokens_in',
+    ]);
+  });
+
+  it('inserts late events in timestamp order', () => {
+    store.createSession(createSession(sessionId));
+    store.appendEvent(sessionId, {
+      ...createTokensInEvent(sessionId, 10),
+      timestamp: '2026-01-30T12:05:00.000Z',
+    });
+    store.appendEvent(sessionId, {
+      ...createTokensInEvent(sessionId, 20),
+      timestamp: '2026-01-30T12:02:00.000Z',
+    });
+    store.appendEvent(sessionId, createTokensInEvent(sessionId, 30));
+
+    const events = store.getSession(sessionId)?.events ?? [];
+    expect(
+      events.map((e) => e.eventType === 'tokens_in' && e.payload.count)
+    ).toEqual([false, 30, 20, 10]);
+  });
+
+  it('replaces session metadata', () => {
+    store.createSession(createSession(sessionId));
+    store.updateMetadata({
+      id: sessionId,
+      status: 'completed',
+      startedAt: validTimestamp,
+      endedAt: validTimestamp,
+      success: true,
+    });
+
+    expect(store.getSession(sessionId)?.metadata.status).toBe('completed');
+  });
+
+  it('deletes a session and its events', () => {
+    store.createSession(createSession(sessionId));
+    store.deleteSession(sessionId);
+    store.deleteSession(createSessionId());
+
+    expect(store.hasSession(sessionId)).toBe(false);
+    expect(store.listSessions()).toEqual([]);
+  });
+
+  it('removes the oldest events', () => {
+    store.createSession(createSession(sessionId));
+    store.appendEvent(sessionId, createTokensInEvent(sessionId, 10));
+    store.appendEvent(sessionId, createTokensInEvent(sessionId, 20));
+
+    store.removeOldestEvents(sessionId, 2);
+
+    expect(store.getSession(sessionId)?.events).toEqual([
+      createTokensInEvent(sessionId, 20),
+    ]);
+  });
+
+  it('filters metadata by status and start time', () => {
+    const ended = createSessionId();
+    const later = createSessionId();
+    store.createSession(createSession(sessionId));
+    store.createSession(createSession(ended));
+    store.updateMetadata({
+      id: ended,
+      status: 'completed',
+      startedAt: validTimestamp,
+    });
+    store.createSession({
+      ...createSession(later),
+      metadata: {
+        id: later,
+        status: 'active',
+        startedAt: '2026-01-30T13:00:00.000Z',
+      },
+    });
+
+    const active = store.listMetadata({ status: ['active'] });
+    const early = store.listMetadata({
+      startedBefore: '2026-01-30T12:30:00.000Z',
+    });
+
+    expect(active.map((m) => m.id)).toEqual([sessionId, later]);
+    expect(early.map((m) => m.id)).toEqual([sessionId, ended]);
+    expect(store.listMetadata()).toHaveLength(3);
+  });
+
+  it('saves and replaces projects', () => {
+    store.saveProject({ id: 'api', name: 'API', rootPath: '/repos/api' });
+    store.saveProject({ id: 'web', name: 'Web', rootPath: '/repos/web' });
+    store.saveProject({ id: 'api', name: 'API v2', rootPath: '/repos/api2' });
+
+    expect(store.getProject('api')?.name).toBe('API v2');
+    expect(store.getProject('missing')).toBeUndefined();
+    expect(store.listProjects().map((p) => p.id)).toEqual(['api', 'web']);
+  });
+
+  it('is the default store for EventCollector', () => {
+    const collector = new EventCollector({ store });
+    collector.emit(createSession(sessionId).events[0]);
+
+    expect(store.hasSession(sessionId)).toBe(true);
+    expect(isOk(collector.getSession(sessionId))).toBe(true);
+  });
+});
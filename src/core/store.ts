@@ -0,0 +1,177 @@
+/**
+ * Session Storage for RalphMeter
+ *
+ * Defines the pluggable storage interface used by the EventCollector
+ * and the default in-memory implementation.
+ */
+
+import type { MeterEvent } from './events.js';
+import type { Session, SessionMetadata, SessionStatus } from './collector.js';
+import type { Project } from './projects.js';
+import { sortEventsByTimestamp, findInsertionIndex } from './timeline.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filter on indexed metadata fields, applied by the store before any
+ * metadata is loaded. Conditions are combined with AND.
+ */
+export interface MetadataFilter {
+  /** Only sessions with one of these statuses */
+  status?: SessionStatus[];
+  /** Only sessions started at or after this ISO timestamp */
+  startedAfter?: string;
+  /** Only sessions started at or before this ISO timestamp */
+  startedBefore?: string;
+}
+
+/**
+ * Storage backend for sessions, their events and projects.
+ *
+ * Stores only ever receive events that have already been validated
+ * by the collector. Each session's events are kept in timestamp order,
+ * with events of equal timestamps in arrival order. All operations are
+ * synchronous.
+ */
+export interface SessionStore {
+  /** Returns true if a session with the given ID exists */
+  hasSession(id: string): boolean;
+  /**
+   * Gets a session with all its events in timestamp order, or undefined
+   * if not found
+   */
+  getSession(id: string): Session | undefined;
+  /** Gets a session's metadata without loading events */
+  getMetadata(id: string): SessionMetadata | undefined;
+  /** Gets all stored sessions */
+  listSessions(): Session[];
+  /**
+   * Gets metadata for all stored sessions matching the filter, without
+   * loading events
+   */
+  listMetadata(filter?: MetadataFilter): SessionMetadata[];
+  /** Stores a new session along with its initial events, sorted */
+  createSession(session: Session): void;
+  /**
+   * Adds a validated event to an existing session, after every event
+   * with an equal or earlier timestamp
+   */
+  appendEvent(sessionId: string, event: MeterEvent): void;
+  /** Replaces the metadata of an existing session */
+  updateMetadata(metadata: SessionMetadata): void;
+  /** Removes a session and its events (no-op if not found) */
+  deleteSession(id: string): void;
+  /** Removes a session's earliest events, keeping the rest in order */
+  removeOldestEvents(sessionId: string, count: number): void;
+  /** Gets a project, or undefined if not found */
+  getProject(id: string): Project | undefined;
+  /** Gets all stored projects */
+  listProjects(): Project[];
+  /** Stores a project, replacing any project with the same ID */
+  saveProject(project: Project): void;
+}
+
+// ============================================================================
+// InMemorySessionStore Class
+// ============================================================================
+
+/**
+ * Keeps sessions in a Map. Nothing survives a process restart.
+ */
+export class InMemorySessionStore implements SessionStore {
+  /** Sessions by ID */
+  private sessions = new Map<string, Session>();
+
+  /** Projects by ID */
+  private projects = new Map<string, Project>();
+
+  hasSession(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  getSession(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  getMetadata(id: string): SessionMetadata | undefined {
+    return this.sessions.get(id)?.metadata;
+  }
+
+  listSessions(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+
+  listMetadata(filter: MetadataFilter = {}): SessionMetadata[] {
+    return Array.from(this.sessions.values(), (s) => s.metadata).filter(
+      (metadata) => matchesFilter(metadata, filter)
+    );
+  }
+
+  createSession(session: Session): void {
+    this.sessions.set(session.metadata.id, {
+      metadata: session.metadata,
+      events: sortEventsByTimestamp(session.events),
+    });
+  }
+
+  appendEvent(sessionId: string, event: MeterEvent): void {
+    const events = this.sessions.get(sessionId)?.events;
+    events?.splice(findInsertionIndex(events, event.timestamp), 0, event);
+  }
+
+  updateMetadata(metadata: SessionMetadata): void {
+    const session = this.sessions.get(metadata.id);
+    if (session !== undefined) {
+      session.metadata = metadata;
+    }
+  }
+
+  deleteSession(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  removeOldestEvents(sessionId: string, count: number): void {
+    this.sessions.get(sessionId)?.events.splice(0, count);
+  }
+
+  getProject(id: string): Project | undefined {
+    return this.projects.get(id);
+  }
+
+  listProjects(): Project[] {
+    return Array.from(this.projects.values());
+  }
+
+  saveProject(project: Project): void {
+    this.projects.set(project.id, project);
+  }
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Checks whether session metadata matches a metadata filter
+ */
+function matchesFilter(
+  metadata: SessionMetadata,
+  filter: MetadataFilter
+): boolean {
+  if (filter.status !== undefined && !filter.status.includes(metadata.status)) {
+    return false;
+  }
+  const started = Date.parse(metadata.startedAt);
+  if (
+    filter.startedAfter !== undefined &&
+    started < Date.parse(filter.startedAfter)
+  ) {
+    return false;
+  }
+  return (
+    filter.startedBefore === undefined ||
+    started <= Date.parse(filter.startedBefore)
+  );
+}
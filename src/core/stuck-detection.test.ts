@@ -0,0 +1,372 @@
+/**
+ * Tests for Stuck-Loop Detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createStuckState,
+  applyEventToStuckState,
+  buildStuckState,
+  describeStuckLoop,
+  type StuckLoopDetection,
+  type StuckState,
+} from './stuck-detection.js';
+import { EventCollector, type SessionWarning } from './collector.js';
+import { InMemorySessionStore } from './store.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk } from '../shared/result.js';
+import {
+  createCompilationResultEvent,
+  createFileChangeEvent,
+  createIterationEndEvent,
+  createIterationStartEvent,
+  createSessionStartEvent,
+  createTestResultEvent,
+  createTokensInEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+/**
+ * Builds one iteration's events
+ */
+function iteration(
+  iterationNumber: number,
+  storyId: string,
+  options: {
+    tokens?: number;
+    linesAdded?: number;
+    compileErrors?: string[];
+    success?: boolean;
+  } = {}
+): MeterEvent[] {
+  const events: MeterEvent[] = [
+    createIterationStartEvent(sessionId, { iterationNumber, storyId }),
+    createTokensInEvent(sessionId, { count: options.tokens ?? 1000 }),
+  ];
+  if (options.linesAdded !== undefined) {
+    events.push(
+      createFileChangeEvent(sessionId, {
+        filePath: 'src/a.ts',
+        storyId,
+        linesAdded: options.linesAdded,
+        linesDeleted: 0,
+      })
+    );
+  }
+  if (options.compileErrors !== undefined) {
+    events.push(
+      createCompilationResultEvent(sessionId, {
+        success: options.compileErrors.length === 0,
+        errors: options.compileErrors.map((code) => ({
+          file: 'src/a.ts',
+          line: 1,
+          message: 'Error',
+          code,
+        })),
+      })
+    );
+  }
+  events.push(
+    createIterationEndEvent(sessionId, {
+      iterationNumber,
+      storyId,
+      success: options.success ?? false,
+    })
+  );
+  return events;
+}
+
+function detect(state: StuckState, events: MeterEvent[]): StuckLoopDetection[] {
+  return events.flatMap((e) => applyEventToStuckState(state, e));
+}
+
+// ============================================================================
+// Repeated Failure Tests
+// ============================================================================
+
+describe('repeated failure detection', () => {
+  it('flags a story after consecutive failures with the same errors', () => {
+    const state = createStuckState();
+
+    expect(
+      detect(state, [
+        ...iteration(1, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] }),
+        ...iteration(2, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] }),
+      ])
+    ).toEqual([]);
+
+    const detections = detect(
+      state,
+      iteration(3, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] })
+    );
+
+    expect(detections).toEqual([
+      {
+        storyId: 'US-004',
+        reason: 'REPEATED_FAILURE',
+        iterations: [1, 2, 3],
+        signature: 'compile:TS2532',
+        tokensSpent: 3000,
+      },
+    ]);
+  });
+
+  it('reports each streak once', () => {
+    const state = createStuckState();
+    const events = [1, 2, 3, 4, 5].flatMap((n) =>
+      iteration(n, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] })
+    );
+
+    expect(detect(state, events)).toHaveLength(1);
+  });
+
+  it('resets when the error signature changes', () => {
+    const state = createStuckState();
+
+    const detections = detect(state, [
+      ...iteration(1, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] }),
+      ...iteration(2, 'US-004', { linesAdded: 5, compileErrors: ['TS2322'] }),
+      ...iteration(3, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] }),
+    ]);
+
+    expect(detections).toEqual([]);
+  });
+
+  it('resets when an iteration succeeds or the story changes', () => {
+    const state = createStuckState();
+    const fail = { linesAdded: 5, compileErrors: ['TS2532'] };
+
+    const detections = detect(state, [
+      ...iteration(1, 'US-001', fail),
+      ...iteration(2, 'US-001', fail),
+      ...iteration(3, 'US-001', { linesAdded: 5, success: true }),
+      ...iteration(4, 'US-001', fail),
+      ...iteration(5, 'US-002', fail),
+      ...iteration(6, 'US-002', fail),
+    ]);
+
+    expect(detections).toEqual([]);
+  });
+
+  it('uses failing test names when compilation passes', () => {
+    const state = createStuckState();
+    const failingTest = createTestResultEvent(sessionId, {
+      success: false,
+      totalTests: 2,
+      passed: 1,
+      failed: 1,
+      testCases: [{ file: 'src/a.test.ts', name: 'adds', status: 'failed' }],
+    });
+    const events = [1, 2, 3].flatMap((n) => {
+      const [start, tokens, end] = iteration(n, 'US-001');
+      return [start, tokens, failingTest, end].filter(
+        (e): e is MeterEvent => e !== undefined
+      );
+    });
+
+    const detections = detect(state, events);
+
+    expect(detections.map((d) => d.signature)).toContain(
+      'test:src/a.test.ts:adds'
+    );
+  });
+
+  it('honours a custom threshold', () => {
+    const state = createStuckState();
+    const events = [1, 2].flatMap((n) =>
+      iteration(n, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] })
+    );
+
+    const detections = events.flatMap((e) =>
+      applyEventToStuckState(state, e, { repeatedFailureThreshold: 2 })
+    );
+
+    expect(detections.map((d) => d.reason)).toEqual(['REPEATED_FAILURE']);
+  });
+});
+
+// ============================================================================
+// No Progress Tests
+// ============================================================================
+
+describe('no progress detection', () => {
+  it('flags a story spending tokens without line changes', () => {
+    const state = createStuckState();
+
+    const detections = detect(state, [
+      ...iteration(1, 'US-001', { linesAdded: 3, success: true }),
+      ...iteration(2, 'US-002', { tokens: 500 }),
+      ...iteration(3, 'US-002', { tokens: 700 }),
+      ...iteration(4, 'US-002', { tokens: 800 }),
+    ]);
+
+    expect(detections).toEqual([
+      {
+        storyId: 'US-002',
+        reason: 'NO_PROGRESS',
+        iterations: [2, 3, 4],
+        signature: null,
+        tokensSpent: 2000,
+      },
+    ]);
+  });
+
+  it('resets when lines change or an iteration succeeds', () => {
+    const state = createStuckState();
+
+    const detections = detect(state, [
+      ...iteration(1, 'US-002', { linesAdded: 3 }),
+      ...iteration(2, 'US-002'),
+      ...iteration(3, 'US-002', { linesAdded: 3 }),
+      ...iteration(4, 'US-002'),
+      ...iteration(5, 'US-002', { success: true }),
+      ...iteration(6, 'US-002'),
+    ]);
+
+    expect(detections).toEqual([]);
+  });
+
+  it('ignores sessions that never report file changes', () => {
+    const state = createStuckState();
+
+    const detections = detect(
+      state,
+      [1, 2, 3, 4].flatMap((n) => iteration(n, 'US-002'))
+    );
+
+    expect(detections).toEqual([]);
+    expect(state.reportsFileChanges).toBe(false);
+  });
+});
+
+describe('buildStuckState', () => {
+  it('replays events into the same state as incremental updates', () => {
+    const events = [1, 2].flatMap((n) =>
+      iteration(n, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] })
+    );
+    const incremental = createStuckState();
+    detect(incremental, events);
+
+    expect(buildStuckState(events)).toEqual(incremental);
+  });
+});
+
+describe('describeStuckLoop', () => {
+  it('summarizes detections', () => {
+    expect(
+      describeStuckLoop({
+        storyId: 'US-004',
+        reason: 'REPEATED_FAILURE',
+        iterations: [1, 2, 3],
+        signature: 'compile:TS2532',
+        tokensSpent: 3000,
+      })
+    ).toBe(
+      'Story US-004 is stuck: 3 consecutive iterations failed with the same errors'
+    );
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector stuck-loop warnings', () => {
+  function emitStuckSession(collector: EventCollector, id: string): void {
+    collector.emit(createSessionStartEvent(id));
+    const events = [1, 2, 3].flatMap((n) =>
+      iteration(n, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] })
+    );
+    for (const e of events) {
+      collector.emit({ ...e, sessionId: id });
+    }
+  }
+
+  it('records a STUCK_LOOP warning and notifies listeners', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const received: [string, SessionWarning][] = [];
+    collector.subscribeWarnings((warningSessionId, warning) => {
+      received.push([warningSessionId, warning]);
+    });
+
+    emitStuckSession(collector, id);
+
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata)).toBe(true);
+    if (isOk(metadata)) {
+      const warnings = metadata.value.warnings ?? [];
+      expect(warnings.map((w) => w.code)).toEqual(['STUCK_LOOP']);
+      expect(warnings[0]?.details).toMatchObject({
+        storyId: 'US-004',
+        iterations: [1, 2, 3],
+      });
+    }
+    expect(received.map(([s, w]) => [s, w.code])).toEqual([[id, 'STUCK_LOOP']]);
+  });
+
+  it('rebuilds detection state from stored events after a restart', () => {
+    const store = new InMemorySessionStore();
+    const id = createSessionId();
+    const events = [1, 2, 3].flatMap((n) =>
+      iteration(n, 'US-004', { linesAdded: 5, compileErrors: ['TS2532'] })
+    );
+    const lastIteration = events.splice(-4);
+
+    const collector = new EventCollector({ store });
+    collector.emit(createSessionStartEvent(id));
+    for (const e of events) {
+      collector.emit({ ...e, sessionId: id });
+    }
+
+    const restarted = new EventCollector({ store });
+    for (const e of lastIteration) {
+      restarted.emit({ ...e, sessionId: id });
+    }
+
+    const metadata = restarted.getSessionMetadata(id);
+    expect(isOk(metadata) && metadata.value.warnings?.length).toBe(1);
+  });
+
+  it('can be disabled', () => {
+    const collector = new EventCollector({ stuckDetection: false });
+    const id = createSessionId();
+
+    emitStuckSession(collector, id);
+
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata) && metadata.value.warnings).toBeUndefined();
+  });
+
+  it('stops notifying after unsubscribe', () => {
+    const collector = new EventCollector();
+    let calls = 0;
+    const unsubscribe = collector.subscribeWarnings(() => {
+      calls++;
+    });
+    unsubscribe();
+
+    emitStuckSession(collector, createSessionId());
+
+    expect(calls).toBe(0);
+  });
+
+  it('routes listener errors to onListenerError', () => {
+    const errors: unknown[] = [];
+    const collector = new EventCollector({
+      onListenerError: (error) => errors.push(error),
+    });
+    collector.subscribeWarnings(() => {
+      throw new Error('listener failed');
+    });
+
+    emitStuckSession(collector, createSessionId());
+
+    expect(errors).toHaveLength(1);
+  });
+});
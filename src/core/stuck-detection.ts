@@ -0,0 +1,345 @@
+/**
+ * Stuck-Loop Detection for RalphMeter
+ *
+ * Per-session state machine that flags a story when consecutive
+ * iterations fail with the same error signature, or spend tokens
+ * without changing any lines. The latter only applies to sessions that
+ * report file_change events at all; without them, line changes are
+ * unknown rather than zero.
+ */
+
+import type {
+  MeterEvent,
+  CompilationResultEvent,
+  TestResultEvent,
+} from './events.js';
+import { normalizeDiagnosticMessage } from './diagnostics.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Thresholds for stuck-loop detection
+ */
+export interface StuckDetectionOptions {
+  /**
+   * Consecutive failed iterations of a story with the same error
+   * signature before it is flagged (defaults to 3)
+   */
+  repeatedFailureThreshold?: number;
+  /**
+   * Consecutive unsuccessful iterations of a story that spend tokens
+   * without any file_change lines before it is flagged (defaults to 3).
+   * Only counted once the session has reported a file_change.
+   */
+  noProgressThreshold?: number;
+}
+
+/**
+ * Why a story was flagged
+ * - REPEATED_FAILURE: iterations keep failing with the same errors
+ * - NO_PROGRESS: iterations keep failing and spending tokens without
+ *   changing lines
+ */
+export type StuckLoopReason = 'REPEATED_FAILURE' | 'NO_PROGRESS';
+
+/**
+ * A story flagged as stuck
+ */
+export interface StuckLoopDetection {
+  /** The stuck story */
+  storyId: string;
+  /** Why the story was flagged */
+  reason: StuckLoopReason;
+  /** The consecutive iterations that triggered the detection */
+  iterations: number[];
+  /** Shared error signature (REPEATED_FAILURE only) */
+  signature: string | null;
+  /** Tokens (in + out) spent across those iterations */
+  tokensSpent: number;
+}
+
+/**
+ * Progress of the open iteration
+ */
+export interface IterationProgress {
+  /** Iteration number from iteration_start */
+  iterationNumber: number;
+  /** Story ID from iteration_start */
+  storyId: string;
+  /** Tokens (in + out) spent so far */
+  tokensSpent: number;
+  /** Lines added + deleted by file changes so far */
+  linesChanged: number;
+  /** Signature of the latest failed compilation, or null if it passed */
+  compileSignature: string | null;
+  /** Signature of the latest failed test run, or null if it passed */
+  testSignature: string | null;
+}
+
+/**
+ * A run of consecutive iterations on one story
+ */
+export interface IterationStreak {
+  /** Story ID of the streak */
+  storyId: string;
+  /** Iteration numbers in the streak */
+  iterations: number[];
+  /** Tokens spent across the streak */
+  tokensSpent: number;
+  /** Error signature shared by the streak (failure streaks only) */
+  signature: string | null;
+}
+
+/**
+ * Stuck detection state tracked per session
+ */
+export interface StuckState {
+  /** The open iteration, or null if none */
+  current: IterationProgress | null;
+  /** Consecutive failures with the same signature */
+  failureStreak: IterationStreak | null;
+  /** Consecutive failed iterations with tokens but no line changes */
+  noProgressStreak: IterationStreak | null;
+  /** Whether the session has reported any file_change event */
+  reportsFileChanges: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default consecutive iterations before a story is flagged
+ */
+export const DEFAULT_STUCK_THRESHOLD = 3;
+
+// ============================================================================
+// State Machine
+// ============================================================================
+
+/**
+ * Creates the stuck detection state for a new session
+ */
+export function createStuckState(): StuckState {
+  return {
+    current: null,
+    failureStreak: null,
+    noProgressStreak: null,
+    reportsFileChanges: false,
+  };
+}
+
+/**
+ * Applies an accepted event to the state. Detections are reported on
+ * iteration_end, once per streak, when a streak reaches its threshold.
+ *
+ * @param state - State to update in place
+ * @param event - The accepted event
+ * @param options - Detection thresholds
+ * @returns Stories flagged by this event (usually none)
+ */
+export function applyEventToStuckState(
+  state: StuckState,
+  event: MeterEvent,
+  options: StuckDetectionOptions = {}
+): StuckLoopDetection[] {
+  const current = state.current;
+
+  switch (event.eventType) {
+    case 'iteration_start':
+      state.current = {
+        iterationNumber: event.payload.iterationNumber,
+        storyId: event.payload.storyId,
+        tokensSpent: 0,
+        linesChanged: 0,
+        compileSignature: null,
+        testSignature: null,
+      };
+      return [];
+    case 'tokens_in':
+    case 'tokens_out':
+      if (current !== null) {
+        current.tokensSpent += event.payload.count;
+      }
+      return [];
+    case 'file_change':
+      state.reportsFileChanges = true;
+      if (current !== null) {
+        current.linesChanged +=
+          event.payload.linesAdded + event.payload.linesDeleted;
+      }
+      return [];
+    case 'compilation_result':
+      if (current !== null) {
+        current.compileSignature = event.payload.success
+          ? null
+          : compileSignature(event.payload);
+      }
+      return [];
+    case 'test_result':
+      if (current !== null) {
+        current.testSignature = event.payload.success
+          ? null
+          : testSignature(event.payload);
+      }
+      return [];
+    case 'iteration_end':
+      state.current = null;
+      if (current === null) {
+        return [];
+      }
+      return endIteration(state, current, event.payload.success, options);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Builds stuck detection state by replaying a session's events
+ *
+ * @param events - All events in a session
+ * @param options - Detection thresholds
+ * @returns The state after the last event
+ */
+export function buildStuckState(
+  events: MeterEvent[],
+  options: StuckDetectionOptions = {}
+): StuckState {
+  const state = createStuckState();
+  for (const event of events) {
+    applyEventToStuckState(state, event, options);
+  }
+  return state;
+}
+
+/**
+ * Describes a detection in one line
+ *
+ * @param detection - The stuck loop detection
+ * @returns Human-readable summary
+ */
+export function describeStuckLoop(detection: StuckLoopDetection): string {
+  const count = String(detection.iterations.length);
+  return detection.reason === 'REPEATED_FAILURE'
+    ? `Story ${detection.storyId} is stuck: ${count} consecutive iterations failed with the same errors`
+    : `Story ${detection.storyId} is stuck: ${count} consecutive iterations spent ${String(detection.tokensSpent)} tokens without changing any lines`;
+}
+
+// ============================================================================
+// Private Helpers
+// ============================================================================
+
+/**
+ * Extends or resets the streaks for a finished iteration
+ */
+function endIteration(
+  state: StuckState,
+  iteration: IterationProgress,
+  success: boolean,
+  options: StuckDetectionOptions
+): StuckLoopDetection[] {
+  const detections: StuckLoopDetection[] = [];
+
+  const signature = success
+    ? null
+    : (iteration.compileSignature ?? iteration.testSignature);
+  state.failureStreak =
+    signature === null
+      ? null
+      : extendStreak(state.failureStreak, iteration, signature);
+  if (
+    state.failureStreak?.iterations.length ===
+    (options.repeatedFailureThreshold ?? DEFAULT_STUCK_THRESHOLD)
+  ) {
+    detections.push(toDetection(state.failureStreak, 'REPEATED_FAILURE'));
+  }
+
+  const noProgress =
+    state.reportsFileChanges &&
+    !success &&
+    iteration.tokensSpent > 0 &&
+    iteration.linesChanged === 0;
+  state.noProgressStreak = noProgress
+    ? extendStreak(state.noProgressStreak, iteration, null)
+    : null;
+  if (
+    state.noProgressStreak?.iterations.length ===
+    (options.noProgressThreshold ?? DEFAULT_STUCK_THRESHOLD)
+  ) {
+    detections.push(toDetection(state.noProgressStreak, 'NO_PROGRESS'));
+  }
+
+  return detections;
+}
+
+/**
+ * Adds an iteration to a streak, starting a new streak if the story or
+ * signature differs
+ */
+function extendStreak(
+  streak: IterationStreak | null,
+  iteration: IterationProgress,
+  signature: string | null
+): IterationStreak {
+  if (
+    streak !== null &&
+    streak.storyId === iteration.storyId &&
+    streak.signature === signature
+  ) {
+    streak.iterations.push(iteration.iterationNumber);
+    streak.tokensSpent += iteration.tokensSpent;
+    return streak;
+  }
+  return {
+    storyId: iteration.storyId,
+    iterations: [iteration.iterationNumber],
+    tokensSpent: iteration.tokensSpent,
+    signature,
+  };
+}
+
+/**
+ * Converts a streak into a detection
+ */
+function toDetection(
+  streak: IterationStreak,
+  reason: StuckLoopReason
+): StuckLoopDetection {
+  return {
+    storyId: streak.storyId,
+    reason,
+    iterations: [...streak.iterations],
+    signature: streak.signature,
+    tokensSpent: streak.tokensSpent,
+  };
+}
+
+/**
+ * Signature of a failed compilation: its distinct diagnostic codes
+ * (or normalized messages when codes are missing)
+ */
+function compileSignature(payload: CompilationResultEvent['payload']): string {
+  if (payload.errors === undefined || payload.errors.length === 0) {
+    return `compile:${String(payload.errorCount ?? 0)} errors`;
+  }
+  const keys = new Set(
+    payload.errors.map((e) => e.code ?? normalizeDiagnosticMessage(e.message))
+  );
+  return `compile:${[...keys].sort().join('|')}`;
+}
+
+/**
+ * Signature of a failed test run: its failing test names, or the
+ * failure count when test cases are not reported
+ */
+function testSignature(payload: TestResultEvent['payload']): string {
+  const failing = (payload.testCases ?? [])
+    .filter((t) => t.status === 'failed')
+    .map((t) => `${t.file}:${t.name}`);
+  if (failing.length === 0) {
+    return `test:${String(payload.failed)} failed`;
+  }
+  return `test:${failing.sort().join('|')}`;
+}
@@ -0,0 +1,198 @@
+/**
+ * Tests for Event Subscriptions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBus, matchesFilter } from './subscriptions.js';
+import { EventCollector } from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk } from '../shared/result.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+
+function createSessionStartEvent(sessionId: string): Record<string, unknown> {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'session_start',
+    payload: {},
+  };
+}
+
+function createTokensInEvent(
+  sessionId: string,
+  count: number
+): Record<string, unknown> {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'tokens_in',
+    payload: { count },
+  };
+}
+
+// ============================================================================
+// matchesFilter Tests
+// ============================================================================
+
+describe('matchesFilter', () => {
+  const event: MeterEvent = {
+    timestamp: validTimestamp,
+    sessionId: '550e8400-e29b-41d4-a716-446655440000',
+    eventType: 'tokens_in',
+    payload: { count: 1 },
+  };
+
+  it('matches everything with an empty filter', () => {
+    expect(matchesFilter(event, {})).toBe(true);
+  });
+
+  it('matches on session ID and event type', () => {
+    expect(matchesFilter(event, { sessionId: event.sessionId })).toBe(true);
+    expect(matchesFilter(event, { sessionId: createSessionId() })).toBe(false);
+    expect(matchesFilter(event, { eventType: 'tokens_in' })).toBe(true);
+    expect(matchesFilter(event, { eventType: 'tokens_out' })).toBe(false);
+  });
+});
+
+// ============================================================================
+// EventCollector Subscription Tests
+// ============================================================================
+
+describe('EventCollector subscriptions', () => {
+  let collector: EventCollector;
+  let sessionId: string;
+
+  beforeEach(() => {
+    collector = new EventCollector();
+    sessionId = createSessionId();
+  });
+
+  it('notifies listeners of every accepted event', () => {
+    const received: MeterEvent[] = [];
+    collector.subscribe((event) => received.push(event));
+
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(createTokensInEvent(sessionId, 100));
+
+    expect(received.map((e) => e.eventType)).toEqual([
+      'session_start',
+      'tokens_in',
+    ]);
+  });
+
+  it('fires after the event is stored', () => {
+    let storedCount = -1;
+    collector.subscribe(
+      () => {
+        const session = collector.getSession(sessionId);
+        storedCount = isOk(session) ? session.value.events.length : -1;
+      },
+      { eventType: 'tokens_in' }
+    );
+
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(createTokensInEvent(sessionId, 100));
+
+    expect(storedCount).toBe(2);
+  });
+
+  it('does not notify for rejected events', () => {
+    const listener = vi.fn();
+    collector.subscribe(listener);
+
+    collector.emit({ invalid: 'data' });
+    collector.emit(createTokensInEvent(sessionId, 100));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('filters by session and event type', () => {
+    const otherId = createSessionId();
+    const received: MeterEvent[] = [];
+    collector.subscribe((event) => received.push(event), {
+      sessionId,
+      eventType: 'tokens_in',
+    });
+
+    collector.emit(createSessionStartEvent(sessionId));
+    collector.emit(createSessionStartEvent(otherId));
+    collector.emit(createTokensInEvent(otherId, 1));
+    collector.emit(createTokensInEvent(sessionId, 2));
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.sessionId).toBe(sessionId);
+  });
+
+  it('stops notifying after unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = collector.subscribe(listener);
+
+    collector.emit(createSessionStartEvent(sessionId));
+    unsubscribe();
+    unsubscribe();
+    collector.emit(createTokensInEvent(sessionId, 100));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps emitting when a listener throws', () => {
+    const onListenerError = vi.fn();
+    collector = new EventCollector({ onListenerError });
+    const after = vi.fn();
+    collector.subscribe(() => {
+      throw new Error('boom');
+    });
+    collector.subscribe(after);
+
+    const result = collector.emit(createSessionStartEvent(sessionId));
+
+    expect(isOk(result)).toBe(true);
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(onListenerError).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams events through an async iterator', async () => {
+    collector.emit(createSessionStartEvent(sessionId));
+    const stream = collector.stream({ sessionId, eventType: 'tokens_in' });
+
+    collector.emit(createTokensInEvent(sessionId, 1));
+    collector.emit(createTokensInEvent(sessionId, 2));
+    setTimeout(() => collector.emit(createTokensInEvent(sessionId, 3)), 0);
+
+    const counts: number[] = [];
+    for await (const event of stream) {
+      if (event.eventType === 'tokens_in') {
+        counts.push(event.payload.count);
+      }
+      if (counts.length === 3) {
+        break;
+      }
+    }
+
+    expect(counts).toEqual([1, 2, 3]);
+  });
+});
+
+// ============================================================================
+// EventBus Tests
+// ============================================================================
+
+describe('EventBus', () => {
+  it('unsubscribes a stream when it is returned', async () => {
+    const bus = new EventBus();
+    const stream = bus.stream();
+    expect(bus.size).toBe(1);
+
+    const pending = stream.next();
+    await stream.return?.();
+
+    expect(bus.size).toBe(0);
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Event Subscriptions for RalphMeter
+ *
+ * Lets consumers react to events as the collector accepts them, either
+ * through callbacks or an async iterator.
+ */
+
+import type { MeterEvent, EventType } from './events.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Restricts which events a subscription receives.
+ * Omitted fields match everything.
+ */
+export interface EventFilter {
+  /** Only events for this session */
+  sessionId?: string;
+  /** Only events of this type */
+  eventType?: EventType;
+}
+
+/**
+ * Callback invoked for each matching event
+ */
+export type EventListener = (event: MeterEvent) => void;
+
+/**
+ * Removes a subscription. Calling it more than once is a no-op.
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Called when a listener throws, with the event being handled (undefined
+ * for notifications not caused by an event, such as scheduled evictions)
+ */
+export type ListenerErrorHandler = (
+  error: unknown,
+  event: MeterEvent | undefined
+) => void;
+
+/**
+ * A registered listener and its filter
+ */
+interface Subscription {
+  listener: EventListener;
+  filter: EventFilter;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Checks whether an event matches a filter
+ */
+export function matchesFilter(event: MeterEvent, filter: EventFilter): boolean {
+  if (filter.sessionId !== undefined && event.sessionId !== filter.sessionId) {
+    return false;
+  }
+  if (filter.eventType !== undefined && event.eventType !== filter.eventType) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// EventBus Class
+// ============================================================================
+
+/**
+ * Dispatches accepted events to subscribers.
+ *
+ * Listeners run synchronously in subscription order. A listener that
+ * throws is reported to the error handler and never stops dispatch.
+ */
+export class EventBus {
+  /** Active subscriptions */
+  private subscriptions = new Set<Subscription>();
+
+  /**
+   * Creates a new EventBus
+   *
+   * @param onListenerError - Optional handler for listener exceptions
+   */
+  constructor(private readonly onListenerError?: ListenerErrorHandler) {}
+
+  /**
+   * Registers a listener
+   *
+   * @param listener - Called for each matching event
+   * @param filter - Optional filter (defaults to all events)
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: EventListener, filter: EventFilter = {}): Unsubscribe {
+    const subscription: Subscription = { listener, filter };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Creates an async iterator over matching events.
+   * Events are buffered until consumed. Breaking out of a
+   * `for await` loop unsubscribes.
+   *
+   * @param filter - Optional filter (defaults to all events)
+   * @returns Async iterator of events
+   */
+  stream(filter: EventFilter = {}): AsyncIterableIterator<MeterEvent> {
+    const buffer: MeterEvent[] = [];
+    const waiting: ((result: IteratorResult<MeterEvent>) => void)[] = [];
+    let done = false;
+
+    const unsubscribe = this.subscribe((event) => {
+      const resolve = waiting.shift();
+      if (resolve !== undefined) {
+        resolve({ value: event, done: false });
+      } else {
+        buffer.push(event);
+      }
+    }, filter);
+
+    const finish = (): Promise<IteratorResult<MeterEvent>> => {
+      done = true;
+      unsubscribe();
+      buffer.length = 0;
+      for (const resolve of waiting.splice(0)) {
+        resolve({ value: undefined, done: true });
+      }
+      return Promise.resolve({ value: undefined, done: true });
+    };
+
+    return {
+      next: (): Promise<IteratorResult<MeterEvent>> => {
+        const event = buffer.shift();
+        if (event !== undefined) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting.push(resolve);
+        });
+      },
+      return: finish,
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Delivers an event to all matching listeners
+   *
+   * @param event - The accepted event
+   */
+  publish(event: MeterEvent): void {
+    for (const { listener, filter } of [...this.subscriptions]) {
+      if (!matchesFilter(event, filter)) {
+        continue;
+      }
+      try {
+        listener(event);
+      } catch (error) {
+        this.onListenerError?.(error, event);
+      }
+    }
+  }
+
+  /**
+   * Number of active subscriptions (including streams)
+   */
+  get size(): number {
+    return this.subscriptions.size;
+  }
+}
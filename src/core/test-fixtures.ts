@@ -0,0 +1,184 @@
+/**
+ * Shared Test Fixtures for RalphMeter
+ *
+ * Typed event builders for core tests. Each builder takes the session ID,
+ * the event's payload and an optional timestamp, so payload shape errors
+ * are caught by the type checker rather than by validation at runtime.
+ */
+
+import type {
+  SessionStartEvent,
+  SessionEndEvent,
+  IterationStartEvent,
+  IterationEndEvent,
+  TokensInEvent,
+  TokensOutEvent,
+  CompilationResultEvent,
+  TestResultEvent,
+  StoryCompleteEvent,
+  ToolCallEvent,
+  FileChangeEvent,
+  CustomEvent,
+} from './events.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default timestamp for fixture events
+ */
+export const FIXTURE_TIMESTAMP = '2026-01-30T12:00:00.000Z';
+
+// ============================================================================
+// Timestamp Helpers
+// ============================================================================
+
+/**
+ * Gets the timestamp a number of minutes after FIXTURE_TIMESTAMP
+ *
+ * @param minute - Minutes after the fixture timestamp
+ * @returns ISO timestamp
+ */
+export function at(minute: number): string {
+  return new Date(
+    Date.parse(FIXTURE_TIMESTAMP) + minute * 60_000
+  ).toISOString();
+}
+
+// ============================================================================
+// Event Builders
+// ============================================================================
+
+/**
+ * Builds a session_start event
+ */
+export function createSessionStartEvent(
+  sessionId: string,
+  payload: SessionStartEvent['payload'] = {},
+  timestamp: string = FIXTURE_TIMESTAMP
+): SessionStartEvent {
+  return { timestamp, sessionId, eventType: 'session_start', payload };
+}
+
+/**
+ * Builds a session_end event
+ */
+export function createSessionEndEvent(
+  sessionId: string,
+  payload: SessionEndEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): SessionEndEvent {
+  return { timestamp, sessionId, eventType: 'session_end', payload };
+}
+
+/**
+ * Builds a iteration_start event
+ */
+export function createIterationStartEvent(
+  sessionId: string,
+  payload: IterationStartEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): IterationStartEvent {
+  return { timestamp, sessionId, eventType: 'iteration_start', payload };
+}
+
+/**
+ * Builds a iteration_end event
+ */
+export function createIterationEndEvent(
+  sessionId: string,
+  payload: IterationEndEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): IterationEndEvent {
+  return { timestamp, sessionId, eventType: 'iteration_end', payload };
+}
+
+/**
+ * Builds a tokens_in event
+ */
+export function createTokensInEvent(
+  sessionId: string,
+  payload: TokensInEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): TokensInEvent {
+  return { timestamp, sessionId, eventType: 'tokens_in', payload };
+}
+
+/**
+ * Builds a tokens_out event
+ */
+export function createTokensOutEvent(
+  sessionId: string,
+  payload: TokensOutEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): TokensOutEvent {
+  return { timestamp, sessionId, eventType: 'tokens_out', payload };
+}
+
+/**
+ * Builds a compilation_result event
+ */
+export function createCompilationResultEvent(
+  sessionId: string,
+  payload: CompilationResultEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): CompilationResultEvent {
+  return { timestamp, sessionId, eventType: 'compilation_result', payload };
+}
+
+/**
+ * Builds a test_result event
+ */
+export function createTestResultEvent(
+  sessionId: string,
+  payload: TestResultEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): TestResultEvent {
+  return { timestamp, sessionId, eventType: 'test_result', payload };
+}
+
+/**
+ * Builds a story_complete event
+ */
+export function createStoryCompleteEvent(
+  sessionId: string,
+  payload: StoryCompleteEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): StoryCompleteEvent {
+  return { timestamp, sessionId, eventType: 'story_complete', payload };
+}
+
+/**
+ * Builds a tool_call event
+ */
+export function createToolCallEvent(
+  sessionId: string,
+  payload: ToolCallEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): ToolCallEvent {
+  return { timestamp, sessionId, eventType: 'tool_call', payload };
+}
+
+/**
+ * Builds a file_change event
+ */
+export function createFileChangeEvent(
+  sessionId: string,
+  payload: FileChangeEvent['payload'],
+  timestamp: string = FIXTURE_TIMESTAMP
+): FileChangeEvent {
+  return { timestamp, sessionId, eventType: 'file_change', payload };
+}
+
+/**
+ * Builds a custom event of a registered event type
+ */
+export function createCustomEvent(
+  sessionId: string,
+  eventType: CustomEvent['eventType'],
+  payload: unknown,
+  timestamp: string = FIXTURE_TIMESTAMP
+): CustomEvent {
+  return { timestamp, sessionId, eventType, payload };
+}
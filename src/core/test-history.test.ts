@@ -0,0 +1,228 @@
+/**
+ * Tests for Test Case History
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTestHistory,
+  summarizeTestHistory,
+  type TestCaseHistory,
+} from './test-history.js';
+import { EventCollector } from './collector.js';
+import { createSessionId, type MeterEvent, type TestCase } from './events.js';
+import { isOk, isErr } from '../shared/result.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const validTimestamp = '2026-01-30T12:00:00.000Z';
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+function testCase(
+  name: string,
+  status: TestCase['status'],
+  failureMessage?: string
+): TestCase {
+  return {
+    file: 'src/a.test.ts',
+    name,
+    status,
+    ...(failureMessage !== undefined && { failureMessage }),
+  };
+}
+
+function testRun(testCases: TestCase[]): MeterEvent {
+  const failed = testCases.filter((t) => t.status === 'failed').length;
+  const passed = testCases.filter((t) => t.status === 'passed').length;
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'test_result',
+    payload: {
+      success: failed === 0,
+      totalTests: testCases.length,
+      passed,
+      failed,
+      testCases,
+    },
+  };
+}
+
+function codeChange(): MeterEvent {
+  return {
+    timestamp: validTimestamp,
+    sessionId,
+    eventType: 'file_change',
+    payload: {
+      filePath: 'src/a.ts',
+      linesAdded: 1,
+      linesDeleted: 0,
+      storyId: 'US-001',
+    },
+  };
+}
+
+function names(histories: TestCaseHistory[]): string[] {
+  return histories.map((h) => h.name);
+}
+
+// ============================================================================
+// Test History Tests
+// ============================================================================
+
+describe('buildTestHistory', () => {
+  it('records each test case status in order', () => {
+    const state = buildTestHistory([
+      testRun([testCase('adds', 'passed'), testCase('subtracts', 'failed')]),
+      codeChange(),
+      testRun([testCase('adds', 'passed'), testCase('subtracts', 'passed')]),
+    ]);
+
+    const report = summarizeTestHistory(state);
+
+    expect(names(report.tests)).toEqual(['adds', 'subtracts']);
+    expect(report.tests[1]?.runs.map((r) => r.status)).toEqual([
+      'failed',
+      'passed',
+    ]);
+    expect(report.tests[1]?.runs.map((r) => r.codeVersion)).toEqual([0, 1]);
+  });
+
+  it('ignores test results without test cases', () => {
+    const event = testRun([]);
+    if (event.eventType === 'test_result') {
+      delete event.payload.testCases;
+    }
+
+    expect(buildTestHistory([event]).tests.size).toBe(0);
+  });
+
+  it('keeps same-named tests in different files apart', () => {
+    const state = buildTestHistory([
+      testRun([
+        testCase('works', 'passed'),
+        { file: 'src/b.test.ts', name: 'works', status: 'failed' },
+      ]),
+    ]);
+
+    expect(state.tests.size).toBe(2);
+  });
+});
+
+describe('summarizeTestHistory', () => {
+  it('reports tests that regressed as newly failing', () => {
+    const report = summarizeTestHistory(
+      buildTestHistory([
+        testRun([testCase('adds', 'passed'), testCase('stable', 'failed')]),
+        codeChange(),
+        testRun([
+          testCase('adds', 'failed', 'expected 3'),
+          testCase('stable', 'failed'),
+        ]),
+      ])
+    );
+
+    expect(names(report.newlyFailing)).toEqual(['adds']);
+    expect(report.newlyFailing[0]?.runs[1]?.failureMessage).toBe('expected 3');
+    expect(report.fixed).toEqual([]);
+    expect(report.flaky).toEqual([]);
+  });
+
+  it('reports tests that recovered as fixed', () => {
+    const report = summarizeTestHistory(
+      buildTestHistory([
+        testRun([testCase('adds', 'failed')]),
+        codeChange(),
+        testRun([testCase('adds', 'passed')]),
+      ])
+    );
+
+    expect(names(report.fixed)).toEqual(['adds']);
+    expect(report.newlyFailing).toEqual([]);
+  });
+
+  it('reports tests that flip without a code change as flaky', () => {
+    const report = summarizeTestHistory(
+      buildTestHistory([
+        testRun([testCase('races', 'passed'), testCase('adds', 'failed')]),
+        testRun([testCase('races', 'failed'), testCase('adds', 'failed')]),
+        testRun([testCase('races', 'passed'), testCase('adds', 'failed')]),
+      ])
+    );
+
+    expect(names(report.flaky)).toEqual(['races']);
+    expect(report.flaky[0]?.flakyFlips).toBe(2);
+  });
+
+  it('does not count flips across code changes as flaky', () => {
+    const report = summarizeTestHistory(
+      buildTestHistory([
+        testRun([testCase('adds', 'failed')]),
+        codeChange(),
+        testRun([testCase('adds', 'passed')]),
+        codeChange(),
+        testRun([testCase('adds', 'failed')]),
+      ])
+    );
+
+    expect(report.flaky).toEqual([]);
+    expect(names(report.newlyFailing)).toEqual(['adds']);
+  });
+
+  it('ignores skipped runs when comparing outcomes', () => {
+    const report = summarizeTestHistory(
+      buildTestHistory([
+        testRun([testCase('adds', 'passed')]),
+        testRun([testCase('adds', 'skipped')]),
+        testRun([testCase('adds', 'passed')]),
+      ])
+    );
+
+    expect(report.flaky).toEqual([]);
+    expect(report.newlyFailing).toEqual([]);
+    expect(report.fixed).toEqual([]);
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector.getTestHistory', () => {
+  it('tracks test history as events arrive', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const withSession = (event: MeterEvent): MeterEvent => ({
+      ...event,
+      sessionId: id,
+    });
+
+    collector.emit({
+      timestamp: validTimestamp,
+      sessionId: id,
+      eventType: 'session_start',
+      payload: {},
+    });
+    collector.emit(withSession(testRun([testCase('adds', 'passed')])));
+    const before = collector.getTestHistory(id);
+    collector.emit(withSession(testRun([testCase('adds', 'failed')])));
+    const after = collector.getTestHistory(id);
+
+    expect(isOk(before) && before.value.flaky).toEqual([]);
+    expect(isOk(after)).toBe(true);
+    if (isOk(after)) {
+      expect(names(after.value.newlyFailing)).toEqual(['adds']);
+      expect(names(after.value.flaky)).toEqual(['adds']);
+    }
+  });
+
+  it('returns error for non-existent session', () => {
+    const result = new EventCollector().getTestHistory(createSessionId());
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('SESSION_NOT_FOUND');
+    }
+  });
+});
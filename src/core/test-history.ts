@@ -0,0 +1,201 @@
+/**
+ * Test Case History for RalphMeter
+ *
+ * Tracks each test case's status across a session's test_result events
+ * to find regressions, fixes and flaky tests.
+ */
+
+import type { MeterEvent, TestCase } from './events.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of a single test case run
+ */
+export type TestCaseStatus = TestCase['status'];
+
+/**
+ * One recorded run of a test case
+ */
+export interface TestCaseRun {
+  /** Timestamp of the test_result event */
+  timestamp: string;
+  /** Outcome of the run */
+  status: TestCaseStatus;
+  /** Number of file_change events seen before this run */
+  codeVersion: number;
+  /** Test duration in milliseconds (if reported) */
+  durationMs?: number;
+  /** Failure message (if failed) */
+  failureMessage?: string;
+}
+
+/**
+ * Status history of a single test case
+ */
+export interface TestCaseHistory {
+  /** Test file path */
+  file: string;
+  /** Full test name */
+  name: string;
+  /** Runs in the order they were reported */
+  runs: TestCaseRun[];
+  /**
+   * Times the test switched between passed and failed with no code
+   * change since its previous run
+   */
+  flakyFlips: number;
+}
+
+/**
+ * Test history state tracked per session
+ */
+export interface TestHistoryState {
+  /** Test histories keyed by file and name */
+  tests: Map<string, TestCaseHistory>;
+  /** Number of file_change events seen so far */
+  codeVersion: number;
+}
+
+/**
+ * Test health summary for a session
+ */
+export interface TestHistoryReport {
+  /** Every test case seen, in order of first appearance */
+  tests: TestCaseHistory[];
+  /** Tests currently failing that passed earlier in the session */
+  newlyFailing: TestCaseHistory[];
+  /** Tests currently passing that failed earlier in the session */
+  fixed: TestCaseHistory[];
+  /** Tests that switched between passed and failed without a code change */
+  flaky: TestCaseHistory[];
+}
+
+// ============================================================================
+// Test History Functions
+// ============================================================================
+
+/**
+ * Creates the test history state for a new session
+ */
+export function createTestHistoryState(): TestHistoryState {
+  return { tests: new Map(), codeVersion: 0 };
+}
+
+/**
+ * Records an event in the test history. Only test_result events with
+ * test cases and file_change events affect the state.
+ *
+ * @param state - State to update in place
+ * @param event - The accepted event
+ */
+export function applyEventToTestHistory(
+  state: TestHistoryState,
+  event: MeterEvent
+): void {
+  if (event.eventType === 'file_change') {
+    state.codeVersion++;
+    return;
+  }
+  if (event.eventType !== 'test_result') {
+    return;
+  }
+
+  for (const testCase of event.payload.testCases ?? []) {
+    const key = `${testCase.file}\u0000${testCase.name}`;
+    let history = state.tests.get(key);
+    if (history === undefined) {
+      history = {
+        file: testCase.file,
+        name: testCase.name,
+        runs: [],
+        flakyFlips: 0,
+      };
+      state.tests.set(key, history);
+    }
+
+    const previous = lastOutcome(history);
+    if (
+      previous !== undefined &&
+      testCase.status !== 'skipped' &&
+      previous.status !== testCase.status &&
+      previous.codeVersion === state.codeVersion
+    ) {
+      history.flakyFlips++;
+    }
+
+    history.runs.push({
+      timestamp: event.timestamp,
+      status: testCase.status,
+      codeVersion: state.codeVersion,
+      ...(testCase.durationMs !== undefined && {
+        durationMs: testCase.durationMs,
+      }),
+      ...(testCase.failureMessage !== undefined && {
+        failureMessage: testCase.failureMessage,
+      }),
+    });
+  }
+}
+
+/**
+ * Builds test history with a full scan of the events
+ *
+ * @param events - All events in a session
+ * @returns The test history state
+ */
+export function buildTestHistory(events: MeterEvent[]): TestHistoryState {
+  const state = createTestHistoryState();
+  for (const event of events) {
+    applyEventToTestHistory(state, event);
+  }
+  return state;
+}
+
+/**
+ * Summarizes test history into newly failing, fixed and flaky tests.
+ * Skipped runs are ignored when comparing outcomes.
+ *
+ * @param state - The test history state
+ * @returns The test health report
+ */
+export function summarizeTestHistory(
+  state: TestHistoryState
+): TestHistoryReport {
+  const tests = Array.from(state.tests.values());
+  const newlyFailing: TestCaseHistory[] = [];
+  const fixed: TestCaseHistory[] = [];
+
+  for (const history of tests) {
+    const latest = lastOutcome(history);
+    if (latest === undefined) {
+      continue;
+    }
+    const opposite = latest.status === 'passed' ? 'failed' : 'passed';
+    if (history.runs.some((run) => run.status === opposite)) {
+      (latest.status === 'failed' ? newlyFailing : fixed).push(history);
+    }
+  }
+
+  return {
+    tests,
+    newlyFailing,
+    fixed,
+    flaky: tests.filter((history) => history.flakyFlips > 0),
+  };
+}
+
+/**
+ * Gets the latest passed or failed run of a test case
+ */
+function lastOutcome(history: TestCaseHistory): TestCaseRun | undefined {
+  for (let i = history.runs.length - 1; i >= 0; i--) {
+    const run = history.runs[i];
+    if (run !== undefined && run.status !== 'skipped') {
+      return run;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,279 @@
+/**
+ * Tests for Event Timeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  sortEventsByTimestamp,
+  findClockSkew,
+  clampEndedAt,
+  describeClockSkew,
+  type ClockSkew,
+} from './timeline.js';
+import {
+  EventCollector,
+  type SessionMetadata,
+  type SessionWarning,
+} from './collector.js';
+import { createSessionId, type MeterEvent } from './events.js';
+import { isOk } from '../shared/result.js';
+import {
+  at,
+  createIterationEndEvent,
+  createIterationStartEvent,
+  createSessionEndEvent,
+  createSessionStartEvent,
+  createTokensInEvent,
+} from './test-fixtures.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+function tokens(count: number, minute: number, id = sessionId): MeterEvent {
+  return createTokensInEvent(id, { count }, at(minute));
+}
+
+const metadata: SessionMetadata = {
+  id: sessionId,
+  status: 'active',
+  startedAt: at(10),
+};
+
+function skewWarnings(collector: EventCollector, id: string): ClockSkew[] {
+  const result = collector.getSessionMetadata(id);
+  const warnings: SessionWarning[] = isOk(result)
+    ? (result.value.warnings ?? [])
+    : [];
+  return warnings
+    .filter((w) => w.code === 'CLOCK_SKEW')
+    .map((w) => w.details as ClockSkew);
+}
+
+// ============================================================================
+// Timeline Function Tests
+// ============================================================================
+
+describe('sortEventsByTimestamp', () => {
+  it('sorts by timestamp and keeps arrival order for ties', () => {
+    const events = [tokens(1, 5), tokens(2, 3), tokens(3, 5), tokens(4, 3)];
+
+    const sorted = sortEventsByTimestamp(events);
+
+    expect(
+      sorted.map((e) => e.eventType === 'tokens_in' && e.payload.count)
+    ).toEqual([2, 4, 1, 3]);
+    expect(events.map((e) => e.timestamp)).toEqual([
+      at(5),
+      at(3),
+      at(5),
+      at(3),
+    ]);
+  });
+});
+
+describe('findClockSkew', () => {
+  it('flags events before the session start beyond the tolerance', () => {
+    expect(findClockSkew(tokens(1, 8), metadata, undefined, 0)).toEqual({
+      kind: 'BEFORE_START',
+      timestamp: at(8),
+      boundary: at(10),
+      skewMs: 120_000,
+    });
+    expect(
+      findClockSkew(tokens(1, 8), metadata, undefined, 120_000)
+    ).toBeNull();
+    expect(findClockSkew(tokens(1, 10), metadata, undefined, 0)).toBeNull();
+  });
+
+  it('flags a session end before the latest event', () => {
+    const end = createSessionEndEvent(sessionId, { success: true }, at(15));
+
+    expect(findClockSkew(end, metadata, at(20), 0)?.kind).toBe('AFTER_END');
+    expect(findClockSkew(end, metadata, at(20), 300_000)).toBeNull();
+    expect(findClockSkew(tokens(1, 15), metadata, at(20), 0)).toBeNull();
+  });
+});
+
+describe('clampEndedAt', () => {
+  it('never ends before the latest event', () => {
+    expect(clampEndedAt(at(15), at(20))).toBe(at(20));
+    expect(clampEndedAt(at(25), at(20))).toBe(at(25));
+  });
+});
+
+describe('describeClockSkew', () => {
+  it('summarizes skews', () => {
+    expect(
+      describeClockSkew({
+        kind: 'AFTER_END',
+        timestamp: at(15),
+        boundary: at(20),
+        skewMs: 300_000,
+      })
+    ).toBe(
+      `Session end ${at(15)} is 300000ms before the latest event (${at(20)})`
+    );
+  });
+});
+
+// ============================================================================
+// EventCollector Integration Tests
+// ============================================================================
+
+describe('EventCollector timeline', () => {
+  it('returns late events in timestamp order', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id, {}, at(0)));
+    collector.emit(tokens(1, 10, id));
+    collector.emit(tokens(2, 5, id));
+    collector.emit(tokens(3, 5, id));
+
+    const session = collector.getSession(id);
+
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(session.value.events.map((e) => e.timestamp)).toEqual([
+        at(0),
+        at(5),
+        at(5),
+        at(10),
+      ]);
+    }
+    expect(collector.getAllSessions()[0]?.events).toEqual(
+      isOk(session) && session.value.events
+    );
+    expect(skewWarnings(collector, id)).toEqual([]);
+  });
+
+  it('attributes a late event to the iteration open at its timestamp', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id, {}, at(0)));
+    collector.emit(
+      createIterationStartEvent(
+        id,
+        { iterationNumber: 1, storyId: 'US-1' },
+        at(1)
+      )
+    );
+    collector.emit(
+      createIterationEndEvent(
+        id,
+        { iterationNumber: 1, storyId: 'US-1', success: true },
+        at(3)
+      )
+    );
+    collector.emit(
+      createIterationStartEvent(
+        id,
+        { iterationNumber: 2, storyId: 'US-2' },
+        at(4)
+      )
+    );
+    collector.emit(tokens(50, 2, id));
+    collector.emit(tokens(5, 5, id));
+
+    const breakdown = collector.getBreakdown(id);
+    const budget = collector.getBudgetStatus(id);
+
+    expect(
+      isOk(breakdown) && breakdown.value.stories.map((s) => s.tokensIn)
+    ).toEqual([50, 5]);
+    expect(isOk(budget) && budget.value.usage.tokensByStory).toEqual({
+      'US-1': 50,
+      'US-2': 5,
+    });
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata) && metadata.value.warnings).toBeFalsy();
+  });
+
+  it('checks the order of a late event against the events before it', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id, {}, at(0)));
+    collector.emit(
+      createIterationStartEvent(
+        id,
+        { iterationNumber: 2, storyId: 'US-1' },
+        at(5)
+      )
+    );
+
+    collector.emit(
+      createIterationStartEvent(
+        id,
+        { iterationNumber: 1, storyId: 'US-1' },
+        at(1)
+      )
+    );
+    collector.emit(
+      createIterationEndEvent(
+        id,
+        { iterationNumber: 1, storyId: 'US-1', success: true },
+        at(2)
+      )
+    );
+
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata) && metadata.value.warnings).toBeFalsy();
+    const session = collector.getSession(id);
+    expect(
+      isOk(session) && session.value.events.map((e) => e.eventType)
+    ).toEqual([
+      'session_start',
+      'iteration_start',
+      'iteration_end',
+      'iteration_start',
+    ]);
+  });
+
+  it('flags events timestamped before the session start', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    const received: string[] = [];
+    collector.subscribeWarnings((_, warning) => received.push(warning.code));
+    collector.emit(createSessionStartEvent(id, {}, at(10)));
+
+    const result = collector.emit(tokens(1, 9, id));
+
+    expect(isOk(result)).toBe(true);
+    expect(skewWarnings(collector, id)).toMatchObject([
+      { kind: 'BEFORE_START', skewMs: 60_000 },
+    ]);
+    expect(received).toEqual(['CLOCK_SKEW']);
+  });
+
+  it('tolerates skew within the configured tolerance', () => {
+    const collector = new EventCollector({ clockSkewToleranceMs: 120_000 });
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id, {}, at(10)));
+    collector.emit(tokens(1, 9, id));
+    collector.emit(tokens(1, 20, id));
+    collector.emit(createSessionEndEvent(id, { success: true }, at(19)));
+
+    expect(skewWarnings(collector, id)).toEqual([]);
+  });
+
+  it('keeps endedAt after the latest event and flags an early session end', () => {
+    const collector = new EventCollector();
+    const id = createSessionId();
+    collector.emit(createSessionStartEvent(id, {}, at(0)));
+    collector.emit(tokens(1, 30, id));
+
+    collector.emit(createSessionEndEvent(id, { success: true }, at(20)));
+
+    const metadata = collector.getSessionMetadata(id);
+    expect(isOk(metadata)).toBe(true);
+    if (isOk(metadata)) {
+      expect(metadata.value.endedAt).toBe(at(30));
+      expect(metadata.value.status).toBe('completed');
+    }
+    expect(skewWarnings(collector, id)).toMatchObject([
+      { kind: 'AFTER_END', timestamp: at(20), boundary: at(30) },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Event Timeline for RalphMeter
+ *
+ * Events from distributed hooks arrive late or carry skewed clocks.
+ * Session stores keep each session's events in timestamp order, so every
+ * report sees late events where they happened. Also flags timestamps
+ * that fall outside the session's start and end by more than a skew
+ * tolerance.
+ */
+
+import type { MeterEvent } from './events.js';
+import type { SessionMetadata } from './collector.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A timestamp outside its session's time range
+ * - BEFORE_START: the event is earlier than the session's startedAt
+ * - AFTER_END: stored events are later than the session_end timestamp
+ */
+export interface ClockSkew {
+  /** Which boundary was crossed */
+  kind: 'BEFORE_START' | 'AFTER_END';
+  /** The timestamp carried by the incoming event */
+  timestamp: string;
+  /** The boundary it was compared against */
+  boundary: string;
+  /** How far past the boundary, in milliseconds */
+  skewMs: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default clock skew tolerance: any timestamp outside the session's
+ * range is flagged
+ */
+export const DEFAULT_CLOCK_SKEW_TOLERANCE_MS = 0;
+
+// ============================================================================
+// Timeline Functions
+// ============================================================================
+
+/**
+ * Sorts events by timestamp. Events with equal timestamps keep their
+ * arrival order.
+ *
+ * @param events - Events in arrival order
+ * @returns A new array in timestamp order
+ */
+export function sortEventsByTimestamp(events: MeterEvent[]): MeterEvent[] {
+  return events
+    .map((event, index) => ({
+      event,
+      index,
+      time: Date.parse(event.timestamp),
+    }))
+    .sort((a, b) => (a.time === b.time ? a.index - b.index : a.time - b.time))
+    .map(({ event }) => event);
+}
+
+/**
+ * Finds where an event belongs in a list already in timestamp order:
+ * after every event with an equal or earlier timestamp, so events with
+ * equal timestamps keep their arrival order
+ *
+ * @param events - Events in timestamp order
+ * @param timestamp - Timestamp of the event to insert
+ * @returns Index to insert the event at
+ */
+export function findInsertionIndex(
+  events: MeterEvent[],
+  timestamp: string
+): number {
+  const time = Date.parse(timestamp);
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const event = events[mid];
+    if (event !== undefined && Date.parse(event.timestamp) <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Checks an incoming event's timestamp against its session's range: any
+ * event earlier than startedAt, or a session_end earlier than the latest
+ * stored event, by more than the tolerance
+ *
+ * @param event - The incoming event
+ * @param metadata - The session's metadata
+ * @param latestTimestamp - Latest of startedAt and the stored event
+ *   timestamps (only needed for session_end)
+ * @param toleranceMs - Skew allowed before flagging
+ * @returns The skew, or null if the timestamp is within range
+ */
+export function findClockSkew(
+  event: MeterEvent,
+  metadata: SessionMetadata,
+  latestTimestamp: string | undefined,
+  toleranceMs: number
+): ClockSkew | null {
+  const time = Date.parse(event.timestamp);
+  const beforeStart = Date.parse(metadata.startedAt) - time;
+  if (beforeStart > toleranceMs) {
+    return {
+      kind: 'BEFORE_START',
+      timestamp: event.timestamp,
+      boundary: metadata.startedAt,
+      skewMs: beforeStart,
+    };
+  }
+  if (event.eventType === 'session_end' && latestTimestamp !== undefined) {
+    const afterEnd = Date.parse(latestTimestamp) - time;
+    if (afterEnd > toleranceMs) {
+      return {
+        kind: 'AFTER_END',
+        timestamp: event.timestamp,
+        boundary: latestTimestamp,
+        skewMs: afterEnd,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Gets the end time to record for a session_end, clamped so it is never
+ * earlier than the session's start or its latest stored event
+ *
+ * @param timestamp - Timestamp carried by session_end
+ * @param latestTimestamp - Latest of startedAt and the stored event timestamps
+ * @returns The session's endedAt
+ */
+export function clampEndedAt(
+  timestamp: string,
+  latestTimestamp: string
+): string {
+  return Date.parse(timestamp) < Date.parse(latestTimestamp)
+    ? latestTimestamp
+    : timestamp;
+}
+
+/**
+ * Describes a clock skew in one line
+ *
+ * @param skew - The clock skew
+ * @returns Human-readable summary
+ */
+export function describeClockSkew(skew: ClockSkew): string {
+  return skew.kind === 'BEFORE_START'
+    ? `Event timestamp ${skew.timestamp} is ${String(skew.skewMs)}ms before the session started (${skew.boundary})`
+    : `Session end ${skew.timestamp} is ${String(skew.skewMs)}ms before the latest event (${skew.boundary})`;
+}
@@ -0,0 +1,252 @@
+/**
+ * Tests for Event Schema Versioning
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  UpcasterRegistry,
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+} from './versioning.js';
+import { validateEvent, safeValidateEvent } from './events.js';
+import { EventCollector } from './collector.js';
+import { isOk, isErr } from '../shared/result.js';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const sessionId = '550e8400-e29b-41d4-a716-446655440000';
+
+/**
+ * Events as written by builds before schemaVersion existed (v1).
+ * These must keep loading unchanged.
+ */
+const v1Corpus: Record<string, unknown>[] = [
+  {
+    timestamp: '2026-01-30T12:00:00.000Z',
+    sessionId,
+    eventType: 'session_start',
+    payload: { tags: { mode: 'tdd' } },
+  },
+  {
+    timestamp: '2026-01-30T12:00:01.000Z',
+    sessionId,
+    eventType: 'iteration_start',
+    payload: { iterationNumber: 1, storyId: 'US-001' },
+  },
+  {
+    timestamp: '2026-01-30T12:00:02.000Z',
+    sessionId,
+    eventType: 'tokens_in',
+    payload: { count: 1200 },
+  },
+  {
+    timestamp: '2026-01-30T12:00:03.000Z',
+    sessionId,
+    eventType: 'tokens_out',
+    payload: { count: 300 },
+  },
+  {
+    timestamp: '2026-01-30T12:00:04.000Z',
+    sessionId,
+    eventType: 'compilation_result',
+    payload: {
+      success: false,
+      errorCount: 1,
+      errors: [{ file: 'src/a.ts', line: 3, message: 'Type error' }],
+    },
+  },
+  {
+    timestamp: '2026-01-30T12:00:05.000Z',
+    sessionId,
+    eventType: 'test_result',
+    payload: { success: true, totalTests: 4, passed: 4, failed: 0 },
+  },
+  {
+    timestamp: '2026-01-30T12:00:06.000Z',
+    sessionId,
+    eventType: 'iteration_end',
+    payload: { iterationNumber: 1, storyId: 'US-001', success: true },
+  },
+  {
+    timestamp: '2026-01-30T12:00:07.000Z',
+    sessionId,
+    eventType: 'story_complete',
+    payload: { storyId: 'US-001', passes: true },
+  },
+  {
+    timestamp: '2026-01-30T12:00:08.000Z',
+    sessionId,
+    eventType: 'session_end',
+    payload: { success: true },
+  },
+];
+
+// ============================================================================
+// UpcasterRegistry Tests
+// ============================================================================
+
+describe('UpcasterRegistry', () => {
+  it('treats events without schemaVersion as the legacy version', () => {
+    const registry = new UpcasterRegistry();
+    const seen: unknown[] = [];
+    registry.register(LEGACY_SCHEMA_VERSION, (event) => {
+      seen.push(event['schemaVersion']);
+      return event;
+    });
+
+    const result = registry.upcast({ payload: {} }, 2);
+
+    expect(seen).toEqual([undefined]);
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual({ payload: {}, schemaVersion: 2 });
+    }
+  });
+
+  it('chains upcasters one version at a time', () => {
+    const registry = new UpcasterRegistry();
+    registry.register(1, (event) => ({ ...event, tokens: event['count'] }));
+    registry.register(2, (event) => {
+      const { tokens, ...rest } = event;
+      return { ...rest, payload: { count: tokens } };
+    });
+
+    const result = registry.upcast({ count: 5 }, 3);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual({
+        count: 5,
+        payload: { count: 5 },
+        schemaVersion: 3,
+      });
+    }
+  });
+
+  it('does not mutate the input', () => {
+    const registry = new UpcasterRegistry();
+    registry.register(1, (event) => {
+      event['migrated'] = true;
+      return event;
+    });
+    const input = { payload: {} };
+
+    registry.upcast(input, 2);
+
+    expect(input).toEqual({ payload: {} });
+  });
+
+  it('leaves current-version events unchanged', () => {
+    const registry = new UpcasterRegistry();
+    const event = { schemaVersion: 2, payload: {} };
+
+    const result = registry.upcast(event, 2);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual(event);
+    }
+  });
+
+  it('rejects a version newer than the target', () => {
+    const result = new UpcasterRegistry().upcast({ schemaVersion: 3 }, 2);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('UNSUPPORTED_SCHEMA_VERSION');
+    }
+  });
+
+  it('rejects a missing upcaster step', () => {
+    const result = new UpcasterRegistry().upcast({ schemaVersion: 1 }, 2);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe('UNSUPPORTED_SCHEMA_VERSION');
+    }
+  });
+
+  it('rejects a malformed schemaVersion', () => {
+    const registry = new UpcasterRegistry();
+
+    for (const schemaVersion of ['2', 0, 1.5]) {
+      const result = registry.upcast({ schemaVersion }, 2);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('INVALID_SCHEMA_VERSION');
+      }
+    }
+  });
+
+  it('passes non-object input through for the schema to reject', () => {
+    const result = new UpcasterRegistry().upcast('not an event', 2);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toBe('not an event');
+    }
+  });
+});
+
+// ============================================================================
+// Event Validation Tests
+// ============================================================================
+
+describe('versioned event validation', () => {
+  it('loads every v1 corpus event and stamps the current version', () => {
+    for (const data of v1Corpus) {
+      const result = safeValidateEvent(data);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(result.value.eventType).toBe(data['eventType']);
+        expect(result.value.payload).toEqual(data['payload']);
+      }
+    }
+  });
+
+  it('accepts events at the current version', () => {
+    const event = validateEvent({
+      ...v1Corpus[2],
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+
+    expect(event.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('rejects events from a newer schema version', () => {
+    const data = { ...v1Corpus[2], schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+    const result = safeValidateEvent(data);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.issues[0]?.path).toEqual(['schemaVersion']);
+    }
+    expect(() => validateEvent(data)).toThrow();
+  });
+
+  it('replays a v1 session through the collector', () => {
+    const collector = new EventCollector();
+
+    for (const data of v1Corpus) {
+      expect(isOk(collector.emit(data))).toBe(true);
+    }
+
+    const session = collector.getSession(sessionId);
+    expect(isOk(session)).toBe(true);
+    if (isOk(session)) {
+      expect(session.value.metadata.status).toBe('completed');
+      expect(session.value.events).toHaveLength(v1Corpus.length);
+    }
+
+    const metrics = collector.getMetrics(sessionId);
+    expect(isOk(metrics)).toBe(true);
+    if (isOk(metrics)) {
+      expect(metrics.value.totalTokensIn).toBe(1200);
+      expect(metrics.value.storiesPassed).toBe(1);
+    }
+  });
+});
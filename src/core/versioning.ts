@@ -0,0 +1,139 @@
+/**
+ * Event Schema Versioning for RalphMeter
+ *
+ * Migrates event payloads from older RalphMeter builds to the current
+ * event shape before validation, one version step at a time.
+ */
+
+import { type Result, ok, err } from '../shared/result.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw event object as received, before validation
+ */
+export type RawEvent = Record<string, unknown>;
+
+/**
+ * Migrates a raw event from one schema version to the next
+ */
+export type Upcaster = (event: RawEvent) => RawEvent;
+
+/**
+ * Error types for upcasting
+ */
+export interface UpcastError {
+  code: 'INVALID_SCHEMA_VERSION' | 'UNSUPPORTED_SCHEMA_VERSION';
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Schema version produced by this build
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * Version assumed for events without a schemaVersion field
+ * (everything exported before versioning was introduced)
+ */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+// ============================================================================
+// UpcasterRegistry Class
+// ============================================================================
+
+/**
+ * Registry of upcasters keyed by the version they migrate from
+ */
+export class UpcasterRegistry {
+  /** Upcasters by source version */
+  private upcasters = new Map<number, Upcaster>();
+
+  /**
+   * Registers an upcaster from a version to the next one
+   *
+   * @param fromVersion - The version the upcaster reads
+   * @param upcaster - Function producing the fromVersion + 1 shape
+   */
+  register(fromVersion: number, upcaster: Upcaster): void {
+    this.upcasters.set(fromVersion, upcaster);
+  }
+
+  /**
+   * Checks whether an upcaster exists for a version
+   */
+  has(fromVersion: number): boolean {
+    return this.upcasters.has(fromVersion);
+  }
+
+  /**
+   * Migrates a raw event to the target version.
+   * Non-object input is returned unchanged for the schema to reject.
+   *
+   * @param data - The raw event
+   * @param targetVersion - Version to migrate to
+   * @returns The migrated event stamped with targetVersion, or error
+   */
+  upcast(
+    data: unknown,
+    targetVersion: number = CURRENT_SCHEMA_VERSION
+  ): Result<unknown, UpcastError> {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return ok(data);
+    }
+
+    let event = { ...(data as RawEvent) };
+    const version = event['schemaVersion'] ?? LEGACY_SCHEMA_VERSION;
+
+    if (
+      typeof version !== 'number' ||
+      !Number.isInteger(version) ||
+      version < 1
+    ) {
+      return err({
+        code: 'INVALID_SCHEMA_VERSION',
+        message: `Invalid schemaVersion: ${JSON.stringify(version)}`,
+      });
+    }
+
+    if (version > targetVersion) {
+      return err({
+        code: 'UNSUPPORTED_SCHEMA_VERSION',
+        message: `schemaVersion ${String(version)} is newer than supported version ${String(targetVersion)}`,
+      });
+    }
+
+    for (let v = version; v < targetVersion; v++) {
+      const upcaster = this.upcasters.get(v);
+      if (upcaster === undefined) {
+        return err({
+          code: 'UNSUPPORTED_SCHEMA_VERSION',
+          message: `No upcaster registered for schemaVersion ${String(v)}`,
+        });
+      }
+      event = upcaster(event);
+    }
+
+    return ok({ ...event, schemaVersion: targetVersion });
+  }
+}
+
+// ============================================================================
+// Default Registry
+// ============================================================================
+
+/**
+ * Upcasters used by validateEvent and safeValidateEvent
+ */
+export const eventUpcasters = new UpcasterRegistry();
+
+// v1 -> v2: versioning introduced. v1 payloads are already valid v2
+// payloads (later fields were all added as optional), so only the
+// version stamp changes.
+eventUpcasters.register(1, (event) => event);
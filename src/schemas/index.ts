@@ -17,6 +17,9 @@ export {
   CompilationResultEventSchema,
   TestResultEventSchema,
   StoryCompleteEventSchema,
+  ToolCallEventSchema,
+  FileChangeEventSchema,
+  CustomEventSchema,
   MeterEventSchema,
 } from '../core/events.js';
 
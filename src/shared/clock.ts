@@ -0,0 +1,27 @@
+/**
+ * Clock abstraction
+ *
+ * Time-dependent code takes a Clock instead of calling Date.now()
+ * directly, so tests and replays can control the current time.
+ */
+
+/**
+ * Returns the current time in epoch milliseconds
+ */
+export type Clock = () => number;
+
+/**
+ * Clock backed by Date.now()
+ */
+export const systemClock: Clock = () => Date.now();
+
+/**
+ * Creates a clock that always returns the same time
+ *
+ * @param time - ISO timestamp or epoch milliseconds
+ * @returns A clock frozen at the given time
+ */
+export function fixedClock(time: string | number): Clock {
+  const ms = typeof time === 'string' ? Date.parse(time) : time;
+  return () => ms;
+}
@@ -2,3 +2,5 @@
  * Shared utilities barrel export
  */
 export * from './result.js';
+export * from './clock.js';
+export * from './records.js';
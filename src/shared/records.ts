@@ -0,0 +1,63 @@
+/**
+ * Keyed Record Helpers for RalphMeter
+ *
+ * Lookups and inserts for plain-object tables keyed by client-supplied
+ * strings. Only own properties are read, and entries are defined rather
+ * than assigned, so keys such as `__proto__` and `constructor` are stored
+ * like any other key instead of reaching Object.prototype.
+ */
+
+/**
+ * Gets a table's own entry for a key
+ *
+ * @param table - The keyed table
+ * @param key - The key
+ * @returns The entry, or undefined if the table has no own entry
+ */
+export function getOwnEntry<T>(
+  table: Record<string, T>,
+  key: string
+): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+/**
+ * Stores an entry in a table as an own property
+ *
+ * @param table - Table to update in place
+ * @param key - The key
+ * @param value - The entry
+ */
+export function setOwnEntry<T>(
+  table: Record<string, T>,
+  key: string,
+  value: T
+): void {
+  Object.defineProperty(table, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Gets a table's own entry for a key, creating it if needed
+ *
+ * @param table - Table to update in place
+ * @param key - The key
+ * @param create - Creates the entry for a new key
+ * @returns The existing or new entry
+ */
+export function ensureOwnEntry<T>(
+  table: Record<string, T>,
+  key: string,
+  create: () => T
+): T {
+  let entry = getOwnEntry(table, key);
+  if (entry === undefined) {
+    entry = create();
+    setOwnEntry(table, key, entry);
+  }
+  return entry;
+}
@@ -19,11 +19,17 @@ export type {
   TokensOutEvent,
   CompilationResultEvent,
   TestResultEvent,
+  TestCase,
   StoryCompleteEvent,
+  ToolCallEvent,
+  FileChangeEvent,
+  CustomEvent,
+  BuiltinMeterEvent,
   MeterEvent,
   EventType,
   ValidationError,
 } from '../core/events.js';
+export type { CustomEventType } from '../core/custom-events.js';
 
 // Re-export core types (will be populated as features are added)
 // export * from '../core/collector.js';